@@ -0,0 +1,75 @@
+// Minimaler WebDAV-Ersatz zum lokalen Testen der Synchronisation.
+//
+// Unterstützt genau das, was die App benötigt: GET und PUT einzelner Dateien mit ETags
+// (If-Match / If-None-Match), optional HTTP Basic Auth, sowie CORS für `ng serve`.
+// Die Dateien werden nur im Speicher gehalten.
+//
+//   npm run webdav:stand-in
+//   PORT=8090 WEBDAV_USER=demo WEBDAV_PASSWORD=geheim npm run webdav:stand-in
+//
+// In der App als WebDAV-Ordner z.B. http://localhost:8090/tagebuch eintragen.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const port = Number(process.env.PORT) || 8090;
+const user = process.env.WEBDAV_USER ?? '';
+const password = process.env.WEBDAV_PASSWORD ?? '';
+
+/** @type {Map<string, { content: Buffer, etag: string }>} */
+const files = new Map();
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, If-Match, If-None-Match',
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+function isAuthorized(req) {
+  if (!user) return true;
+  const expected = `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`;
+  return req.headers.authorization === expected;
+}
+
+function send(res, status, body = '', headers = {}) {
+  res.writeHead(status, { ...corsHeaders, ...headers });
+  res.end(body);
+}
+
+const server = createServer((req, res) => {
+  const path = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!isAuthorized(req)) return send(res, 401, '', { 'WWW-Authenticate': 'Basic realm="webdav-stand-in"' });
+
+  const file = files.get(path);
+  if (req.method === 'GET') {
+    if (!file) return send(res, 404);
+    return send(res, 200, file.content, { 'Content-Type': 'application/json', ETag: file.etag });
+  }
+
+  if (req.method === 'PUT') {
+    const ifMatch = req.headers['if-match'];
+    const ifNoneMatch = req.headers['if-none-match'];
+    if ((ifMatch && ifMatch !== file?.etag) || (ifNoneMatch === '*' && file)) {
+      return send(res, 412);
+    }
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const content = Buffer.concat(chunks);
+      const etag = `"${createHash('sha1').update(content).digest('hex')}"`;
+      files.set(path, { content, etag });
+      console.log(`PUT ${path} (${content.length} bytes, ${etag})`);
+      send(res, file ? 204 : 201, '', { ETag: etag });
+    });
+    return;
+  }
+
+  send(res, 405, '', { Allow: 'GET, PUT, OPTIONS' });
+});
+
+server.listen(port, () => {
+  console.log(`WebDAV stand-in listening on http://localhost:${port}/${user ? ` (user "${user}")` : ''}`);
+});
@@ -6,18 +6,25 @@ import { StatisticsComponent } from './components/statistics.component';
 import { SettingsComponent } from './components/settings.component';
 import { InfoComponent } from './components/info.component';
 import { LockScreenComponent } from './components/lock-screen.component';
+import { RetentionPreviewComponent } from './components/retention-preview.component';
 import { DataService } from './services/data.service';
 import { UiService } from './services/ui.service';
 import { TranslationService } from './services/translation.service';
 import { ToastComponent } from './components/toast.component';
 import { LockService } from './services/lock.service';
 import { NotificationService } from './services/notification.service';
+import { BackupService } from './services/backup.service';
+import { SyncService, SyncStatus } from './services/sync.service';
+import { UndoService } from './services/undo.service';
+import { StorageMonitorService } from './services/storage-monitor.service';
+import { RetentionService } from './services/retention.service';
 import { Capacitor } from '@capacitor/core';
 import { LocalNotifications, ActionPerformed } from '@capacitor/local-notifications';
 import { Page } from './models';
 import { EmojiPickerComponent } from './components/emoji-picker.component';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
-import { faEllipsisV, faPlus } from '@fortawesome/free-solid-svg-icons';
+import { faEllipsisV, faPlus, faCloud, faCloudArrowUp, faRotate, faTriangleExclamation } from '@fortawesome/free-solid-svg-icons';
+import { IconDefinition } from '@fortawesome/fontawesome-svg-core';
 
 /**
  * AppComponent ist die Wurzelkomponente der Anwendung.
@@ -27,9 +34,12 @@ import { faEllipsisV, faPlus } from '@fortawesome/free-solid-svg-icons';
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, FormsModule, DiaryListComponent, StatisticsComponent, SettingsComponent, InfoComponent, ToastComponent, LockScreenComponent, EmojiPickerComponent, FontAwesomeModule],
+  imports: [CommonModule, FormsModule, DiaryListComponent, StatisticsComponent, SettingsComponent, InfoComponent, ToastComponent, LockScreenComponent, RetentionPreviewComponent, EmojiPickerComponent, FontAwesomeModule],
   templateUrl: './app.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
+  host: {
+    '(document:keydown)': 'onKeydown($event)',
+  },
 })
 export class AppComponent {
   dataService = inject(DataService);
@@ -39,11 +49,21 @@ export class AppComponent {
   lockService = inject(LockService);
   // NotificationService hier initialisieren, um den Listener für Erinnerungen zu aktivieren
   notificationService = inject(NotificationService);
+  // BackupService hier initialisieren, um die automatische Sicherung zu aktivieren
+  backupService = inject(BackupService);
+  // SyncService hier initialisieren, um die Synchronisation zu aktivieren
+  syncService = inject(SyncService);
+  // StorageMonitorService hier initialisieren, um vor knappem Speicherplatz zu warnen
+  storageMonitor = inject(StorageMonitorService);
+  // RetentionService hier initialisieren, um die Aufbewahrungsrichtlinie beim Start zu prüfen
+  retentionService = inject(RetentionService);
+  undoService = inject(UndoService);
   t = this.translationService.translations;
   
   // --- UI-Zustandssignale ---
   currentPage = signal<Page>('diary'); // Die aktuell angezeigte Seite
   menuOpen = signal(false); // Zustand des Kebab-Menüs in der Kopfzeile
+  profileMenuOpen = signal(false); // Zustand des Profil-Menüs in der Kopfzeile
 
   // --- Emoji Picker State ---
   showEmojiPicker = signal(false);
@@ -53,6 +73,34 @@ export class AppComponent {
   faEllipsisV = faEllipsisV;
   faPlus = faPlus;
 
+  /**
+   * Icon und Farbe der Sync-Anzeige in der Kopfzeile je Status.
+   */
+  private readonly syncIndicators: Record<Exclude<SyncStatus, 'disabled'>, { icon: IconDefinition; class: string }> = {
+    idle: { icon: faCloud, class: 'text-green-600 dark:text-green-500' },
+    pending: { icon: faCloudArrowUp, class: 'text-amber-500' },
+    syncing: { icon: faRotate, class: 'text-primary-600 dark:text-primary-400 animate-spin' },
+    offline: { icon: faCloud, class: 'text-slate-400 dark:text-slate-500' },
+    error: { icon: faTriangleExclamation, class: 'text-red-600 dark:text-red-500' },
+  };
+
+  /**
+   * Die Sync-Anzeige in der Kopfzeile; `null`, wenn die Synchronisation nicht eingerichtet ist.
+   */
+  syncIndicator = computed(() => {
+    const status = this.syncService.status();
+    if (status === 'disabled') return null;
+    const t = this.t();
+    const labels: Record<Exclude<SyncStatus, 'disabled'>, string> = {
+      idle: t.syncStatusIdle,
+      pending: t.syncStatusPending,
+      syncing: t.syncStatusSyncing,
+      offline: t.syncStatusOffline,
+      error: t.syncStatusError,
+    };
+    return { ...this.syncIndicators[status], label: labels[status] };
+  });
+
   /**
    * Ein Computed Signal, das den Titel und das Emoji der aktuellen Seite zurückgibt.
    */
@@ -121,6 +169,9 @@ export class AppComponent {
         // Muss in der Angular-Zone ausgeführt werden, um die Change Detection auszulösen
         this.zone.run(() => {
           console.log('Reminder notification tapped, opening diary entry form.');
+          if (extraData.profileId) {
+            this.dataService.switchProfile(extraData.profileId);
+          }
           this.uiService.navigateToPage.set('diary');
           this.uiService.requestDiaryFormOpen.set(true);
         });
@@ -128,6 +179,25 @@ export class AppComponent {
     });
   }
 
+  /**
+   * Tastenkürzel: Strg+Z macht die letzte Änderung rückgängig, Strg+Umschalt+Z bzw. Strg+Y
+   * wiederholt sie. In Eingabefeldern bleibt das Rückgängigmachen des Browsers erhalten.
+   */
+  onKeydown(event: KeyboardEvent) {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey || this.lockService.isLocked()) return;
+    const target = event.target as HTMLElement | null;
+    if (target?.closest('input, textarea, select, [contenteditable]')) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.undoService.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.undoService.redo();
+    }
+  }
+
   /**
    * Navigiert zu einer bestimmten Seite und schließt das Menü.
    * @param page Die Seite, zu der navigiert werden soll.
@@ -142,6 +212,38 @@ export class AppComponent {
    */
   toggleMenu() {
     this.menuOpen.update(open => !open);
+    this.profileMenuOpen.set(false);
+  }
+
+  /**
+   * Schaltet den Zustand des Profil-Menüs um (offen/geschlossen).
+   */
+  toggleProfileMenu() {
+    this.profileMenuOpen.update(open => !open);
+    this.menuOpen.set(false);
+  }
+
+  /**
+   * Wechselt das aktive Profil und schließt das Profil-Menü.
+   */
+  switchProfile(id: string) {
+    this.dataService.switchProfile(id);
+    this.profileMenuOpen.set(false);
+  }
+
+  /**
+   * Öffnet die Profilverwaltung in den Einstellungen.
+   */
+  manageProfiles() {
+    this.profileMenuOpen.set(false);
+    this.navigate('settings');
+  }
+
+  /**
+   * Startet eine Synchronisation über die Anzeige in der Kopfzeile.
+   */
+  syncNow() {
+    void this.syncService.sync();
   }
 
   /**
@@ -153,6 +255,9 @@ export class AppComponent {
     if (this.menuOpen()) {
         this.menuOpen.set(false);
     }
+    if (this.profileMenuOpen()) {
+        this.profileMenuOpen.set(false);
+    }
   }
 
   // --- Emoji Picker Methods ---
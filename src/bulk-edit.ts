@@ -0,0 +1,66 @@
+import { DiaryEntry, Dosage, Effect, Preparation } from './models';
+import { entrySnapshot } from './preparation-revisions';
+
+/**
+ * Sammelbearbeitung mehrerer Tagebucheinträge in der Liste.
+ *
+ * Eine Sammelbearbeitung ist eine einzelne Aktion, die auf jeden ausgewählten Eintrag angewendet
+ * wird. Die Einträge werden wie bei einer Bearbeitung im Formular gespeichert, die Änderung landet
+ * also auch im Bearbeitungsverlauf.
+ */
+
+export type BulkEdit =
+  | { action: 'setPreparation'; preparationId?: string }
+  | { action: 'setDosage'; dosage?: Dosage }
+  | { action: 'addSymptom' | 'removeSymptom' | 'addActivity' | 'removeActivity' | 'removeEffect'; id: string }
+  | { action: 'addEffect'; effect: Effect }
+  | { action: 'shiftTime'; minutes: number };
+
+export type BulkAction = BulkEdit['action'];
+
+export const BULK_ACTIONS: BulkAction[] = [
+  'setPreparation', 'setDosage', 'addSymptom', 'removeSymptom', 'addActivity', 'removeActivity', 'addEffect', 'removeEffect', 'shiftTime',
+];
+
+/**
+ * Wendet die Aktion auf einen Eintrag an. Wechseln Präparat oder Zeitpunkt, wird die
+ * Momentaufnahme des Präparats wie im Formular neu ermittelt, sofern es das Präparat noch gibt.
+ * @param preparations Die Präparate, unter denen das gewählte bzw. verknüpfte Präparat gesucht wird.
+ * @returns Den unveränderten Eintrag, wenn die Aktion nichts ändert, z.B. ein bereits vorhandenes Symptom.
+ */
+export function applyBulkEdit(entry: DiaryEntry, edit: BulkEdit, preparations: Preparation[]): DiaryEntry {
+  switch (edit.action) {
+    case 'setPreparation':
+      if (entry.preparationId === edit.preparationId) return entry;
+      return { ...entry, preparationId: edit.preparationId, ...entrySnapshot(preparations.find(p => p.id === edit.preparationId), entry.datetime) };
+    case 'setDosage':
+      if (entry.dosage?.amount === edit.dosage?.amount && entry.dosage?.unit === edit.dosage?.unit) return entry;
+      return { ...entry, dosage: edit.dosage };
+    case 'addSymptom':
+      return entry.symptomIds?.includes(edit.id) ? entry : { ...entry, symptomIds: [...(entry.symptomIds ?? []), edit.id] };
+    case 'removeSymptom':
+      return entry.symptomIds?.includes(edit.id) ? { ...entry, symptomIds: withoutId(entry.symptomIds, edit.id) } : entry;
+    case 'addActivity':
+      return entry.activityIds?.includes(edit.id) ? entry : { ...entry, activityIds: [...(entry.activityIds ?? []), edit.id] };
+    case 'removeActivity':
+      return entry.activityIds?.includes(edit.id) ? { ...entry, activityIds: withoutId(entry.activityIds, edit.id) } : entry;
+    case 'addEffect':
+      return entry.effects.some(e => e.id === edit.effect.id) ? entry : { ...entry, effects: [...entry.effects, edit.effect] };
+    case 'removeEffect':
+      return entry.effects.some(e => e.id === edit.id) ? { ...entry, effects: entry.effects.filter(e => e.id !== edit.id) } : entry;
+    case 'shiftTime': {
+      if (edit.minutes === 0) return entry;
+      const datetime = new Date(Date.parse(entry.datetime) + edit.minutes * 60_000).toISOString();
+      const prep = preparations.find(p => p.id === entry.preparationId);
+      return prep ? { ...entry, datetime, ...entrySnapshot(prep, datetime) } : { ...entry, datetime };
+    }
+  }
+}
+
+/**
+ * Entfernt die ID aus der Liste. Leere Listen entfallen ganz, wie beim Speichern im Formular.
+ */
+function withoutId(ids: string[] | undefined, id: string): string[] | undefined {
+  const remaining = (ids ?? []).filter(i => i !== id);
+  return remaining.length > 0 ? remaining : undefined;
+}
@@ -0,0 +1,22 @@
+import { CatalogItem } from './models';
+
+/**
+ * Archivierte Stammdaten.
+ *
+ * Nicht mehr benötigte Stammdaten, z.B. ein abgesetztes Präparat, lassen sich archivieren statt
+ * löschen. Bei der Erfassung werden sie nicht mehr zur Auswahl angeboten, in Tagebuch, Statistik
+ * und Exporten aber weiterhin aufgelöst.
+ */
+
+export function isArchived(item: CatalogItem): boolean {
+  return item.archived === true;
+}
+
+/**
+ * Die zur Auswahl angebotenen Datensätze: alle nicht archivierten sowie die archivierten, die der
+ * bearbeitete Datensatz bereits verwendet, damit dessen Auswahl erhalten bleibt.
+ * @param selectedIds Die IDs, die der bearbeitete Datensatz bereits verwendet.
+ */
+export function selectableItems<T extends CatalogItem & { id: string }>(items: T[], selectedIds: readonly (string | undefined)[] = []): T[] {
+  return items.filter(item => !isArchived(item) || selectedIds.includes(item.id));
+}
@@ -0,0 +1,130 @@
+import { Component, ChangeDetectionStrategy, inject, input, output, signal, computed, linkedSignal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { TranslationService } from '../services/translation.service';
+import { ToastService } from '../services/toast.service';
+import { CsvService, CsvDecimalSeparator, CsvImportField, CsvImportResult, CSV_IMPORT_FIELDS, parseCsv } from '../services/csv.service';
+
+/**
+ * CsvImportComponent ist der Assistent für den Import von Tagebucheinträgen aus einer CSV-Datei.
+ * Er zeigt eine Vorschau der Datei, lässt den Benutzer die Spalten den Feldern eines
+ * Tagebucheintrags zuordnen und fasst das Ergebnis des Imports zusammen.
+ */
+@Component({
+  selector: 'csv-import',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './csv-import.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class CsvImportComponent {
+  csvService = inject(CsvService);
+  translationService = inject(TranslationService);
+  toastService = inject(ToastService);
+  t = this.translationService.translations;
+
+  /**
+   * Der Inhalt der ausgewählten CSV-Datei.
+   */
+  content = input.required<string>();
+  close = output<void>();
+
+  fields = CSV_IMPORT_FIELDS;
+  hasHeader = signal(true);
+  /**
+   * Das Dezimaltrennzeichen der Mengen; vorgeschlagen wird das der eigenen Sprache.
+   */
+  decimalSeparator = signal<CsvDecimalSeparator>(this.csvService.decimalSeparator());
+  result = signal<CsvImportResult | null>(null);
+
+  private rows = computed(() => parseCsv(this.content()));
+  private dataRows = computed(() => this.hasHeader() ? this.rows().slice(1) : this.rows());
+
+  columnCount = computed(() => Math.max(0, ...this.rows().map(row => row.length)));
+  columns = computed(() => Array.from({ length: this.columnCount() }, (_, i) => i));
+
+  /**
+   * Die Spaltennamen aus der Kopfzeile bzw. fortlaufende Bezeichnungen ohne Kopfzeile.
+   */
+  headers = computed(() => this.columns().map(i =>
+    this.hasHeader() ? (this.rows()[0]?.[i] ?? '') : this.t().csvColumn.replace('{{number}}', String(i + 1))
+  ));
+
+  /**
+   * Die Zuordnung der Spalten. Wird bei einer neuen Datei aus der Kopfzeile vorgeschlagen
+   * und kann anschließend vom Benutzer angepasst werden.
+   */
+  mapping = linkedSignal(() => this.csvService.guessMapping(this.rows()[0] ?? []));
+
+  previewRows = computed(() => this.dataRows().slice(0, 5));
+  rowCount = computed(() => this.dataRows().length);
+
+  /**
+   * Ohne Datum kann kein Eintrag angelegt werden.
+   */
+  canImport = computed(() => this.mapping().some(field => field === 'datetime' || field === 'date') && this.rowCount() > 0);
+
+  fieldLabels = computed((): Record<CsvImportField, string> => {
+    const t = this.t();
+    return {
+      datetime: t.csvDateTime,
+      date: t.csvDate,
+      time: t.csvTime,
+      mood: t.csvMood,
+      preparation: t.csvPreparation,
+      dosage: t.csvDosage,
+      effects: t.csvEffects,
+      symptoms: t.csvSymptoms,
+      activities: t.csvActivities,
+      note: t.csvNote,
+    };
+  });
+
+  /**
+   * Die automatisch angelegten Stammdaten als lesbare Liste.
+   */
+  createdSummary = computed(() => {
+    const result = this.result();
+    if (!result) return [];
+    const t = this.t();
+    const labels: Record<keyof CsvImportResult['created'], string> = {
+      preparations: t.crudPreparations,
+      dosages: t.crudDosages,
+      moods: t.crudMoods,
+      effects: t.crudEffects,
+      symptoms: t.crudSymptoms,
+      activities: t.crudActivities,
+    };
+    return (Object.keys(labels) as (keyof CsvImportResult['created'])[])
+      .filter(key => result.created[key] > 0)
+      .map(key => ({ label: labels[key], count: result.created[key] }));
+  });
+
+  setField(column: number, field: CsvImportField | null) {
+    this.mapping.update(mapping => {
+      const next = [...mapping];
+      // Jedes Feld kann nur einer Spalte zugeordnet sein.
+      if (field) {
+        next.forEach((f, i) => { if (f === field) next[i] = null; });
+      }
+      next[column] = field;
+      return next;
+    });
+  }
+
+  runImport() {
+    const result = this.csvService.importDiary(this.dataRows(), this.mapping(), this.hasHeader() ? 2 : 1, this.decimalSeparator());
+    this.result.set(result);
+    if (result.imported > 0) {
+      this.toastService.showSuccess(this.t().csvImportSuccess.replace('{{count}}', String(result.imported)));
+    }
+  }
+
+  skipReason(reason: CsvImportResult['skipped'][number]['reason']): string {
+    return reason === 'invalidDate' ? this.t().csvSkippedInvalidDate : this.t().moodOrPreparationRequired;
+  }
+
+  closeWizard() {
+    this.close.emit();
+  }
+}
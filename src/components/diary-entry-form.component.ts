@@ -3,6 +3,8 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { DataService } from '../services/data.service';
 import { DiaryEntry, Preparation, Mood, Symptom, Activity, Effect } from '../models';
+import { entrySnapshot } from '../preparation-revisions';
+import { selectableItems } from '../catalog-archive';
 import { UiService } from '../services/ui.service';
 import { TranslationService } from '../services/translation.service';
 import { ToastService } from '../services/toast.service';
@@ -59,11 +61,18 @@ export class DiaryEntryFormComponent {
   formDosageUnit = signal('');
   formNote = signal('');
 
+  // --- Auswahllisten ohne archivierte Stammdaten (außer den im bearbeiteten Eintrag verwendeten) ---
+  selectableMoods = computed(() => selectableItems(this.dataService.moods(), [this.entryToEdit()?.mood?.id]));
+  selectableSymptoms = computed(() => selectableItems(this.dataService.symptoms(), this.entryToEdit()?.symptomIds));
+  selectableEffects = computed(() => selectableItems(this.dataService.effects(), this.entryToEdit()?.effects.map(e => e.id)));
+  selectableActivities = computed(() => selectableItems(this.dataService.activities(), this.entryToEdit()?.activityIds));
+
   /**
    * Sortiert die Präparate für das Dropdown.
    * Kriterien:
    * 1. Nach letztem Verwendungsdatum absteigend.
    * 2. Präparate ohne Verwendung am Ende, alphabetisch sortiert.
+   * Archivierte Präparate entfallen.
    */
   sortedPreparationsForDropdown = computed(() => {
     const lastUsedMap = new Map<string, string>();
@@ -75,7 +84,7 @@ export class DiaryEntryFormComponent {
         }
     }
     
-    const allPreps = this.dataService.preparations().map(prep => ({
+    const allPreps = selectableItems(this.dataService.preparations(), [this.entryToEdit()?.preparationId]).map(prep => ({
         id: prep.id,
         formattedName: this.formatPreparation(prep),
         lastUsed: lastUsedMap.get(prep.id)
@@ -280,20 +289,23 @@ export class DiaryEntryFormComponent {
         datetime: newDatetime,
         mood: mood,
         preparationId: prep?.id,
-        ingredientIds: prep?.ingredientIds,
+        ...entrySnapshot(prep, newDatetime),
         effects: effects,
         symptomIds: this.formSymptomIds().length > 0 ? this.formSymptomIds() : undefined,
         activityIds: this.formActivityIds().length > 0 ? this.formActivityIds() : undefined,
         note: this.formNote(),
       };
       updatedEntry.dosage = (dosageAmount !== null && dosageUnit) ? { id: '', amount: dosageAmount, unit: dosageUnit } : undefined;
-      this.dataService.updateDiaryEntry(updatedEntry);
+      const conflicts = this.dataService.updateDiaryEntry(updatedEntry, this.entryToEdit()!);
+      if (conflicts.length > 0) {
+        this.toastService.show(this.translationService.t('entryEditConflict'), 'info', 8000);
+      }
     } else {
-      const newEntry: Omit<DiaryEntry, 'id'> = {
+      const newEntry: Omit<DiaryEntry, 'id' | 'profileId'> = {
         datetime: newDatetime,
         mood: mood,
         preparationId: prep?.id,
-        ingredientIds: prep?.ingredientIds,
+        ...entrySnapshot(prep, newDatetime),
         effects: effects,
         symptomIds: this.formSymptomIds().length > 0 ? this.formSymptomIds() : undefined,
         activityIds: this.formActivityIds().length > 0 ? this.formActivityIds() : undefined,
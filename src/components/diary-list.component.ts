@@ -1,12 +1,32 @@
 import { Component, ChangeDetectionStrategy, inject, signal, computed, effect } from '@angular/core';
 import { CommonModule, DatePipe } from '@angular/common';
 import { DataService } from '../services/data.service';
-import { DiaryEntry, Preparation, Manufacturer, ActiveIngredient, Symptom, Activity, Ingredient } from '../models';
+import { DiaryEntry, DiaryEntryChange, DiaryEntryRevision, Preparation, Manufacturer, ActiveIngredient, Symptom, Activity, Ingredient } from '../models';
+import { compositionForEntry } from '../preparation-revisions';
+import { HISTORY_FIELD_LABEL_KEYS, HistoryValueContext, formatHistoryValue } from '../entry-history';
+import { BULK_ACTIONS, BulkAction, BulkEdit } from '../bulk-edit';
+import { selectableItems } from '../catalog-archive';
 import { DiaryEntryFormComponent } from './diary-entry-form.component';
-import { TranslationService } from '../services/translation.service';
+import { TranslationKey, TranslationService } from '../services/translation.service';
 import { UiService } from '../services/ui.service';
+import { UndoService } from '../services/undo.service';
+import { ToastService } from '../services/toast.service';
+import { CsvService } from '../services/csv.service';
+import { FileService } from '../services/file.service';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
-import { faFilter, faChevronDown, faChevronUp, faSearch, faTimesCircle, faPlus, faTimes } from '@fortawesome/free-solid-svg-icons';
+import { faFilter, faChevronDown, faChevronUp, faSearch, faTimesCircle, faPlus, faTimes, faCheck } from '@fortawesome/free-solid-svg-icons';
+
+const BULK_ACTION_LABEL_KEYS: Record<BulkAction, TranslationKey> = {
+  setPreparation: 'bulkActionSetPreparation',
+  setDosage: 'bulkActionSetDosage',
+  addSymptom: 'bulkActionAddSymptom',
+  removeSymptom: 'bulkActionRemoveSymptom',
+  addActivity: 'bulkActionAddActivity',
+  removeActivity: 'bulkActionRemoveActivity',
+  addEffect: 'bulkActionAddEffect',
+  removeEffect: 'bulkActionRemoveEffect',
+  shiftTime: 'bulkActionShiftTime',
+};
 
 /**
  * DiaryListComponent zeigt die Liste aller Tagebucheinträge an.
@@ -24,6 +44,10 @@ export class DiaryListComponent {
   dataService = inject(DataService);
   translationService = inject(TranslationService);
   uiService = inject(UiService);
+  undoService = inject(UndoService);
+  toastService = inject(ToastService);
+  csvService = inject(CsvService);
+  fileService = inject(FileService);
   t = this.translationService.translations;
 
   // --- Icons ---
@@ -34,6 +58,7 @@ export class DiaryListComponent {
   faTimesCircle = faTimesCircle;
   faPlus = faPlus;
   faTimes = faTimes;
+  faCheck = faCheck;
 
   // --- UI-Zustandssignale ---
   showForm = signal(false); // Steuert die Sichtbarkeit des Formulars für neue/bearbeitete Einträge
@@ -42,6 +67,19 @@ export class DiaryListComponent {
   entryToDeleteId = signal<string | null>(null); // Hält die ID des Eintrags, für den die Löschbestätigung angezeigt wird
   showFilters = signal(false); // Steuert die Sichtbarkeit des Filter-Akkordeons
   showIngredientsForPrep = signal<string | null>(null); // Hält die ID des Präparats, dessen Inhaltsstoffe angezeigt werden
+  showHistory = signal(false); // Steuert die Sichtbarkeit des Bearbeitungsverlaufs in der Detailansicht
+
+  // --- Mehrfachauswahl ---
+  selectionMode = signal(false); // In der Auswahl wählt ein Klick auf einen Eintrag ihn aus, statt ihn anzuzeigen
+  selectedIds = signal<string[]>([]);
+  showBulkEdit = signal(false);
+  showBulkDeleteConfirm = signal(false);
+  bulkAction = signal<BulkAction>('setPreparation');
+  bulkPreparationId = signal('');
+  bulkDosageAmount = signal<number | null>(null);
+  bulkDosageUnit = signal('');
+  bulkItemId = signal(''); // Das Symptom, die Aktivität bzw. der Effekt der Aktion
+  bulkShiftHours = signal<number | null>(null);
 
   // --- Suche & Filter ---
   searchTerm = signal(''); // Der aktuelle Suchbegriff
@@ -174,6 +212,48 @@ export class DiaryListComponent {
     return diffDays > 1 ? diffDays - 1 : 0;
   });
 
+  /**
+   * Die Anzahl der Einträge, die Suche und Filter ergeben, unabhängig von der Paginierung.
+   */
+  filteredCount = computed(() => this.filteredEntries().length);
+
+  /**
+   * Die Aktionen der Sammelbearbeitung. Aktionen für ausgeblendete Module entfallen.
+   */
+  bulkActions = computed(() => {
+    const t = this.t();
+    const modules = this.dataService.moduleSettings();
+    const hidden: Partial<Record<BulkAction, boolean>> = {
+      setDosage: !modules.showDosage,
+      addSymptom: !modules.showSymptoms,
+      removeSymptom: !modules.showSymptoms,
+      addActivity: !modules.showActivities,
+      removeActivity: !modules.showActivities,
+      addEffect: !modules.showEffects,
+      removeEffect: !modules.showEffects,
+    };
+    return BULK_ACTIONS.filter(action => !hidden[action]).map(action => ({ action, label: t[BULK_ACTION_LABEL_KEYS[action]] }));
+  });
+
+  /**
+   * Die Präparate zur Auswahl in der Sammelbearbeitung, ohne archivierte.
+   */
+  bulkPreparationOptions = computed(() => selectableItems(this.dataService.sortedPreparations()));
+
+  /**
+   * Die Symptome, Aktivitäten bzw. Effekte zur Auswahl für die gewählte Aktion. Hinzufügen lassen
+   * sich nur nicht archivierte, entfernen alle.
+   */
+  bulkItemOptions = computed(() => {
+    const action = this.bulkAction();
+    const items =
+      action === 'addSymptom' || action === 'removeSymptom' ? this.dataService.symptoms() :
+      action === 'addActivity' || action === 'removeActivity' ? this.dataService.activities() :
+      action === 'addEffect' || action === 'removeEffect' ? this.dataService.effects() :
+      [];
+    return (action.startsWith('add') ? selectableItems(items) : items).map(item => ({ id: item.id, label: `${item.emoji} ${item.description}` }));
+  });
+
   // --- Paginierung ---
   private initialLoadCount = 50; // Anzahl der Einträge, die initial geladen werden
   private subsequentLoadCount = 10; // Anzahl der Einträge, die bei "Mehr laden" nachgeladen werden
@@ -210,14 +290,16 @@ export class DiaryListComponent {
    * Hilfsmethode, um die vollständigen Details (Präparat, Hersteller, Wirkstoff)
    * zu einer Präparat-ID zu erhalten.
    * @param prepId Die ID des Präparats.
+   * @param entry Der Eintrag, für dessen Version des Präparats der Wirkstoff ermittelt wird.
    * @returns Ein Objekt mit den zugehörigen Entitäten.
    */
-  getPreparationDetails(prepId?: string): { prep: Preparation | undefined, man: Manufacturer | undefined, ai: ActiveIngredient | undefined } {
+  getPreparationDetails(prepId?: string, entry?: DiaryEntry): { prep: Preparation | undefined, man: Manufacturer | undefined, ai: ActiveIngredient | undefined } {
     if (!prepId) return { prep: undefined, man: undefined, ai: undefined };
     const prep = this.dataService.preparations().find(p => p.id === prepId);
     if (!prep) return { prep: undefined, man: undefined, ai: undefined };
     const man = this.dataService.manufacturers().find(m => m.id === prep.manufacturerId);
-    const ai = this.dataService.activeIngredients().find(a => a.id === prep.activeIngredientId);
+    const activeIngredientId = entry ? compositionForEntry(prep, entry).activeIngredientId : prep.activeIngredientId;
+    const ai = this.dataService.activeIngredients().find(a => a.id === activeIngredientId);
     return { prep, man, ai };
   }
 
@@ -243,6 +325,30 @@ export class DiaryListComponent {
     return ingredients.map(i => i.name).join(', ');
   }
 
+  /**
+   * Die Bearbeitungen eines Eintrags, die neueste zuerst.
+   */
+  getRevisions(entry: DiaryEntry): DiaryEntryRevision[] {
+    return [...(entry.revisions ?? [])].reverse();
+  }
+
+  /**
+   * Beschreibt eine Änderung lesbar, z.B. "Dosierung: 5 mg → 10 mg". Inzwischen gelöschte
+   * Präparate, Symptome und Aktivitäten werden als solche gekennzeichnet.
+   */
+  formatChange(change: DiaryEntryChange): string {
+    const t = this.t();
+    const context: HistoryValueContext = {
+      language: this.translationService.language(),
+      name: (field, id) => {
+        if (field === 'preparationId') return this.getPreparationDetails(id).prep?.name ?? t.historyDeletedItem;
+        const item = field === 'symptomIds' ? this.getSymptoms([id])[0] : this.getActivities([id])[0];
+        return item ? `${item.emoji} ${item.description}` : t.historyDeletedItem;
+      },
+    };
+    return `${t[HISTORY_FIELD_LABEL_KEYS[change.field]]}: ${formatHistoryValue(change, 'before', context)} → ${formatHistoryValue(change, 'after', context)}`;
+  }
+
   // --- Aktionsmethoden ---
   toggleFilters() {
     this.showFilters.update(v => !v);
@@ -261,6 +367,7 @@ export class DiaryListComponent {
 
   viewEntry(entry: DiaryEntry) {
     this.showIngredientsForPrep.set(null); // Inhaltsstoffe beim Öffnen immer ausblenden
+    this.showHistory.set(false);
     this.showDetail.set(entry);
   }
 
@@ -285,6 +392,128 @@ export class DiaryListComponent {
     this.dataService.deleteDiaryEntry(id);
     this.showDetail.set(null); // Detailansicht schließen, falls der gelöschte Eintrag angezeigt wurde
     this.entryToDeleteId.set(null);
+    this.undoService.showUndoToast(this.t().entryDeleted);
+  }
+
+  // --- Mehrfachauswahl ---
+  startSelection() {
+    this.selectedIds.set([]);
+    this.selectionMode.set(true);
+  }
+
+  exitSelection() {
+    this.selectionMode.set(false);
+    this.selectedIds.set([]);
+  }
+
+  isSelected(id: string): boolean {
+    return this.selectedIds().includes(id);
+  }
+
+  toggleSelected(id: string) {
+    this.selectedIds.update(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  }
+
+  /**
+   * Wählt zusätzlich alle Einträge aus, die Suche und Filter ergeben, auch die noch nicht geladenen.
+   */
+  selectAllFiltered() {
+    const ids = new Set([...this.selectedIds(), ...this.filteredEntries().map(entry => entry.id)]);
+    this.selectedIds.set([...ids]);
+  }
+
+  clearSelection() {
+    this.selectedIds.set([]);
+  }
+
+  openBulkEdit() {
+    this.setBulkAction(this.bulkActions()[0].action);
+    this.showBulkEdit.set(true);
+  }
+
+  closeBulkEdit() {
+    this.showBulkEdit.set(false);
+  }
+
+  setBulkAction(action: BulkAction) {
+    this.bulkAction.set(action);
+    this.bulkPreparationId.set('');
+    this.bulkDosageAmount.set(null);
+    this.bulkDosageUnit.set('');
+    this.bulkItemId.set('');
+    this.bulkShiftHours.set(null);
+  }
+
+  /**
+   * Die Sammelbearbeitung aus den Eingaben oder `null`, solange sie unvollständig sind.
+   * Präparat und Dosierung dürfen leer bleiben, sie werden dann entfernt.
+   */
+  private bulkEdit(): BulkEdit | null {
+    const action = this.bulkAction();
+    switch (action) {
+      case 'setPreparation':
+        return { action, preparationId: this.bulkPreparationId() || undefined };
+      case 'setDosage': {
+        const amount = this.bulkDosageAmount();
+        const unit = this.bulkDosageUnit().trim();
+        if ((amount === null) !== !unit) return null;
+        return { action, dosage: amount !== null ? { id: '', amount, unit } : undefined };
+      }
+      case 'addEffect': {
+        const effect = this.dataService.effects().find(e => e.id === this.bulkItemId());
+        return effect ? { action, effect } : null;
+      }
+      case 'shiftTime': {
+        const minutes = Math.round((this.bulkShiftHours() ?? 0) * 60);
+        return minutes !== 0 ? { action, minutes } : null;
+      }
+      default:
+        return this.bulkItemId() ? { action, id: this.bulkItemId() } : null;
+    }
+  }
+
+  canApplyBulkEdit(): boolean {
+    return this.bulkEdit() !== null;
+  }
+
+  applyBulkEdit() {
+    const edit = this.bulkEdit();
+    if (!edit) {
+      if (this.bulkAction() === 'setDosage') this.toastService.showError(this.t().dosageFieldsIncomplete);
+      return;
+    }
+    const count = this.dataService.bulkEditDiaryEntries(this.selectedIds(), edit);
+    this.showBulkEdit.set(false);
+    const message = this.t().entriesBulkEdited.replace('{{count}}', String(count));
+    // Ohne Änderung entsteht kein Schritt, der sich rückgängig machen ließe.
+    if (count > 0) {
+      this.undoService.showUndoToast(message);
+    } else {
+      this.toastService.show(message);
+    }
+  }
+
+  requestBulkDelete() {
+    this.showBulkDeleteConfirm.set(true);
+  }
+
+  cancelBulkDelete() {
+    this.showBulkDeleteConfirm.set(false);
+  }
+
+  confirmBulkDelete() {
+    const ids = this.selectedIds();
+    this.dataService.deleteDiaryEntries(ids);
+    this.showBulkDeleteConfirm.set(false);
+    this.selectedIds.set([]);
+    this.undoService.showUndoToast(this.t().entriesBulkDeleted.replace('{{count}}', String(ids.length)));
+  }
+
+  async exportSelection() {
+    // Das BOM sorgt dafür, dass Tabellenkalkulationen Umlaute korrekt als UTF-8 erkennen.
+    const data = '\uFEFF' + this.csvService.exportDiary({ ids: new Set(this.selectedIds()) });
+    const fileName = `medikamententagebuch_auswahl_${new Date().toISOString().slice(0, 10)}.csv`;
+    await this.fileService.saveFile(data, fileName, 'text/csv', 'fileSavedSuccess');
   }
 
   loadMore() {
@@ -69,8 +69,8 @@ export class LockScreenComponent {
    * Überprüft die eingegebene PIN über den LockService.
    * Bei einer falschen PIN wird der Fehlerzustand aktiviert und die Eingabe nach einer kurzen Verzögerung zurückgesetzt.
    */
-  submitPin() {
-    const success = this.lockService.checkPin(this.pin());
+  async submitPin() {
+    const success = await this.lockService.checkPin(this.pin());
     if (!success) {
       this.error.set(true);
       setTimeout(() => {
@@ -0,0 +1,63 @@
+import { Component, ChangeDetectionStrategy, inject, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DataService } from '../services/data.service';
+import { RetentionService } from '../services/retention.service';
+import { TranslationService } from '../services/translation.service';
+import { DiaryEntry } from '../models';
+
+/**
+ * Anzahl der Einträge je Liste in der Vorschau.
+ */
+const RETENTION_PREVIEW_LIMIT = 20;
+
+/**
+ * RetentionPreviewComponent zeigt, was die Aufbewahrungsrichtlinie endgültig entfernen würde,
+ * und lässt den Benutzer das Entfernen bestätigen oder abbrechen. Die Vorschau wird sowohl beim
+ * Start als auch beim Ändern der Richtlinie in den Einstellungen vom RetentionService angefordert.
+ */
+@Component({
+  selector: 'retention-preview',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './retention-preview.component.html',
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class RetentionPreviewComponent {
+  dataService = inject(DataService);
+  retentionService = inject(RetentionService);
+  translationService = inject(TranslationService);
+  t = this.translationService.translations;
+
+  /**
+   * Die Einträge der Vorschau, je Liste höchstens `RETENTION_PREVIEW_LIMIT`, der älteste zuerst.
+   * Einträge im Papierkorb sind eingeschlossen.
+   */
+  rows = computed(() => {
+    const preview = this.retentionService.preview();
+    if (!preview) return null;
+    const { plan } = preview;
+    const trashed = new Map(this.dataService.trash().map(item => [item.id, item.record as DiaryEntry]));
+    const list = (entries: DiaryEntry[]) => {
+      const sorted = [...entries].sort((a, b) => a.datetime.localeCompare(b.datetime));
+      return {
+        count: sorted.length,
+        rows: sorted.slice(0, RETENTION_PREVIEW_LIMIT).map(entry => this.describeEntry(entry)),
+        more: Math.max(0, sorted.length - RETENTION_PREVIEW_LIMIT),
+      };
+    };
+    return {
+      backupFirst: preview.settings.backupFirst,
+      deleted: list([...plan.deletedEntries, ...plan.deletedTrashIds.flatMap(id => trashed.get(id) ?? [])]),
+      stripped: list([...plan.strippedEntries, ...plan.strippedTrash.map(item => item.record as DiaryEntry)]),
+    };
+  });
+
+  /**
+   * Kurzbeschreibung eines Eintrags aus Zeitpunkt, Stimmung und Präparat.
+   */
+  private describeEntry(entry: DiaryEntry): string {
+    const preparation = this.dataService.preparations().find(p => p.id === entry.preparationId);
+    const datetime = new Date(entry.datetime).toLocaleString(this.translationService.language(), { dateStyle: 'medium', timeStyle: 'short' });
+    return [datetime, entry.mood?.emoji, preparation?.name].filter(Boolean).join(' ');
+  }
+}
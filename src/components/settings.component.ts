@@ -1,17 +1,85 @@
-import { Component, ChangeDetectionStrategy, inject, signal, computed } from '@angular/core';
+import { Component, ChangeDetectionStrategy, inject, signal, computed, linkedSignal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { DataService, ModuleSettings } from '../services/data.service';
-import { CrudEntity, Reminder } from '../models';
-import { Capacitor } from '@capacitor/core';
-import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { BackupSettings, DataService, ModuleSettings, ParsedImport, RetentionSettings, SyncSettings } from '../services/data.service';
+import { CatalogItem, CrudEntity, DiaryEntry, Profile, Reminder } from '../models';
+import { MergeCollection, MergeResult } from '../import-merge';
+import { ValidationIssueCode } from '../import-validation';
+import { CatalogEntity, mergeEntryReferences } from '../references';
+import { isArchived } from '../catalog-archive';
+import { IntegrityIssue, IntegrityIssueCode, IntegrityRepair } from '../integrity';
+import { STORAGE_CATEGORIES, StorageCategory, formatBytes, storageLevel } from '../storage-usage';
 import { UiService } from '../services/ui.service';
-import { Language, TranslationService } from '../services/translation.service';
+import { Language, TranslationKey, TranslationService } from '../services/translation.service';
 import { ToastService } from '../services/toast.service';
+import { UndoService } from '../services/undo.service';
 import { LockService } from '../services/lock.service';
 import { NotificationService } from '../services/notification.service';
+import { CsvService } from '../services/csv.service';
+import { FileService } from '../services/file.service';
+import { ReportService } from '../services/report.service';
+import { BackupInfo, BackupService } from '../services/backup.service';
+import { SyncErrorReason, SyncService } from '../services/sync.service';
+import { StorageMonitorService } from '../services/storage-monitor.service';
+import { RetentionService } from '../services/retention.service';
+import { CsvImportComponent } from './csv-import.component';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
-import { faPlus, faPencil, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { faPlus, faPencil, faTrash, faRotateLeft, faCodeMerge, faBoxArchive, faBoxOpen } from '@fortawesome/free-solid-svg-icons';
+
+/**
+ * Mindestlänge der Passphrase für verschlüsselte Backups.
+ */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Auswahl an Emojis für Profile.
+ */
+const PROFILE_EMOJIS = ['👤', '👩', '👨', '👧', '👦', '👶', '👵', '👴', '🐶', '🐱'];
+
+/**
+ * Meldungen zu den Gründen, aus denen eine Synchronisation fehlschlagen kann.
+ */
+const SYNC_ERROR_KEYS: Record<SyncErrorReason | 'offline', TranslationKey> = {
+  auth: 'syncErrorAuth',
+  passphrase: 'syncErrorPassphrase',
+  newerVersion: 'syncErrorNewerVersion',
+  server: 'syncErrorServer',
+  offline: 'syncErrorOffline',
+};
+
+/**
+ * Meldungen und Reparaturen der Datenprüfung.
+ */
+const INTEGRITY_ISSUE_KEYS: Record<IntegrityIssueCode, TranslationKey> = {
+  danglingReference: 'integrityDanglingReference',
+  duplicateId: 'integrityDuplicateId',
+  invalidDate: 'integrityInvalidDate',
+  malformedReminder: 'integrityMalformedReminder',
+};
+
+const INTEGRITY_REPAIR_KEYS: Record<IntegrityRepair, TranslationKey> = {
+  removeReference: 'integrityRepairRemoveReference',
+  removeDuplicate: 'integrityRepairRemoveDuplicate',
+  assignNewId: 'integrityRepairAssignNewId',
+  useCreatedAt: 'integrityRepairUseCreatedAt',
+  removeField: 'integrityRepairRemoveField',
+  useNow: 'integrityRepairUseNow',
+  removeInvalidDays: 'integrityRepairRemoveInvalidDays',
+  deleteRecord: 'integrityRepairDeleteRecord',
+};
+
+/**
+ * Anzahl der angezeigten Protokolleinträge der Aufbewahrung.
+ */
+const RETENTION_LOG_VISIBLE = 5;
+
+const STORAGE_CATEGORY_KEYS: Record<StorageCategory, TranslationKey> = {
+  diaryEntries: 'storageCategoryDiaryEntries',
+  catalog: 'storageCategoryCatalog',
+  reminders: 'storageCategoryReminders',
+  trash: 'storageCategoryTrash',
+  settings: 'storageCategorySettings',
+};
 
 /**
  * SettingsComponent ist eine umfassende Seite zur Verwaltung aller App-Einstellungen.
@@ -21,7 +89,7 @@ import { faPlus, faPencil, faTrash } from '@fortawesome/free-solid-svg-icons';
 @Component({
   selector: 'settings',
   standalone: true,
-  imports: [CommonModule, FormsModule, FontAwesomeModule],
+  imports: [CommonModule, FormsModule, FontAwesomeModule, CsvImportComponent],
   templateUrl: './settings.component.html',
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
@@ -30,27 +98,109 @@ export class SettingsComponent {
   uiService = inject(UiService);
   translationService = inject(TranslationService);
   toastService = inject(ToastService);
+  undoService = inject(UndoService);
   lockService = inject(LockService);
+  csvService = inject(CsvService);
+  reportService = inject(ReportService);
+  backupService = inject(BackupService);
+  syncService = inject(SyncService);
   notificationService = inject(NotificationService);
+  fileService = inject(FileService);
+  storageMonitor = inject(StorageMonitorService);
+  retentionService = inject(RetentionService);
   t = this.translationService.translations;
 
   // --- Icons ---
   faPlus = faPlus;
   faPencil = faPencil;
   faTrash = faTrash;
+  faRotateLeft = faRotateLeft;
+  faCodeMerge = faCodeMerge;
+  faBoxArchive = faBoxArchive;
+  faBoxOpen = faBoxOpen;
 
   // --- Zustandssignale für Bestätigungsdialoge ---
   itemToDelete = signal<{ type: CrudEntity, id: string, name: string } | null>(null);
+  showDeleteImpactList = signal(false);
+  deleteReplacementId = signal('');
   importFileContent = signal<string | null>(null);
+  importNeedsPassphrase = signal(false);
+  importPassphrase = signal('');
+  importPassphraseError = signal<string | null>(null);
+  showEncryptedExportModal = signal(false);
+  exportPassphrase = signal('');
+  exportPassphraseConfirm = signal('');
+  exportPassphraseError = signal<string | null>(null);
+  isProcessingBackup = signal(false);
+  showCsvExportModal = signal(false);
+  csvFrom = signal('');
+  csvTo = signal('');
+  csvIncludeHistory = signal(false);
+  csvImportContent = signal<string | null>(null);
+  showReportModal = signal(false);
+  reportFrom = signal('');
+  reportTo = signal('');
+  reportIncludeNotes = signal(false);
+  importMode = signal<'replace' | 'merge'>('replace');
+  pendingImport = signal<ParsedImport | null>(null);
+  mergePreview = signal<MergeResult | null>(null);
+  showBackupPicker = signal(false);
+  showTrash = signal(false);
+  showEmptyTrashConfirm = signal(false);
+  showIntegrityCheck = signal(false);
+  // --- Zustandssignale für die Aufbewahrung: Änderungen gelten erst nach der Vorschau ---
+  retentionDeleteDays = linkedSignal(() => this.dataService.retentionSettings().deleteEntriesAfterDays);
+  retentionNoteDays = linkedSignal(() => this.dataService.retentionSettings().stripNotesAfterDays);
+  retentionBackupFirst = linkedSignal(() => this.dataService.retentionSettings().backupFirst);
+  /**
+   * Die Größe der Daten je Kategorie, ermittelt beim Einblenden der Details.
+   */
+  storageUsage = signal<Record<StorageCategory, number> | null>(null);
   showResetConfirmStep1 = signal(false);
   showResetConfirmStep2 = signal(false);
 
+  // --- Zustandssignale für das Zusammenführen von Duplikaten ---
+  duplicatesEntity = signal<CatalogEntity | null>(null);
+  duplicatesSurvivorId = signal('');
+  duplicateIds = signal<string[]>([]);
+
+  /**
+   * Die Stammdaten-Typen, deren Karte auch die archivierten Einträge zeigt.
+   */
+  archivedShown = signal<CatalogEntity[]>([]);
+
   // --- Zustandssignale für das PIN-Modal ---
   showPinModal = signal(false);
   pinModalMode = signal<'create' | 'change'>('create');
   pinEntry = signal('');
   pinConfirm = signal('');
   pinError = signal<string | null>(null);
+  isEncryptionBusy = signal(false);
+
+  // --- Zustandssignale für das Sync-Modal ---
+  showSyncModal = signal(false);
+  syncUrl = signal('');
+  syncUsername = signal('');
+  syncPassword = signal('');
+  syncPassphrase = signal('');
+  isTestingSync = signal(false);
+
+  /**
+   * Der Grund, aus dem die letzte Synchronisation fehlgeschlagen ist, als Text.
+   */
+  syncErrorMessage = computed(() => {
+    const reason = this.syncService.lastError();
+    return reason ? this.t()[SYNC_ERROR_KEYS[reason]] : null;
+  });
+
+  // --- Zustandssignale für das Profil-Modal ---
+  showProfileModal = signal(false);
+  profileToEdit = signal<Profile | null>(null);
+  profileName = signal('');
+  profileEmoji = signal(PROFILE_EMOJIS[0]);
+  profileSeparateCatalogs = signal(false);
+  profileToDelete = signal<Profile | null>(null);
+  profileEmojis = PROFILE_EMOJIS;
 
   // --- Zustandssignale für das Erinnerungs-Modal ---
   showReminderModal = signal(false);
@@ -82,13 +232,62 @@ export class SettingsComponent {
     ];
   });
 
+  backupScheduleOptions = computed(() => {
+    const t = this.t();
+    return [
+      { value: 'daily', label: t.backupScheduleDaily },
+      { value: 'weekly', label: t.backupScheduleWeekly },
+      { value: 'changes', label: t.backupScheduleChanges },
+    ];
+  });
+  backupKeepOptions = [3, 5, 10, 20];
+  trashRetentionOptions = [7, 30, 90, 365];
+  retentionEntryOptions: (number | null)[] = [null, 180, 365, 730, 1825];
+  retentionNoteOptions: (number | null)[] = [null, 30, 90, 180, 365];
+
+  retentionChanged = computed(() => {
+    const saved = this.dataService.retentionSettings();
+    return this.retentionDeleteDays() !== saved.deleteEntriesAfterDays
+      || this.retentionNoteDays() !== saved.stripNotesAfterDays
+      || this.retentionBackupFirst() !== saved.backupFirst;
+  });
+
+  /**
+   * Die letzten Protokolleinträge der Aufbewahrung.
+   */
+  retentionLogRows = computed(() => {
+    const t = this.t();
+    return this.dataService.retentionLog().slice(0, RETENTION_LOG_VISIBLE).map(entry => {
+      const text = t.retentionLogEntry
+        .replace('{{date}}', this.formatBackupDate(entry.purgedAt))
+        .replace('{{deleted}}', String(entry.deletedEntries))
+        .replace('{{notes}}', String(entry.strippedNotes));
+      return entry.backupId ? `${text} (${t.retentionLogBackup})` : text;
+    });
+  });
+
+  /**
+   * Die Zeilen des Papierkorbs mit Bezeichnung und Typ des gelöschten Datensatzes.
+   */
+  trashRows = computed(() => {
+    const t = this.t();
+    const configs = new Map<string, { title: string; display: (item: any) => string }>(this.entityConfigs().map(c => [c.type, c]));
+    return this.dataService.sortedTrash().map(item => {
+      if (item.entityType === 'DiaryEntry') {
+        return { id: item.id, deletedAt: item.deletedAt, type: t.trashDiaryEntry, label: this.describeEntry(item.record as DiaryEntry) };
+      }
+      const config = configs.get(item.entityType)!;
+      return { id: item.id, deletedAt: item.deletedAt, type: config.title, label: config.display(item.record) };
+    });
+  });
+
   /**
    * Computed Signal, das die Konfiguration für die CRUD-Abschnitte (Stimmungen, Effekte etc.)
    * generiert, um Duplikation im Template zu vermeiden.
    */
   entityConfigs = computed(() => {
     const t = this.t();
-    return [
+    const configs = [
       { type: 'Mood' as const, title: t.crudMoods, emoji: t.emojiSettingsMoods, items: this.dataService.moods(), display: (i: any) => `${i.emoji} ${i.description}` },
       { type: 'Symptom' as const, title: t.crudSymptoms, emoji: t.emojiSettingsSymptoms, items: this.dataService.symptoms(), display: (i: any) => `${i.emoji} ${i.description}` },
       { type: 'Effect' as const, title: t.crudEffects, emoji: t.emojiSettingsEffects, items: this.dataService.effects(), display: (i: any) => `${i.emoji} ${i.description}` },
@@ -100,8 +299,158 @@ export class SettingsComponent {
       { type: 'ActiveIngredient' as const, title: t.crudActiveIngredients, emoji: t.emojiSettingsActiveIngredients, items: this.dataService.sortedActiveIngredients(), display: (i: any) => `${i.amount} ${i.unit}` },
       { type: 'CustomEmoji' as const, title: t.crudCustomEmojis, emoji: t.emojiSettingsCustomEmojis, items: this.dataService.customEmojis(), display: (i: any) => i }
     ];
+    // Archivierte Einträge werden nur auf Wunsch angezeigt.
+    return configs.map(config => {
+      const archived = config.type === 'CustomEmoji' ? [] : (config.items as CatalogItem[]).filter(isArchived);
+      const showArchived = config.type !== 'CustomEmoji' && this.archivedShown().includes(config.type);
+      return {
+        ...config,
+        listedItems: showArchived ? config.items : (config.items as unknown[]).filter(item => !archived.includes(item as CatalogItem)),
+        archivedCount: archived.length,
+        showArchived,
+      };
+    });
   });
   
+  /**
+   * Die Auswirkungen des angefragten Löschens: die verweisenden Tagebucheinträge und Präparate
+   * als lesbare Zeilen sowie die Stammdaten, auf die sich die Verweise übertragen lassen.
+   */
+  deleteImpact = computed(() => {
+    const item = this.itemToDelete();
+    if (!item || item.type === 'CustomEmoji') return null;
+    const { diaryEntries, preparations } = this.dataService.findReferencingRecords(item.type, item.id);
+    if (diaryEntries.length + preparations.length === 0) return null;
+    const config = this.entityConfigs().find(c => c.type === item.type)!;
+    const t = this.t();
+    return {
+      message: diaryEntries.length > 0
+        ? t.deleteImpactEntries.replace('{{count}}', String(diaryEntries.length))
+        : t.deleteImpactPreparations.replace('{{count}}', String(preparations.length)),
+      rows: [
+        ...[...diaryEntries].sort((a, b) => b.datetime.localeCompare(a.datetime)).map(entry => ({ id: entry.id, label: this.describeEntry(entry) })),
+        ...preparations.map(prep => ({ id: prep.id, label: prep.name })),
+      ],
+      replacements: config.items
+        .filter(candidate => (candidate as { id: string }).id !== item.id)
+        .map(candidate => ({ id: (candidate as { id: string }).id, label: config.display(candidate) })),
+    };
+  });
+
+  /**
+   * Die Probleme der Datenprüfung als lesbare Zeilen. Geprüft wird nur bei geöffnetem Dialog,
+   * dann aber nach jeder Änderung erneut.
+   */
+  integrityRows = computed(() => {
+    if (!this.showIntegrityCheck()) return [];
+    const t = this.t();
+    return this.dataService.checkIntegrity().map(issue => ({
+      issue,
+      message: t[INTEGRITY_ISSUE_KEYS[issue.code]].replace('{{value}}', issue.value ?? ''),
+      repair: issue.repair ? t[INTEGRITY_REPAIR_KEYS[issue.repair]] : t.integrityManualFix,
+    }));
+  });
+
+  integrityRepairableCount = computed(() => this.integrityRows().filter(row => row.issue.repair).length);
+
+  /**
+   * Die Belegung des Speicherplatzes laut Browser oder `null`, wenn er sie nicht meldet.
+   */
+  storageSummary = computed(() => {
+    const estimate = this.storageMonitor.estimate();
+    if (!estimate) return null;
+    const language = this.translationService.language();
+    const percent = estimate.quota > 0 ? Math.min(100, Math.round(estimate.usage / estimate.quota * 100)) : 0;
+    return {
+      percent,
+      level: storageLevel(estimate),
+      usage: this.t().storageUsage
+        .replace('{{used}}', formatBytes(estimate.usage, language))
+        .replace('{{quota}}', formatBytes(estimate.quota, language))
+        .replace('{{percent}}', String(percent)),
+      free: this.t().storageFree.replace('{{free}}', formatBytes(Math.max(0, estimate.quota - estimate.usage), language)),
+    };
+  });
+
+  /**
+   * Die Belegung je Kategorie. Was der Browser darüber hinaus meldet, erscheint als "Sonstiges".
+   */
+  storageRows = computed(() => {
+    const usage = this.storageUsage();
+    if (!usage) return [];
+    const t = this.t();
+    const language = this.translationService.language();
+    const rows = STORAGE_CATEGORIES.map(category => ({ label: t[STORAGE_CATEGORY_KEYS[category]], bytes: usage[category] }));
+    const estimate = this.storageMonitor.estimate();
+    if (estimate) {
+      const measured = rows.reduce((sum, row) => sum + row.bytes, 0);
+      rows.push({ label: t.storageCategoryOther, bytes: Math.max(0, estimate.usage - measured) });
+    }
+    return rows.map(row => ({ label: row.label, size: formatBytes(row.bytes, language) }));
+  });
+
+  /**
+   * Die Konfiguration des Stammdaten-Typs, dessen Duplikate zusammengeführt werden.
+   */
+  duplicatesConfig = computed(() => this.entityConfigs().find(c => c.type === this.duplicatesEntity()));
+
+  /**
+   * Die Anzahl der Tagebucheinträge, die beim Zusammenführen umgestellt werden.
+   */
+  duplicatesAffectedEntries = computed(() => {
+    const type = this.duplicatesEntity();
+    const duplicates = new Set(this.duplicateIds());
+    if (!type || duplicates.size === 0) return 0;
+    return this.dataService.allDiaryEntries()
+      .filter(entry => mergeEntryReferences(entry, type, duplicates, this.duplicatesSurvivorId()) !== entry).length;
+  });
+
+  /**
+   * Zeilen der Zusammenfassung beim Zusammenführen eines Imports. Sammlungen ohne Datensätze werden ausgeblendet.
+   */
+  mergeSummaryRows = computed(() => {
+    const preview = this.mergePreview();
+    if (!preview) return [];
+    const t = this.t();
+    const labels: Record<MergeCollection, string> = {
+      profiles: t.profilesTitle,
+      diaryEntries: t.mergeSummaryEntries,
+      preparations: t.crudPreparations,
+      manufacturers: t.crudManufacturers,
+      ingredients: t.crudIngredients,
+      dosages: t.crudDosages,
+      activeIngredients: t.crudActiveIngredients,
+      moods: t.crudMoods,
+      effects: t.crudEffects,
+      symptoms: t.crudSymptoms,
+      activities: t.crudActivities,
+      reminders: t.remindersTitle,
+      customEmojis: t.crudCustomEmojis,
+    };
+    return (Object.keys(labels) as MergeCollection[])
+      .map(name => ({ label: labels[name], ...preview.summary[name] }))
+      .filter(row => row.added + row.updated + row.skipped > 0);
+  });
+
+  /**
+   * Die Probleme der eingelesenen Importdatei als lesbare Meldungen.
+   */
+  importIssueMessages = computed(() => {
+    const t = this.t();
+    const messages: Record<ValidationIssueCode, string> = {
+      invalidRoot: t.validationInvalidRoot,
+      required: t.validationRequired,
+      invalidType: t.validationInvalidType,
+      invalidValue: t.validationInvalidValue,
+      duplicateId: t.validationDuplicateId,
+      unknownReference: t.validationUnknownReference,
+    };
+    return (this.pendingImport()?.validation?.issues ?? []).map(issue => ({
+      path: issue.path,
+      message: messages[issue.code].replace('{{expected}}', issue.expected ?? ''),
+    }));
+  });
+
   // --- CRUD-Aktionen ---
   openCreateForm(type: CrudEntity) {
     this.uiService.openCreateForm(type);
@@ -112,6 +461,8 @@ export class SettingsComponent {
   }
 
   requestDeleteItem(type: CrudEntity, id: string, name: string) {
+    this.showDeleteImpactList.set(false);
+    this.deleteReplacementId.set('');
     this.itemToDelete.set({ type, id, name });
   }
 
@@ -119,44 +470,124 @@ export class SettingsComponent {
     const item = this.itemToDelete();
     if (!item) return;
 
-    this.dataService.deleteItem(item.type, item.id);
+    this.dataService.deleteItem(item.type, item.id, this.deleteReplacementId() || undefined);
     this.itemToDelete.set(null);
+    this.undoService.showUndoToast(this.t().itemDeleted.replace('{{name}}', item.name));
   }
 
   cancelDeleteItem() {
     this.itemToDelete.set(null);
   }
 
+  toggleArchivedShown(type: CatalogEntity) {
+    this.archivedShown.update(types => types.includes(type) ? types.filter(t => t !== type) : [...types, type]);
+  }
+
+  setArchived(type: CatalogEntity, id: string, name: string, archived: boolean) {
+    this.dataService.setArchived(type, id, archived);
+    this.undoService.showUndoToast(this.t()[archived ? 'itemArchived' : 'itemUnarchived'].replace('{{name}}', name));
+  }
+
   // --- Datenverwaltung ---
   async exportData() {
-    const data = this.dataService.exportData();
     const fileName = `medikamententagebuch_backup_${new Date().toISOString().slice(0,19).replace('T','_').replace(/:/g,'-')}.json`;
+    await this.fileService.saveFile(this.dataService.exportData(), fileName);
+  }
 
-    if (Capacitor.isNativePlatform()) {
-      // Native (Android/iOS): Dateisystem-Plugin verwenden
-      try {
-        await Filesystem.writeFile({
-          path: fileName,
-          data: data,
-          directory: Directory.Documents,
-          encoding: Encoding.UTF8,
-        });
-        this.toastService.showSuccess(this.translationService.t('backupSavedSuccess').replace('{{fileName}}', fileName), 10000);
-      } catch (e) {
-        console.error('Unable to write file', e);
-        this.toastService.showError(this.translationService.t('backupSavedError'));
-      }
-    } else {
-      // Web-Fallback: Download über einen Blob-Link
-      const blob = new Blob([data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = fileName;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  async exportFhir() {
+    const fileName = `medikamententagebuch_fhir_${new Date().toISOString().slice(0,19).replace('T','_').replace(/:/g,'-')}.json`;
+    await this.fileService.saveFile(this.dataService.exportFhirBundle(), fileName, 'application/fhir+json', 'fileSavedSuccess');
+  }
+
+  openEncryptedExportModal() {
+    this.exportPassphrase.set('');
+    this.exportPassphraseConfirm.set('');
+    this.exportPassphraseError.set(null);
+    this.showEncryptedExportModal.set(true);
+  }
+
+  closeEncryptedExportModal() {
+    this.showEncryptedExportModal.set(false);
+  }
+
+  async exportEncryptedData() {
+    const passphrase = this.exportPassphrase();
+    const t = this.t();
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      this.exportPassphraseError.set(t.passphraseErrorLength.replace('{{count}}', String(MIN_PASSPHRASE_LENGTH)));
+      return;
+    }
+    if (passphrase !== this.exportPassphraseConfirm()) {
+      this.exportPassphraseError.set(t.passphraseErrorMismatch);
+      return;
+    }
+
+    this.isProcessingBackup.set(true);
+    try {
+      const data = await this.dataService.exportEncryptedData(passphrase);
+      const fileName = `medikamententagebuch_backup_encrypted_${new Date().toISOString().slice(0,19).replace('T','_').replace(/:/g,'-')}.json`;
+      this.showEncryptedExportModal.set(false);
+      await this.fileService.saveFile(data, fileName);
+    } finally {
+      this.isProcessingBackup.set(false);
+    }
+  }
+
+  openCsvExportModal() {
+    this.csvFrom.set('');
+    this.csvTo.set('');
+    this.csvIncludeHistory.set(false);
+    this.showCsvExportModal.set(true);
+  }
+
+  closeCsvExportModal() {
+    this.showCsvExportModal.set(false);
+  }
+
+  async exportCsv() {
+    const from = this.csvFrom() || undefined;
+    const to = this.csvTo() || undefined;
+    // Das BOM sorgt dafür, dass Tabellenkalkulationen Umlaute korrekt als UTF-8 erkennen.
+    const data = '\uFEFF' + this.csvService.exportDiary({ from, to, includeHistory: this.csvIncludeHistory() });
+    const fileName = `medikamententagebuch_${from ?? 'start'}_${to ?? new Date().toISOString().slice(0, 10)}.csv`;
+    this.showCsvExportModal.set(false);
+    await this.fileService.saveFile(data, fileName, 'text/csv', 'fileSavedSuccess');
+  }
+
+  openReportModal() {
+    this.reportFrom.set('');
+    this.reportTo.set('');
+    this.reportIncludeNotes.set(false);
+    this.showReportModal.set(true);
+  }
+
+  closeReportModal() {
+    this.showReportModal.set(false);
+  }
+
+  async exportReport() {
+    const from = this.reportFrom() || undefined;
+    const to = this.reportTo() || undefined;
+    const data = this.reportService.createDoctorReport({ from, to, includeNotes: this.reportIncludeNotes() });
+    const fileName = `medikamententagebuch_arztbericht_${from ?? 'start'}_${to ?? new Date().toISOString().slice(0, 10)}.pdf`;
+    this.showReportModal.set(false);
+    await this.fileService.saveFile(data, fileName, 'application/pdf', 'fileSavedSuccess');
+  }
+
+  triggerCsvImport() {
+    document.getElementById('csv-import-file')?.click();
+  }
+
+  importCsv(event: Event) {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        // Öffnet den Assistenten mit Vorschau und Spaltenzuordnung
+        this.csvImportContent.set(e.target?.result as string);
+      };
+      reader.readAsText(file);
+      (event.target as HTMLInputElement).value = '';
     }
   }
 
@@ -178,20 +609,70 @@ export class SettingsComponent {
     }
   }
 
-  confirmImport() {
+  async confirmImport() {
     const content = this.importFileContent();
     if (!content) return;
-    const success = this.dataService.importData(content);
-    if (!success) {
-      this.toastService.showError(this.translationService.t('importFailed'));
-    } else {
-      this.toastService.showSuccess(this.translationService.t('importSuccess'));
+    this.isProcessingBackup.set(true);
+    const result = await this.dataService.readImportFile(content, this.importPassphrase() || undefined);
+    this.isProcessingBackup.set(false);
+    if (result.error === 'passphraseRequired' || result.error === 'wrongPassphrase') {
+      // Verschlüsseltes Backup: Das Modal bleibt offen und fragt nach der Passphrase.
+      this.importNeedsPassphrase.set(true);
+      this.importPassphraseError.set(result.error === 'wrongPassphrase' ? this.t().wrongPassphrase : null);
+      return;
     }
-    this.importFileContent.set(null); // Modal schließen
+    if (!result.data) {
+      if (result.error === 'unsupportedSchemaVersion') {
+        this.toastService.showError(this.translationService.t('importNewerSchemaVersion').replace('{{version}}', String(result.schemaVersion)), 10000);
+      } else {
+        this.toastService.showError(this.translationService.t('importFailed'));
+      }
+      this.cancelImport();
+      return;
+    }
+
+    this.pendingImport.set(result);
+    if (result.validation?.issues.length) {
+      // Das Modal listet die Probleme auf; importiert wird erst nach Bestätigung nur das Gültige.
+      return;
+    }
+    this.applyPendingImport();
+  }
+
+  /**
+   * Übernimmt die gültigen Datensätze der eingelesenen Datei im gewählten Modus.
+   */
+  applyPendingImport() {
+    const pending = this.pendingImport();
+    const data = pending?.data;
+    if (!data) return;
+    // FHIR Bundles enthalten keine Einstellungen und Erinnerungen und werden daher immer zusammengeführt.
+    if (this.importMode() === 'merge' || pending.isFhirBundle) {
+      // Beim Zusammenführen wird zuerst die Zusammenfassung angezeigt und erst nach Bestätigung übernommen.
+      this.mergePreview.set(this.dataService.previewMergeImport(data));
+      return;
+    }
+    this.dataService.importData(data);
+    this.toastService.showSuccess(this.translationService.t('importSuccess'));
+    this.cancelImport(); // Modal schließen
+  }
+
+  confirmMerge() {
+    const preview = this.mergePreview();
+    if (!preview) return;
+    this.dataService.applyMergeImport(preview);
+    this.toastService.showSuccess(this.translationService.t('importSuccess'));
+    this.cancelImport();
   }
 
   cancelImport() {
     this.importFileContent.set(null);
+    this.importNeedsPassphrase.set(false);
+    this.importPassphrase.set('');
+    this.importPassphraseError.set(null);
+    this.importMode.set('replace');
+    this.pendingImport.set(null);
+    this.mergePreview.set(null);
   }
 
   resetAllData() {
@@ -203,9 +684,14 @@ export class SettingsComponent {
     this.showResetConfirmStep2.set(true);
   }
 
-  confirmReset() {
+  async confirmReset() {
     this.dataService.resetToDefaults();
+    this.syncService.reset();
     this.showResetConfirmStep2.set(false);
+    if (this.dataService.isEncrypted()) {
+      // Ohne PIN kann nicht verschlüsselt bleiben.
+      await this.lockService.disableEncryption();
+    }
     this.toastService.showSuccess(this.translationService.t('appResetSuccess'));
   }
 
@@ -229,16 +715,53 @@ export class SettingsComponent {
   }
 
   // --- Sicherheitseinstellungen ---
-  toggleLock(event: Event) {
+  async toggleLock(event: Event) {
     const enabled = (event.target as HTMLInputElement).checked;
     if (enabled && !this.dataService.lockSettings().pin) {
       // Wenn Sperre aktiviert wird aber keine PIN existiert, öffne das PIN-Erstellungs-Modal
       this.openPinModal('create');
     } else {
+      if (!enabled && this.dataService.isEncrypted()) {
+        // Die Verschlüsselung ist an die PIN der App-Sperre gebunden.
+        if (!(await this.runEncryptionChange(() => this.lockService.disableEncryption()))) {
+          (event.target as HTMLInputElement).checked = true;
+          return;
+        }
+      }
       this.dataService.lockSettings.update(s => ({ ...s, isEnabled: enabled }));
     }
   }
 
+  async toggleEncryption(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const pin = this.dataService.lockSettings().pin;
+    if (input.checked && pin) {
+      const success = await this.runEncryptionChange(() => this.lockService.enableEncryption(pin));
+      if (success) this.toastService.showSuccess(this.t().encryptionEnabled);
+    } else if (!input.checked) {
+      const success = await this.runEncryptionChange(() => this.lockService.disableEncryption());
+      if (success) this.toastService.showSuccess(this.t().encryptionDisabled);
+    }
+    input.checked = this.dataService.isEncrypted();
+  }
+
+  /**
+   * Führt das (zeitaufwendige) Ver- oder Entschlüsseln aller Daten aus und zeigt Fehler an.
+   */
+  private async runEncryptionChange(change: () => Promise<void>): Promise<boolean> {
+    this.isEncryptionBusy.set(true);
+    try {
+      await change();
+      return true;
+    } catch (e) {
+      console.error('Changing encryption failed', e);
+      this.toastService.showError(this.t().encryptionFailed);
+      return false;
+    } finally {
+      this.isEncryptionBusy.set(false);
+    }
+  }
+
   openPinModal(mode: 'create' | 'change') {
     this.pinModalMode.set(mode);
     this.pinEntry.set('');
@@ -256,7 +779,7 @@ export class SettingsComponent {
     }
   }
 
-  savePin() {
+  async savePin() {
     const pin = this.pinEntry();
     const confirm = this.pinConfirm();
     const t = this.t();
@@ -269,10 +792,16 @@ export class SettingsComponent {
       this.pinError.set(t.pinErrorMismatch);
       return;
     }
+    this.pinError.set(null);
 
+    if (this.dataService.isEncrypted()) {
+      // Mit der neuen PIN wird ein neuer Schlüssel abgeleitet und alles neu verschlüsselt.
+      // Schlägt das fehl, bleibt die bisherige PIN gültig, da die Daten noch mit ihr verschlüsselt sind.
+      if (!(await this.runEncryptionChange(() => this.lockService.enableEncryption(pin)))) return;
+    }
     this.dataService.lockSettings.update(s => ({ ...s, pin: pin, isEnabled: true }));
-    this.toastService.showSuccess(t.pinSetSuccess);
     this.closePinModal();
+    this.toastService.showSuccess(t.pinSetSuccess);
   }
 
   updateTimeout(event: Event) {
@@ -280,6 +809,327 @@ export class SettingsComponent {
     this.dataService.lockSettings.update(s => ({...s, timeout}));
   }
   
+  // --- Automatische Sicherung ---
+  updateBackupSettings(changes: Partial<BackupSettings>) {
+    this.dataService.backupSettings.update(settings => ({ ...settings, ...changes }));
+  }
+
+  updateBackupChangeThreshold(value: number) {
+    // Ungültige Eingaben nicht übernehmen, damit nicht nach jeder Änderung gesichert wird.
+    if (Number.isInteger(value) && value >= 1) {
+      this.updateBackupSettings({ changeThreshold: value });
+    }
+  }
+
+  async backupNow() {
+    try {
+      await this.backupService.createBackup();
+      this.toastService.showSuccess(this.t().backupCreated);
+    } catch (e) {
+      console.error('Backup failed', e);
+      this.toastService.showError(this.t().backupFailed);
+    }
+  }
+
+  async openBackupPicker() {
+    await this.backupService.refresh();
+    this.showBackupPicker.set(true);
+  }
+
+  closeBackupPicker() {
+    this.showBackupPicker.set(false);
+  }
+
+  /**
+   * Stellt eine Sicherung über den regulären Import wieder her. Dort kann der Benutzer
+   * zwischen Ersetzen und Zusammenführen wählen und wird bei Bedarf nach der PIN gefragt.
+   */
+  async restoreBackup(backup: BackupInfo) {
+    try {
+      const content = await this.backupService.read(backup.id);
+      this.showBackupPicker.set(false);
+      this.importFileContent.set(content);
+    } catch (e) {
+      console.error('Unable to read backup', e);
+      this.toastService.showError(this.t().importFailed);
+    }
+  }
+
+  async deleteBackup(backup: BackupInfo) {
+    try {
+      await this.backupService.delete(backup.id);
+    } catch (e) {
+      console.error('Unable to delete backup', e);
+    }
+  }
+
+  formatBackupDate(createdAt: string): string {
+    return new Date(createdAt).toLocaleString(this.translationService.language(), { dateStyle: 'medium', timeStyle: 'short' });
+  }
+
+  // --- Duplikate zusammenführen ---
+  openDuplicatesModal(type: CatalogEntity) {
+    this.duplicatesSurvivorId.set('');
+    this.duplicateIds.set([]);
+    this.duplicatesEntity.set(type);
+  }
+
+  closeDuplicatesModal() {
+    this.duplicatesEntity.set(null);
+  }
+
+  setDuplicatesSurvivor(id: string) {
+    this.duplicatesSurvivorId.set(id);
+    this.duplicateIds.update(ids => ids.filter(i => i !== id));
+  }
+
+  toggleDuplicate(id: string) {
+    this.duplicateIds.update(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  }
+
+  confirmMergeDuplicates() {
+    const type = this.duplicatesEntity();
+    const config = this.duplicatesConfig();
+    const survivor = config?.items.find(item => (item as { id: string }).id === this.duplicatesSurvivorId());
+    const duplicateIds = this.duplicateIds();
+    if (!type || !config || !survivor || duplicateIds.length === 0) return;
+
+    this.dataService.mergeItems(type, this.duplicatesSurvivorId(), duplicateIds);
+    this.duplicatesEntity.set(null);
+    this.undoService.showUndoToast(this.t().itemsMerged
+      .replace('{{count}}', String(duplicateIds.length))
+      .replace('{{name}}', config.display(survivor)));
+  }
+
+  // --- Papierkorb ---
+  openTrash() {
+    this.showTrash.set(true);
+  }
+
+  closeTrash() {
+    this.showTrash.set(false);
+  }
+
+  updateTrashRetention(retentionDays: number) {
+    this.dataService.trashSettings.set({ retentionDays });
+  }
+
+  restoreFromTrash(id: string) {
+    this.dataService.restoreFromTrash(id);
+    this.toastService.showSuccess(this.t().restoredFromTrash);
+  }
+
+  deleteFromTrash(id: string) {
+    this.dataService.deleteFromTrash(id);
+  }
+
+  requestEmptyTrash() {
+    this.showEmptyTrashConfirm.set(true);
+  }
+
+  cancelEmptyTrash() {
+    this.showEmptyTrashConfirm.set(false);
+  }
+
+  confirmEmptyTrash() {
+    this.dataService.emptyTrash();
+    this.showEmptyTrashConfirm.set(false);
+  }
+
+  // --- Aufbewahrung ---
+  retentionPeriodLabel(days: number | null): string {
+    const t = this.t();
+    if (days === null) return t.retentionUnlimited;
+    if (days % 365 === 0) return days === 365 ? t.retentionPeriodYear : t.retentionPeriodYears.replace('{{count}}', String(days / 365));
+    if (days % 30 === 0) return days === 30 ? t.retentionPeriodMonth : t.retentionPeriodMonths.replace('{{count}}', String(days / 30));
+    return t.trashRetentionDays.replace('{{count}}', String(days));
+  }
+
+  /**
+   * Übernimmt die geänderte Aufbewahrung. Würde sie sofort Daten entfernen, wird vorher eine Vorschau angezeigt.
+   */
+  saveRetention() {
+    const settings: RetentionSettings = {
+      deleteEntriesAfterDays: this.retentionDeleteDays(),
+      stripNotesAfterDays: this.retentionNoteDays(),
+      backupFirst: this.retentionBackupFirst(),
+    };
+    if (!this.retentionService.requestConfirmation(settings)) {
+      this.dataService.retentionSettings.set(settings);
+      this.toastService.showSuccess(this.t().retentionSaved);
+    }
+  }
+
+  // --- Speicherplatz ---
+  async toggleStorageDetails() {
+    if (this.storageUsage()) {
+      this.storageUsage.set(null);
+      return;
+    }
+    this.storageUsage.set(this.dataService.measureStorageUsage());
+    await this.storageMonitor.refresh();
+  }
+
+  retryPersist() {
+    this.dataService.retryPersist();
+  }
+
+  // --- Datenprüfung ---
+  openIntegrityCheck() {
+    this.showIntegrityCheck.set(true);
+  }
+
+  closeIntegrityCheck() {
+    this.showIntegrityCheck.set(false);
+  }
+
+  repairIntegrityIssues(issues: IntegrityIssue[]) {
+    const repairable = issues.filter(issue => issue.repair);
+    if (repairable.length === 0) return;
+    this.dataService.repairIntegrity(repairable);
+    this.undoService.showUndoToast(this.t().integrityRepaired.replace('{{count}}', String(repairable.length)));
+  }
+
+  repairAllIntegrityIssues() {
+    this.repairIntegrityIssues(this.integrityRows().map(row => row.issue));
+  }
+
+  /**
+   * Exportiert das Ergebnis der Datenprüfung als Textdatei, z.B. zur Weitergabe bei einer Fehlermeldung.
+   */
+  async exportIntegrityReport() {
+    const t = this.t();
+    const rows = this.integrityRows();
+    const lines = [
+      t.integrityTitle,
+      t.integrityReportCheckedAt.replace('{{date}}', this.formatBackupDate(new Date().toISOString())),
+      rows.length === 0
+        ? t.integrityNoIssues
+        : t.integrityIssueCount.replace('{{count}}', String(rows.length)).replace('{{repairable}}', String(this.integrityRepairableCount())),
+      ...rows.flatMap(row => ['', row.issue.path, row.message, t.integrityReportRepair.replace('{{repair}}', row.repair)]),
+    ];
+    const fileName = `medikamententagebuch_datenpruefung_${new Date().toISOString().slice(0,19).replace('T','_').replace(/:/g,'-')}.txt`;
+    await this.fileService.saveFile(lines.join('\n') + '\n', fileName, 'text/plain', 'fileSavedSuccess');
+  }
+
+  /**
+   * Kurzbeschreibung eines gelöschten Tagebucheintrags: Zeitpunkt, Stimmung und Präparat.
+   */
+  private describeEntry(entry: DiaryEntry): string {
+    const preparation = this.dataService.preparations().find(p => p.id === entry.preparationId);
+    return [this.formatBackupDate(entry.datetime), entry.mood?.emoji, preparation?.name].filter(Boolean).join(' ');
+  }
+
+  // --- Synchronisation ---
+  openSyncModal() {
+    const settings = this.dataService.syncSettings();
+    this.syncUrl.set(settings.url);
+    this.syncUsername.set(settings.username);
+    this.syncPassword.set(settings.password);
+    this.syncPassphrase.set(settings.passphrase);
+    this.showSyncModal.set(true);
+  }
+
+  closeSyncModal() {
+    this.showSyncModal.set(false);
+  }
+
+  private syncModalSettings(): SyncSettings | null {
+    const url = this.syncUrl().trim();
+    if (!url) {
+      this.toastService.showError(this.t().syncUrlRequired);
+      return null;
+    }
+    return {
+      isEnabled: true,
+      url,
+      username: this.syncUsername().trim(),
+      password: this.syncPassword(),
+      passphrase: this.syncPassphrase(),
+    };
+  }
+
+  async testSyncConnection() {
+    const settings = this.syncModalSettings();
+    if (!settings) return;
+    this.isTestingSync.set(true);
+    try {
+      const reason = await this.syncService.testConnection(settings);
+      if (reason) {
+        this.toastService.showError(this.t()[SYNC_ERROR_KEYS[reason]]);
+      } else {
+        this.toastService.showSuccess(this.t().syncTestSuccess);
+      }
+    } finally {
+      this.isTestingSync.set(false);
+    }
+  }
+
+  saveSyncSettings() {
+    const settings = this.syncModalSettings();
+    if (!settings) return;
+    this.dataService.syncSettings.set(settings);
+    this.showSyncModal.set(false);
+  }
+
+  updateSyncEnabled(isEnabled: boolean) {
+    this.dataService.syncSettings.update(settings => ({ ...settings, isEnabled }));
+  }
+
+  syncNow() {
+    void this.syncService.sync();
+  }
+
+  // --- Profile ---
+  openProfileModal(profile?: Profile) {
+    this.profileToEdit.set(profile ?? null);
+    this.profileName.set(profile?.name ?? '');
+    this.profileEmoji.set(profile?.emoji ?? PROFILE_EMOJIS[0]);
+    this.profileSeparateCatalogs.set(profile?.separateCatalogs ?? false);
+    this.showProfileModal.set(true);
+  }
+
+  closeProfileModal() {
+    this.showProfileModal.set(false);
+    this.profileToEdit.set(null);
+  }
+
+  saveProfile() {
+    const name = this.profileName().trim();
+    if (!name) {
+      this.toastService.showError(this.t().formErrorNameRequired);
+      return;
+    }
+    const existing = this.profileToEdit();
+    if (this.dataService.profiles().some(p => p.id !== existing?.id && p.name.toLowerCase() === name.toLowerCase())) {
+      this.toastService.showError(this.t().duplicateProfileError);
+      return;
+    }
+
+    if (existing) {
+      this.dataService.updateProfile({ ...existing, name, emoji: this.profileEmoji() });
+    } else {
+      this.dataService.addProfile({ name, emoji: this.profileEmoji(), separateCatalogs: this.profileSeparateCatalogs() });
+    }
+    this.closeProfileModal();
+  }
+
+  requestDeleteProfile(profile: Profile) {
+    this.profileToDelete.set(profile);
+  }
+
+  confirmDeleteProfile() {
+    const profile = this.profileToDelete();
+    if (!profile) return;
+
+    this.dataService.deleteProfile(profile.id);
+    this.profileToDelete.set(null);
+  }
+
+  cancelDeleteProfile() {
+    this.profileToDelete.set(null);
+  }
+
   // --- Erinnerungs-Einstellungen ---
   openReminderModal() {
     this.reminderTime.set('08:00');
@@ -329,7 +1179,7 @@ export class SettingsComponent {
         return; // Der NotificationService zeigt bereits einen Toast an
     }
 
-    const newReminder: Omit<Reminder, 'id'> = {
+    const newReminder: Omit<Reminder, 'id' | 'profileId'> = {
       time: this.reminderTime(),
       days: days,
     };
@@ -355,4 +1205,4 @@ export class SettingsComponent {
       .map(d => dayMap[d])
       .join(', ');
   }
-}
\ No newline at end of file
+}
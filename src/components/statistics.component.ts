@@ -1,21 +1,12 @@
 import { Component, ChangeDetectionStrategy, inject, computed, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { DataService } from '../services/data.service';
-import { Manufacturer, ActiveIngredient, Preparation, EffectPerception, Symptom, Activity, Effect, Ingredient } from '../models';
+import { Symptom, Activity, Effect, Ingredient } from '../models';
+import { PreparationStat, StatisticsService } from '../services/statistics.service';
 import { TranslationService } from '../services/translation.service';
 import { FontAwesomeModule } from '@fortawesome/angular-fontawesome';
 import { faFilter, faChevronDown, faChevronUp } from '@fortawesome/free-solid-svg-icons';
 
-/**
- * Interface zur Strukturierung von Präparat-Statistiken, inklusive zugehöriger Details.
- */
-interface PreparationStat {
-  prep: Preparation;
-  man: Manufacturer | undefined;
-  ai: ActiveIngredient | undefined;
-  count: number;
-}
-
 /**
  * Interface zur Strukturierung von Inhaltsstoff-Statistiken.
  */
@@ -37,6 +28,7 @@ interface IngredientStat {
 })
 export class StatisticsComponent {
   dataService = inject(DataService);
+  statisticsService = inject(StatisticsService);
   translationService = inject(TranslationService);
   t = this.translationService.translations;
   
@@ -88,97 +80,17 @@ export class StatisticsComponent {
   /**
    * Berechnet die 5 am häufigsten verwendeten Präparate basierend auf den gefilterten Einträgen.
    */
-  topPreparations = computed(() => {
-    const counts = new Map<string, number>();
-    for (const entry of this.filteredEntries()) {
-      if (entry.preparationId) {
-        counts.set(entry.preparationId, (counts.get(entry.preparationId) || 0) + 1);
-      }
-    }
-    return this.getSortedPrepStats(counts).slice(0, 5);
-  });
+  topPreparations = computed(() => this.statisticsService.topPreparations(this.filteredEntries()));
 
   /**
    * Berechnet, welche Präparate am häufigsten bei bestimmten Stimmungen eingenommen wurden.
    */
-  moodStats = computed(() => {
-    const stats = new Map<string, { moodName: string, emoji: string, counts: Map<string, number> }>();
-    for (const entry of this.filteredEntries()) {
-      if (!entry.preparationId || !entry.mood) continue;
-      
-      if (!stats.has(entry.mood.id)) {
-        stats.set(entry.mood.id, { moodName: entry.mood.description, emoji: entry.mood.emoji, counts: new Map() });
-      }
-      
-      const moodStat = stats.get(entry.mood.id)!;
-      moodStat.counts.set(entry.preparationId, (moodStat.counts.get(entry.preparationId) || 0) + 1);
-    }
-
-    const result: { moodName: string, emoji: string, topPreps: PreparationStat[] }[] = [];
-    stats.forEach((value) => {
-      result.push({
-        moodName: value.moodName,
-        emoji: value.emoji,
-        topPreps: this.getSortedPrepStats(value.counts).slice(0, 5),
-      });
-    });
-    return result;
-  });
+  moodStats = computed(() => this.statisticsService.moodStats(this.filteredEntries()));
 
   /**
    * Berechnet, welche Präparate am häufigsten mit bestimmten Effekten assoziiert sind.
    */
-  categorizedEffectStats = computed(() => {
-    const stats = new Map<string, { 
-      effectName: string, 
-      emoji: string, 
-      perception: EffectPerception, 
-      counts: Map<string, number> 
-    }>();
-
-    for (const entry of this.filteredEntries()) {
-      if (!entry.preparationId) continue;
-
-      for (const effect of entry.effects) {
-        if (!stats.has(effect.id)) {
-          stats.set(effect.id, { 
-            effectName: effect.description, 
-            emoji: effect.emoji, 
-            perception: effect.perception, 
-            counts: new Map() 
-          });
-        }
-        const effectStat = stats.get(effect.id)!;
-        effectStat.counts.set(entry.preparationId, (effectStat.counts.get(entry.preparationId) || 0) + 1);
-      }
-    }
-    
-    const result: { 
-      positive: { effectName: string, emoji: string, topPreps: PreparationStat[] }[],
-      negative: { effectName: string, emoji: string, topPreps: PreparationStat[] }[],
-    } = { positive: [], negative: [] };
-
-    stats.forEach((value) => {
-      const statObject = {
-        effectName: value.effectName,
-        emoji: value.emoji,
-        topPreps: this.getSortedPrepStats(value.counts).slice(0, 5)
-      };
-
-      if (statObject.topPreps.length > 0) {
-          switch(value.perception) {
-            case 'positive':
-              result.positive.push(statObject);
-              break;
-            case 'negative':
-              result.negative.push(statObject);
-              break;
-          }
-      }
-    });
-
-    return result;
-  });
+  categorizedEffectStats = computed(() => this.statisticsService.categorizedEffectStats(this.filteredEntries()));
   
   /**
    * Berechnet, welche Inhaltsstoffe am häufigsten mit bestimmten Effekten assoziiert sind.
@@ -269,7 +181,7 @@ export class StatisticsComponent {
     
     const result: { symptom: Symptom, topPreps: PreparationStat[] }[] = [];
     stats.forEach((value) => {
-        const topPreps = this.getSortedPrepStats(value.prepCounts);
+        const topPreps = this.statisticsService.sortedPrepStats(value.prepCounts);
         if (topPreps.length > 0) {
             result.push({
                 symptom: value.symptom,
@@ -310,7 +222,7 @@ export class StatisticsComponent {
     
     const result: { activity: Activity, topPreps: PreparationStat[] }[] = [];
     stats.forEach((value) => {
-        const topPreps = this.getSortedPrepStats(value.prepCounts);
+        const topPreps = this.statisticsService.sortedPrepStats(value.prepCounts);
         if (topPreps.length > 0) {
             result.push({
                 activity: value.activity,
@@ -322,19 +234,6 @@ export class StatisticsComponent {
     return result;
   });
 
-  private getSortedPrepStats(counts: Map<string, number>): PreparationStat[] {
-    return Array.from(counts.entries())
-      .map(([prepId, count]) => {
-        const prep = this.dataService.preparations().find(p => p.id === prepId);
-        if (!prep) return null;
-        const man = this.dataService.manufacturers().find(m => m.id === prep.manufacturerId);
-        const ai = this.dataService.activeIngredients().find(a => a.id === prep.activeIngredientId);
-        return { prep, man, ai, count };
-      })
-      .filter((item): item is PreparationStat => item !== null)
-      .sort((a, b) => b.count - a.count);
-  }
-  
   private getSortedIngredientStats(counts: Map<string, number>): IngredientStat[] {
     return Array.from(counts.entries())
       .map(([ingId, count]) => {
@@ -0,0 +1,96 @@
+import { DiaryEntry, DiaryEntryChange, DiaryEntryHistoryField, DiaryEntryRevision } from './models';
+import { isDeepEqual } from './import-merge';
+import { normalize } from './entry-merge';
+import { TranslationKey } from './services/translation.service';
+
+/**
+ * Bearbeitungsverlauf der Tagebucheinträge.
+ *
+ * Jede Bearbeitung wird als Revision mit den geänderten Feldern samt altem und neuem Wert am
+ * Eintrag gespeichert. So lässt sich nachvollziehen, ob ein Wert so erfasst oder später geändert
+ * wurde. Die Inhaltsstoffe folgen immer dem Präparat und werden daher nicht eigens festgehalten.
+ */
+
+export const HISTORY_FIELDS: DiaryEntryHistoryField[] = ['datetime', 'mood', 'preparationId', 'dosage', 'effects', 'symptomIds', 'activityIds', 'note'];
+
+/**
+ * Die Bezeichnung je Feld.
+ */
+export const HISTORY_FIELD_LABEL_KEYS: Record<DiaryEntryHistoryField, TranslationKey> = {
+  datetime: 'date',
+  mood: 'mood',
+  preparationId: 'preparation',
+  dosage: 'dosage',
+  effects: 'effects',
+  symptomIds: 'symptoms',
+  activityIds: 'activities',
+  note: 'note',
+};
+
+/**
+ * Platzhalter für einen nicht gesetzten Wert.
+ */
+const EMPTY_VALUE = '–';
+
+/**
+ * Liefert die Felder, in denen sich zwei Fassungen eines Eintrags unterscheiden. Leere Listen
+ * und Notizen gelten als nicht gesetzt.
+ */
+export function diffDiaryEntries(before: DiaryEntry, after: DiaryEntry): DiaryEntryChange[] {
+  return HISTORY_FIELDS
+    .filter(field => !isDeepEqual(normalize(before[field]), normalize(after[field])))
+    .map(field => ({ field, before: before[field], after: after[field] }) as DiaryEntryChange);
+}
+
+/**
+ * Übernimmt den Verlauf des gespeicherten Eintrags in die bearbeitete Fassung und ergänzt ihn
+ * um die Bearbeitung. Ändert sich inhaltlich nichts, bleibt der Verlauf unverändert.
+ * @param previous Der gespeicherte Eintrag.
+ * @param next Die bearbeitete Fassung.
+ * @param modifiedAt Zeitpunkt der Bearbeitung (ISO 8601).
+ */
+export function withRevision(previous: DiaryEntry, next: DiaryEntry, modifiedAt: string): DiaryEntry {
+  const changes = diffDiaryEntries(previous, next);
+  const history = { createdAt: previous.createdAt, modifiedAt: previous.modifiedAt, revisions: previous.revisions };
+  if (changes.length === 0) return { ...next, ...history };
+  const revision: DiaryEntryRevision = { modifiedAt, changes };
+  return { ...next, ...history, modifiedAt, revisions: [...(history.revisions ?? []), revision] };
+}
+
+/**
+ * Auflösung der Verweise und Sprache für die Anzeige der Werte.
+ */
+export interface HistoryValueContext {
+  language: string;
+  /**
+   * Der Name eines Präparats, Symptoms bzw. einer Aktivität, auch wenn diese inzwischen gelöscht sind.
+   */
+  name: (field: 'preparationId' | 'symptomIds' | 'activityIds', id: string) => string;
+}
+
+/**
+ * Formatiert den alten oder neuen Wert einer Änderung lesbar, z.B. "😀 Gut" oder "5 mg".
+ */
+export function formatHistoryValue(change: DiaryEntryChange, side: 'before' | 'after', context: HistoryValueContext): string {
+  const value = change[side];
+  if (normalize(value) === undefined) return EMPTY_VALUE;
+  switch (change.field) {
+    case 'datetime':
+      return new Date(change[side]!).toLocaleString(context.language, { dateStyle: 'short', timeStyle: 'short' });
+    case 'mood':
+      return `${change[side]!.emoji} ${change[side]!.description}`;
+    case 'preparationId':
+      return context.name(change.field, change[side]!);
+    case 'dosage':
+      return `${change[side]!.amount.toLocaleString(context.language)} ${change[side]!.unit}`;
+    case 'effects':
+      return change[side]!.map(effect => `${effect.emoji} ${effect.description}`).join(', ');
+    case 'symptomIds':
+    case 'activityIds': {
+      const field = change.field;
+      return change[side]!.map(id => context.name(field, id)).join(', ');
+    }
+    case 'note':
+      return change[side]!;
+  }
+}
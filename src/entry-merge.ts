@@ -0,0 +1,104 @@
+import { DiaryEntry } from './models';
+import { isDeepEqual } from './import-merge';
+
+/**
+ * Zusammenführen gleichzeitiger Bearbeitungen eines Tagebucheintrags, z.B. wenn derselbe
+ * Eintrag in zwei Tabs geöffnet war.
+ *
+ * Es wird ein Drei-Wege-Vergleich mit dem Stand durchgeführt, auf dem die eigene Bearbeitung
+ * beruht: Felder, die nur eine Seite geändert hat, werden von dieser übernommen. Bei Listen
+ * (Effekte, Symptome, Aktivitäten) werden Hinzufügungen und Entfernungen beider Seiten
+ * kombiniert, widersprüchliche Notizen werden aneinandergehängt. Bei den übrigen Feldern
+ * gewinnt bei einem Widerspruch die eigene Bearbeitung.
+ */
+
+/**
+ * Felder, die als Ganzes übernommen werden. Die Inhaltsstoffe sind eine Momentaufnahme
+ * des Präparats bzw. seiner Version und folgen daher immer dem Präparat.
+ */
+const SCALAR_FIELDS = ['datetime', 'mood', 'preparationId', 'dosage'] as const;
+
+const ID_LIST_FIELDS = ['symptomIds', 'activityIds'] as const;
+
+/**
+ * Felder, bei denen sich widersprüchliche Änderungen nicht vollständig vereinen lassen.
+ */
+export type DiaryEntryField = typeof SCALAR_FIELDS[number] | 'note';
+
+/**
+ * Ergebnis des Zusammenführens.
+ */
+export interface DiaryEntryMergeResult {
+  entry: DiaryEntry;
+  /**
+   * Die Felder, die beide Seiten unterschiedlich geändert haben.
+   */
+  conflicts: DiaryEntryField[];
+}
+
+/**
+ * Führt zwei Bearbeitungen desselben Tagebucheintrags zusammen.
+ * @param base Der Stand, auf dem die eigene Bearbeitung beruht.
+ * @param theirs Der inzwischen gespeicherte Stand.
+ * @param mine Die eigene Bearbeitung.
+ */
+export function mergeDiaryEntryEdits(base: DiaryEntry, theirs: DiaryEntry, mine: DiaryEntry): DiaryEntryMergeResult {
+  const entry: DiaryEntry = { ...theirs };
+  const conflicts: DiaryEntryField[] = [];
+  const changed = (field: keyof DiaryEntry, side: DiaryEntry) => !isDeepEqual(normalize(base[field]), normalize(side[field]));
+  const isConflict = (field: keyof DiaryEntry) =>
+    changed(field, mine) && changed(field, theirs) && !isDeepEqual(normalize(mine[field]), normalize(theirs[field]));
+
+  for (const field of SCALAR_FIELDS) {
+    if (isConflict(field)) conflicts.push(field);
+    if (changed(field, mine)) {
+      (entry as unknown as Record<string, unknown>)[field] = mine[field];
+      if (field === 'preparationId') {
+        entry.ingredientIds = mine.ingredientIds;
+        entry.preparationRevisionId = mine.preparationRevisionId;
+      }
+    }
+  }
+
+  for (const field of ID_LIST_FIELDS) {
+    const ids = mergeLists(base[field] ?? [], theirs[field] ?? [], mine[field] ?? [], id => id);
+    entry[field] = ids.length > 0 ? ids : undefined;
+  }
+
+  entry.effects = mergeLists(base.effects, theirs.effects, mine.effects, effect => effect.id);
+
+  if (isConflict('note')) {
+    conflicts.push('note');
+    entry.note = [theirs.note, mine.note].filter(note => note?.trim()).join('\n\n');
+  } else if (changed('note', mine)) {
+    entry.note = mine.note;
+  }
+
+  return { entry, conflicts };
+}
+
+/**
+ * Drei-Wege-Vereinigung zweier Listen: Ein Element bleibt erhalten, wenn keine Seite es
+ * entfernt hat, und wird ergänzt, wenn eine Seite es hinzugefügt hat. Bei Elementen, die
+ * beide Seiten enthalten, gilt die eigene Fassung.
+ */
+function mergeLists<T>(base: T[], theirs: T[], mine: T[], key: (item: T) => string): T[] {
+  const baseKeys = new Set(base.map(key));
+  const theirKeys = new Set(theirs.map(key));
+  const mineKeys = new Set(mine.map(key));
+  const result = mine.filter(item => !baseKeys.has(key(item)) || theirKeys.has(key(item)));
+  for (const item of theirs) {
+    const k = key(item);
+    if (!mineKeys.has(k) && !baseKeys.has(k)) result.push(item);
+  }
+  return result;
+}
+
+/**
+ * Leere Listen und Notizen gelten als nicht gesetzt.
+ */
+export function normalize(value: unknown): unknown {
+  if (Array.isArray(value) && value.length === 0) return undefined;
+  if (value === '') return undefined;
+  return value;
+}
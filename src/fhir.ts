@@ -0,0 +1,459 @@
+import { ActiveIngredient, DiaryEntry, Dosage, Effect, EffectPerception, Ingredient, Manufacturer, Mood, Preparation } from './models';
+import { MergeState } from './import-merge';
+import { CURRENT_SCHEMA_VERSION, SchemaPayload } from './migrations';
+
+/**
+ * Export und Import als HL7 FHIR R4 Bundle (Typ `collection`).
+ *
+ * Abbildung:
+ * - Präparate, Wirkstoffgehalte und Inhaltsstoffe werden zu `Medication`-Ressourcen,
+ *   Hersteller zu `Organization`-Ressourcen.
+ * - Jeder Tagebucheintrag mit Präparat wird zu einem `MedicationStatement` mit Dosierung.
+ * - Stimmungen, Symptome, Effekte und Aktivitäten eines Eintrags werden zu `Observation`s,
+ *   ebenso die Notiz eines Eintrags ohne Präparat.
+ *
+ * Die IDs der App werden als `identifier` mitgeführt, Beobachtungen tragen die ID ihres
+ * Tagebucheintrags. Felder ohne Entsprechung in FHIR (z.B. Emojis) stehen in Extensions.
+ * Dadurch lässt sich ein exportiertes Bundle verlustfrei wieder einlesen. Beim Import werden
+ * neben `MedicationStatement` auch `MedicationAdministration`-Ressourcen als Einnahmen erkannt.
+ */
+
+const SYSTEM = 'https://github.com/marukuru/medikamententagebuch';
+const FHIR_BASE = `${SYSTEM}/fhir`;
+const OBSERVATION_KIND_SYSTEM = `${SYSTEM}/observation-kind`;
+const PERCEPTION_SYSTEM = `${SYSTEM}/effect-perception`;
+const EXTENSION = {
+  emoji: `${FHIR_BASE}/StructureDefinition/emoji`,
+  amount: `${FHIR_BASE}/StructureDefinition/active-ingredient-amount`,
+  unit: `${FHIR_BASE}/StructureDefinition/active-ingredient-unit`,
+  defaultDosage: `${FHIR_BASE}/StructureDefinition/default-dosage`,
+  dosageId: `${FHIR_BASE}/StructureDefinition/dosage-id`,
+  ingredients: `${FHIR_BASE}/StructureDefinition/entry-ingredient`,
+};
+const PATIENT_REFERENCE = 'Patient/patient';
+
+/**
+ * Emoji für Stammdaten aus fremden Bundles, die kein Emoji mitbringen.
+ */
+const FALLBACK_EMOJI = '📥';
+
+type ObservationKind = 'mood' | 'effect' | 'symptom' | 'activity' | 'note';
+
+// --- FHIR-Datentypen, beschränkt auf die verwendeten Elemente ---
+
+interface Identifier {
+  system?: string;
+  value?: string;
+}
+
+interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Reference {
+  reference?: string;
+}
+
+interface Quantity {
+  value?: number;
+  unit?: string;
+  code?: string;
+  extension?: Extension[];
+}
+
+interface Extension {
+  url: string;
+  valueString?: string;
+  valueQuantity?: Quantity;
+  valueIdentifier?: Identifier;
+}
+
+/**
+ * Eine FHIR-Ressource. Es werden nur die verwendeten Elemente typisiert ausgewertet.
+ * Da fremde Bundles beliebige Inhalte haben können, werden die Werte beim Import defensiv gelesen.
+ */
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  identifier?: Identifier[];
+  extension?: Extension[];
+  name?: string;
+  code?: CodeableConcept;
+  manufacturer?: Reference;
+  ingredient?: { itemReference?: Reference; isActive?: boolean }[];
+  medicationReference?: Reference;
+  effectiveDateTime?: string;
+  effectivePeriod?: { start?: string };
+  /**
+   * Bei `MedicationStatement` eine Liste von Dosierungen, bei `MedicationAdministration` eine einzelne.
+   */
+  dosage?: { doseAndRate?: { doseQuantity?: Quantity }[] }[] | { dose?: Quantity };
+  note?: { text?: string }[];
+  partOf?: Reference[];
+  valueCodeableConcept?: CodeableConcept;
+  valueString?: string;
+  interpretation?: CodeableConcept[];
+  [element: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+/**
+ * Prüft, ob es sich um ein FHIR Bundle handelt (statt um ein Backup der App).
+ */
+export function isFhirBundle(value: unknown): value is FhirBundle {
+  return typeof value === 'object' && value !== null && (value as FhirResource).resourceType === 'Bundle';
+}
+
+/**
+ * Erzeugt das FHIR Bundle aus dem aktuellen Zustand.
+ */
+export function toFhirBundle(state: MergeState, timestamp: Date = new Date()): FhirBundle {
+  const resources: FhirResource[] = [];
+  const referenceById = new Map<string, string>();
+  const add = (resource: FhirResource, key?: string) => {
+    resources.push(resource);
+    if (key) referenceById.set(key, `${resource.resourceType}/${resource.id}`);
+    return `${resource.resourceType}/${resource.id}`;
+  };
+
+  // Das Tagebuch gehört immer zu genau einer Person; sie wird ohne persönliche Angaben exportiert.
+  add({ resourceType: 'Patient', id: 'patient', active: true });
+
+  state.manufacturers.forEach((man, i) => add({
+    resourceType: 'Organization',
+    id: `org-${i}`,
+    identifier: [identifier('manufacturers', man.id)],
+    name: man.name,
+  }, `manufacturers:${man.id}`));
+
+  state.activeIngredients.forEach((ai, i) => add({
+    resourceType: 'Medication',
+    id: `ai-${i}`,
+    identifier: [identifier('activeIngredients', ai.id)],
+    extension: [
+      { url: EXTENSION.amount, valueString: ai.amount },
+      { url: EXTENSION.unit, valueString: ai.unit },
+    ],
+    code: { text: `${ai.amount} ${ai.unit}` },
+  }, `activeIngredients:${ai.id}`));
+
+  state.ingredients.forEach((ing, i) => add({
+    resourceType: 'Medication',
+    id: `ing-${i}`,
+    identifier: [identifier('ingredients', ing.id)],
+    code: { text: ing.name },
+  }, `ingredients:${ing.id}`));
+
+  const dosages = new Map(state.dosages.map(d => [d.id, d]));
+  state.preparations.forEach((prep, i) => {
+    const defaultDosage = prep.dosageId ? dosages.get(prep.dosageId) : undefined;
+    const ingredient = [
+      ...(prep.activeIngredientId ? [{ id: prep.activeIngredientId, collection: 'activeIngredients', isActive: true }] : []),
+      ...(prep.ingredientIds ?? []).map(id => ({ id, collection: 'ingredients', isActive: false })),
+    ]
+      .filter(item => referenceById.has(`${item.collection}:${item.id}`))
+      .map(item => ({ itemReference: { reference: referenceById.get(`${item.collection}:${item.id}`) }, isActive: item.isActive }));
+    add(compact({
+      resourceType: 'Medication',
+      id: `prep-${i}`,
+      identifier: [identifier('preparations', prep.id)],
+      extension: defaultDosage ? [{ url: EXTENSION.defaultDosage, valueQuantity: quantity(defaultDosage) }] : undefined,
+      code: { text: prep.name },
+      manufacturer: prep.manufacturerId && referenceById.has(`manufacturers:${prep.manufacturerId}`)
+        ? { reference: referenceById.get(`manufacturers:${prep.manufacturerId}`) }
+        : undefined,
+      ingredient: ingredient.length > 0 ? ingredient : undefined,
+    }), `preparations:${prep.id}`);
+  });
+
+  const symptoms = new Map(state.symptoms.map(s => [s.id, s]));
+  const activities = new Map(state.activities.map(a => [a.id, a]));
+  let observationCount = 0;
+  state.diaryEntries.forEach((entry, i) => {
+    const medication = entry.preparationId ? referenceById.get(`preparations:${entry.preparationId}`) : undefined;
+    let statement: string | undefined;
+    if (medication) {
+      statement = add(compact({
+        resourceType: 'MedicationStatement',
+        id: `stmt-${i}`,
+        identifier: [identifier('diaryEntries', entry.id)],
+        extension: entry.ingredientIds?.map(id => ({ url: EXTENSION.ingredients, valueIdentifier: identifier('ingredients', id) })),
+        status: 'completed',
+        medicationReference: { reference: medication },
+        subject: { reference: PATIENT_REFERENCE },
+        effectiveDateTime: entry.datetime,
+        note: entry.note ? [{ text: entry.note }] : undefined,
+        dosage: entry.dosage ? [{ doseAndRate: [{ doseQuantity: quantity(entry.dosage) }] }] : undefined,
+      }));
+    }
+
+    const observe = (kind: ObservationKind, value: Record<string, unknown>, extra: Record<string, unknown> = {}) => add(compact({
+      resourceType: 'Observation',
+      id: `obs-${observationCount++}`,
+      identifier: [identifier('diaryEntries', entry.id)],
+      ...extra,
+      status: 'final',
+      code: { coding: [{ system: OBSERVATION_KIND_SYSTEM, code: kind }] },
+      subject: { reference: PATIENT_REFERENCE },
+      effectiveDateTime: entry.datetime,
+      partOf: statement ? [{ reference: statement }] : undefined,
+      ...value,
+    }));
+    const concept = (collection: string, item: { id: string; description: string; emoji: string }) => ({
+      valueCodeableConcept: {
+        coding: [{ system: `${SYSTEM}/${collection}`, code: item.id, display: item.description }],
+        text: item.description,
+      },
+    });
+    const emoji = (item: { emoji: string }) => ({ extension: [{ url: EXTENSION.emoji, valueString: item.emoji }] });
+
+    if (entry.mood) {
+      observe('mood', concept('moods', entry.mood), emoji(entry.mood));
+    }
+    for (const effect of entry.effects) {
+      observe('effect', {
+        ...concept('effects', effect),
+        interpretation: [{ coding: [{ system: PERCEPTION_SYSTEM, code: effect.perception }] }],
+      }, emoji(effect));
+    }
+    for (const symptom of (entry.symptomIds ?? []).map(id => symptoms.get(id)).filter(s => !!s)) {
+      observe('symptom', concept('symptoms', symptom), emoji(symptom));
+    }
+    for (const activity of (entry.activityIds ?? []).map(id => activities.get(id)).filter(a => !!a)) {
+      observe('activity', concept('activities', activity), emoji(activity));
+    }
+    if (entry.note && !statement) {
+      observe('note', { valueString: entry.note });
+    }
+  });
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: timestamp.toISOString(),
+    entry: resources.map(resource => ({ fullUrl: `${FHIR_BASE}/${resource.resourceType}/${resource.id}`, resource })),
+  };
+}
+
+/**
+ * Wandelt ein FHIR Bundle in Importdaten im Format der aktuellen Schema-Version um.
+ * Die Daten werden anschließend wie ein Backup geprüft; ungültige Ressourcen fallen dabei heraus.
+ * Ein Bundle beschreibt genau eine Person, die Einträge enthalten daher kein Profil.
+ */
+export function fromFhirBundle(bundle: FhirBundle): SchemaPayload {
+  const resources: FhirResource[] = (Array.isArray(bundle.entry) ? bundle.entry : [])
+    .map(entry => entry?.resource)
+    .filter((resource): resource is FhirResource => typeof resource?.resourceType === 'string');
+  const byReference = new Map<string, FhirResource>();
+  for (const resource of resources) {
+    byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+  }
+  const resolve = (reference: Reference | undefined) =>
+    reference?.reference ? byReference.get(reference.reference.replace(`${FHIR_BASE}/`, '')) : undefined;
+  const lookup = <T>(map: Map<FhirResource, T>, reference: Reference | undefined) => {
+    const resource = resolve(reference);
+    return resource ? map.get(resource) : undefined;
+  };
+
+  const manufacturers = new Map<FhirResource, Manufacturer>();
+  const activeIngredients = new Map<FhirResource, ActiveIngredient>();
+  const ingredients = new Map<FhirResource, Ingredient>();
+  const preparations = new Map<FhirResource, Preparation>();
+  const dosages = new Map<string, Dosage>();
+  const addDosage = (value: Quantity | undefined) => {
+    const dosage = fromQuantity(value);
+    if (dosage && !dosages.has(dosage.id)) dosages.set(dosage.id, dosage);
+    return dosage;
+  };
+
+  for (const resource of resources.filter(r => r.resourceType === 'Organization')) {
+    manufacturers.set(resource, { id: appId(resource, 'manufacturers'), name: resource.name ?? '' });
+  }
+
+  // Medikamente ohne eigene Kennung (fremde Bundles) werden als Präparate übernommen.
+  const medications = resources.filter(r => r.resourceType === 'Medication');
+  for (const resource of medications) {
+    if (hasIdentifier(resource, 'activeIngredients')) {
+      activeIngredients.set(resource, {
+        id: appId(resource, 'activeIngredients'),
+        amount: extensionValue(resource, EXTENSION.amount, 'valueString') ?? conceptText(resource.code),
+        unit: extensionValue(resource, EXTENSION.unit, 'valueString') ?? '',
+      });
+    } else if (hasIdentifier(resource, 'ingredients')) {
+      ingredients.set(resource, { id: appId(resource, 'ingredients'), name: conceptText(resource.code) });
+    }
+  }
+  for (const resource of medications.filter(r => !activeIngredients.has(r) && !ingredients.has(r))) {
+    const items = Array.isArray(resource.ingredient) ? resource.ingredient : [];
+    const referenced = items.map(item => resolve(item?.itemReference)).filter((r): r is FhirResource => !!r);
+    const ingredientIds = referenced.filter(r => ingredients.has(r)).map(r => ingredients.get(r)!.id);
+    preparations.set(resource, compact({
+      id: appId(resource, 'preparations'),
+      name: conceptText(resource.code),
+      manufacturerId: lookup(manufacturers, resource.manufacturer)?.id,
+      activeIngredientId: referenced.map(r => activeIngredients.get(r)).find(ai => !!ai)?.id,
+      dosageId: addDosage(extensionValue(resource, EXTENSION.defaultDosage, 'valueQuantity'))?.id,
+      ingredientIds: ingredientIds.length > 0 ? ingredientIds : undefined,
+    }));
+  }
+
+  const entries = new Map<string, Omit<DiaryEntry, 'profileId'>>();
+  const entryIdByStatement = new Map<FhirResource, string>();
+  const entryFor = (id: string, datetime: unknown) => {
+    let entry = entries.get(id);
+    if (!entry) {
+      entry = { id, datetime: toIsoDateTime(datetime), effects: [] };
+      entries.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const resource of resources.filter(r => r.resourceType === 'MedicationStatement' || r.resourceType === 'MedicationAdministration')) {
+    const isStatement = resource.resourceType === 'MedicationStatement';
+    const id = appId(resource, 'diaryEntries');
+    const entry = entryFor(id, resource.effectiveDateTime ?? resource.effectivePeriod?.start);
+    entryIdByStatement.set(resource, id);
+    entry.preparationId = lookup(preparations, resource.medicationReference)?.id;
+    const dosage = resource.dosage;
+    const dose = Array.isArray(dosage)
+      ? (isStatement ? dosage[0]?.doseAndRate?.[0]?.doseQuantity : undefined)
+      : (isStatement ? undefined : dosage?.dose);
+    entry.dosage = addDosage(dose);
+    const notes = (Array.isArray(resource.note) ? resource.note : []).map(note => note?.text).filter(Boolean);
+    if (notes.length > 0) entry.note = notes.join('\n');
+    const ingredientIds = (resource.extension ?? [])
+      .filter(ext => ext?.url === EXTENSION.ingredients)
+      .map(ext => ext.valueIdentifier?.value)
+      .filter((id): id is string => id !== undefined);
+    if (ingredientIds.length > 0) entry.ingredientIds = ingredientIds;
+  }
+
+  const moods = new Map<string, Mood>();
+  const effects = new Map<string, Effect>();
+  const symptoms = new Map<string, { id: string; description: string; emoji: string }>();
+  const activities = new Map<string, { id: string; description: string; emoji: string }>();
+  for (const resource of resources.filter(r => r.resourceType === 'Observation')) {
+    const kind = findCode(resource.code, OBSERVATION_KIND_SYSTEM) as ObservationKind | undefined;
+    if (!kind) continue;
+    const partOf = (resource.partOf ?? []).map(resolve).find(r => r && entryIdByStatement.has(r));
+    const entryId = hasIdentifier(resource, 'diaryEntries') ? appId(resource, 'diaryEntries') : partOf ? entryIdByStatement.get(partOf)! : resource.id ?? '';
+    const entry = entryFor(entryId, resource.effectiveDateTime ?? resource.effectivePeriod?.start);
+
+    if (kind === 'note') {
+      if (typeof resource.valueString === 'string') entry.note = resource.valueString;
+      continue;
+    }
+    const coding: Coding = resource.valueCodeableConcept?.coding?.[0] ?? {};
+    const item = {
+      id: coding.code ?? '',
+      description: coding.display ?? conceptText(resource.valueCodeableConcept),
+      emoji: extensionValue(resource, EXTENSION.emoji, 'valueString') ?? FALLBACK_EMOJI,
+    };
+    switch (kind) {
+      case 'mood':
+        entry.mood = item;
+        if (!moods.has(item.id)) moods.set(item.id, item);
+        break;
+      case 'effect': {
+        const perception = findCode(resource.interpretation?.[0], PERCEPTION_SYSTEM) as EffectPerception | undefined;
+        const effect: Effect = { ...item, perception: perception ?? 'neutral' };
+        entry.effects.push(effect);
+        if (!effects.has(effect.id)) effects.set(effect.id, effect);
+        break;
+      }
+      case 'symptom':
+        entry.symptomIds = [...(entry.symptomIds ?? []), item.id];
+        if (!symptoms.has(item.id)) symptoms.set(item.id, item);
+        break;
+      case 'activity':
+        entry.activityIds = [...(entry.activityIds ?? []), item.id];
+        if (!activities.has(item.id)) activities.set(item.id, item);
+        break;
+    }
+  }
+
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    manufacturers: [...manufacturers.values()],
+    activeIngredients: [...activeIngredients.values()],
+    ingredients: [...ingredients.values()],
+    dosages: [...dosages.values()],
+    preparations: [...preparations.values()],
+    moods: [...moods.values()],
+    effects: [...effects.values()],
+    symptoms: [...symptoms.values()],
+    activities: [...activities.values()],
+    diaryEntries: [...entries.values()].map(entry => compact(entry)),
+  };
+}
+
+function identifier(collection: string, id: string): Identifier {
+  return { system: `${SYSTEM}/${collection}`, value: id };
+}
+
+function hasIdentifier(resource: FhirResource, collection: string): boolean {
+  return (resource.identifier ?? []).some(i => i?.system === `${SYSTEM}/${collection}`);
+}
+
+/**
+ * Die ID der App aus dem `identifier`, ersatzweise die ID der Ressource.
+ */
+function appId(resource: FhirResource, collection: string): string {
+  const id = (resource.identifier ?? []).find(i => i?.system === `${SYSTEM}/${collection}`)?.value;
+  return id ?? resource.id ?? '';
+}
+
+function extensionValue<K extends keyof Extension>(element: { extension?: Extension[] } | undefined, url: string, key: K): Extension[K] | undefined {
+  return (element?.extension ?? []).find(ext => ext?.url === url)?.[key];
+}
+
+/**
+ * Der Code aus dem angegebenen Codesystem.
+ */
+function findCode(concept: CodeableConcept | undefined, system: string): string | undefined {
+  return (concept?.coding ?? []).find(c => c?.system === system)?.code;
+}
+
+function conceptText(concept: CodeableConcept | undefined): string {
+  return concept?.text ?? concept?.coding?.[0]?.display ?? '';
+}
+
+function quantity(dosage: Dosage): Quantity {
+  return { extension: [{ url: EXTENSION.dosageId, valueString: dosage.id }], value: dosage.amount, unit: dosage.unit };
+}
+
+function fromQuantity(value: Quantity | undefined): Dosage | undefined {
+  if (typeof value?.value !== 'number') return undefined;
+  const unit = value.unit ?? value.code ?? '';
+  return { id: extensionValue(value, EXTENSION.dosageId, 'valueString') ?? `${value.value}-${unit}`, amount: value.value, unit };
+}
+
+/**
+ * FHIR erlaubt Zeitpunkte ohne Uhrzeit; die App erwartet vollständige ISO-8601-Zeitpunkte.
+ * Ungültige Werte bleiben unverändert und werden bei der Prüfung gemeldet.
+ */
+function toIsoDateTime(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+}
+
+/**
+ * Entfernt Felder mit dem Wert `undefined`, damit das Bundle keine leeren Elemente enthält.
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
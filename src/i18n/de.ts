@@ -20,6 +20,10 @@ export const LANG_DE = {
     noEntriesYetDescription: "Klicken Sie auf das '+' Symbol, um Ihren ersten Eintrag zu erstellen.",
     loadMore: 'Mehr laden',
     entryDetails: 'Eintrag Details',
+    entryCreatedAt: 'Erfasst am',
+    entryModifiedAt: 'Zuletzt geändert am',
+    entryHistory: 'Bearbeitungsverlauf',
+    historyDeletedItem: '(gelöscht)',
     date: 'Datum',
     atTime: 'um',
     mood: 'Stimmung',
@@ -34,7 +38,7 @@ export const LANG_DE = {
     edit: 'Bearbeiten',
     delete: 'Löschen',
     confirmDeleteTitle: 'Eintrag löschen?',
-    confirmDeleteMessage: 'Möchten Sie diesen Eintrag wirklich endgültig löschen?',
+    confirmDeleteMessage: 'Möchten Sie diesen Eintrag wirklich löschen? Er wird in den Papierkorb verschoben.',
     cancel: 'Abbrechen',
     confirmDeleteButton: 'Ja, löschen',
     dosageLabelWithData: 'Dosierung: {{amount}} {{unit}}',
@@ -50,6 +54,34 @@ export const LANG_DE = {
     noFilterResultsDescription: 'Versuchen Sie, Ihre Suche oder Filter anzupassen.',
     daysSkippedSingular: '{{count}} Tag ausgelassen',
     daysSkippedPlural: '{{count}} Tage ausgelassen',
+    // Mehrfachauswahl
+    selectEntries: 'Auswählen',
+    selectionCount: '{{count}} ausgewählt',
+    selectAllFiltered: 'Alle gefilterten auswählen ({{count}})',
+    clearSelection: 'Auswahl aufheben',
+    exitSelection: 'Fertig',
+    exportSelection: 'Als CSV exportieren',
+    bulkEditTitle: '{{count}} Einträge bearbeiten',
+    bulkAction: 'Aktion',
+    bulkActionSetPreparation: 'Präparat ändern',
+    bulkActionSetDosage: 'Dosierung ändern',
+    bulkActionAddSymptom: 'Symptom hinzufügen',
+    bulkActionRemoveSymptom: 'Symptom entfernen',
+    bulkActionAddActivity: 'Aktivität hinzufügen',
+    bulkActionRemoveActivity: 'Aktivität entfernen',
+    bulkActionAddEffect: 'Effekt hinzufügen',
+    bulkActionRemoveEffect: 'Effekt entfernen',
+    bulkActionShiftTime: 'Zeit verschieben',
+    bulkNoPreparation: 'Kein Präparat',
+    bulkDosageHint: 'Leer lassen, um die Dosierung zu entfernen.',
+    bulkSelectItem: 'Bitte auswählen',
+    bulkShiftHours: 'Verschiebung in Stunden',
+    bulkShiftHint: 'Negative Werte verschieben die Einträge auf einen früheren Zeitpunkt, z.B. -1,5 um anderthalb Stunden.',
+    bulkApply: 'Anwenden',
+    entriesBulkEdited: '{{count}} Einträge geändert.',
+    entriesBulkDeleted: '{{count}} Einträge in den Papierkorb verschoben.',
+    confirmBulkDeleteTitle: 'Einträge löschen?',
+    confirmBulkDeleteMessage: 'Möchten Sie die {{count}} ausgewählten Einträge wirklich löschen? Sie werden in den Papierkorb verschoben.',
 
     // Emojis & Symbole
     emojiDiary: '💊',
@@ -84,11 +116,17 @@ export const LANG_DE = {
     emojiSettingsActiveIngredients: '🧪',
     emojiSettingsCustomEmojis: '✨',
     emojiSettingsReminders: '⏰',
+    emojiSettingsProfiles: '👥',
     emojiSettingsModules: '🧩',
     emojiSettingsSecurity: '🔒',
     emojiSettingsDesign: '🎨',
     emojiSettingsLanguage: '🌐',
     emojiSettingsData: '💾',
+    emojiSettingsBackup: '🗄️',
+    emojiSettingsSync: '☁️',
+    emojiSettingsTrash: '🗑️',
+    emojiSettingsStorage: '📦',
+    emojiSettingsRetention: '⏳',
 
     // Statistics Page
     statisticsTitle: 'Statistik',
@@ -125,12 +163,253 @@ export const LANG_DE = {
     dataManagement: 'Datenverwaltung',
     export: 'Exportieren',
     import: 'Importieren',
+    exportEncrypted: 'Verschlüsselt exportieren',
+    exportEncryptedTitle: 'Verschlüsseltes Backup',
+    exportEncryptedMessage: 'Das Backup wird mit Ihrer Passphrase verschlüsselt. Ohne diese Passphrase kann es nicht wiederhergestellt werden.',
+    passphraseLabel: 'Passphrase',
+    passphraseConfirmLabel: 'Passphrase bestätigen',
+    passphraseErrorLength: 'Die Passphrase muss mindestens {{count}} Zeichen lang sein.',
+    passphraseErrorMismatch: 'Die Passphrasen stimmen nicht überein.',
+    encryptedBackupPassphrasePrompt: 'Dieses Backup ist verschlüsselt. Bitte geben Sie die Passphrase ein.',
+    wrongPassphrase: 'Falsche Passphrase.',
+    automaticBackup: 'Automatische Sicherung',
+    enableAutomaticBackup: 'Automatisch sichern',
+    backupSchedule: 'Zeitplan',
+    backupScheduleDaily: 'Täglich',
+    backupScheduleWeekly: 'Wöchentlich',
+    backupScheduleChanges: 'Nach Änderungen',
+    backupChangeThreshold: 'Anzahl Änderungen',
+    backupKeep: 'Aufbewahrte Sicherungen',
+    lastBackup: 'Letzte Sicherung: {{date}}',
+    noBackupYet: 'Es wurde noch keine Sicherung erstellt.',
+    backupNow: 'Jetzt sichern',
+    restoreBackup: 'Wiederherstellen',
+    restoreBackupTitle: 'Sicherung wiederherstellen',
+    restoreBackupHint: 'Verschlüsselte Sicherungen (🔒) lassen sich mit der PIN öffnen, die zum Zeitpunkt der Sicherung galt.',
+    backupEntryCount: '{{count}} Einträge',
+    backupCreated: 'Sicherung erstellt.',
+    backupFailed: 'Die Sicherung konnte nicht erstellt werden.',
+    syncTitle: 'Synchronisation',
+    syncHint: 'Gleichen Sie das Tagebuch über einen eigenen WebDAV-Server (z.B. Nextcloud) zwischen Ihren Geräten ab. Wurde derselbe Datensatz auf zwei Geräten geändert, gilt die jüngere Änderung.',
+    enableSync: 'Synchronisieren',
+    syncSetup: 'Einrichten',
+    syncNow: 'Jetzt synchronisieren',
+    syncNotConfigured: 'Die Synchronisation ist noch nicht eingerichtet.',
+    syncServer: 'Server: {{url}}',
+    lastSync: 'Zuletzt synchronisiert: {{date}}',
+    noSyncYet: 'Es wurde noch nicht synchronisiert.',
+    syncConflicts: 'Bei der letzten Synchronisation wurden {{count}} Datensätze auf mehreren Geräten geändert; übernommen wurde jeweils die jüngere Änderung.',
+    syncUrl: 'WebDAV-Ordner',
+    syncUrlPlaceholder: 'https://cloud.example.org/remote.php/dav/files/name/Tagebuch',
+    syncUrlHint: 'Der Ordner muss bereits existieren. In der Web-App muss der Server Anfragen von dieser Seite zulassen (CORS).',
+    syncUsername: 'Benutzername',
+    syncPassword: 'Passwort',
+    syncPassphrase: 'Passphrase (optional)',
+    syncPassphraseHint: 'Verschlüsselt die Daten auf dem Server. Alle Geräte müssen dieselbe Passphrase verwenden.',
+    syncTestConnection: 'Verbindung testen',
+    syncTestSuccess: 'Die Verbindung zum Server funktioniert.',
+    syncUrlRequired: 'Bitte geben Sie die Adresse des WebDAV-Ordners an.',
+    syncStatusIdle: 'Synchronisiert',
+    syncStatusPending: 'Änderungen noch nicht übertragen',
+    syncStatusSyncing: 'Synchronisiere …',
+    syncStatusOffline: 'Offline – Änderungen werden später übertragen',
+    syncStatusError: 'Synchronisation fehlgeschlagen',
+    syncErrorAuth: 'Die Anmeldung am Server ist fehlgeschlagen. Bitte prüfen Sie Benutzername und Passwort.',
+    syncErrorPassphrase: 'Die Daten auf dem Server sind verschlüsselt. Bitte geben Sie die Passphrase an, die auch die anderen Geräte verwenden.',
+    syncErrorNewerVersion: 'Die Daten auf dem Server stammen aus einer neueren App-Version. Bitte aktualisieren Sie die App.',
+    syncErrorServer: 'Der Server hat die Anfrage abgelehnt oder die Sync-Datei ist ungültig.',
+    syncErrorOffline: 'Der Server ist nicht erreichbar.',
+
+    // Papierkorb
+    trashTitle: 'Papierkorb',
+    trashHint: 'Gelöschte Einträge und Stammdaten landen zunächst im Papierkorb. Von dort lassen sie sich samt ihrer Verknüpfungen wiederherstellen.',
+    trashRetention: 'Aufbewahren für',
+    trashRetentionDays: '{{count}} Tage',
+    trashItemCount: 'Elemente im Papierkorb: {{count}}',
+    openTrash: 'Papierkorb öffnen',
+    trashEmpty: 'Der Papierkorb ist leer.',
+    trashDeletedAt: 'gelöscht am {{date}}',
+    trashDiaryEntry: 'Tagebucheintrag',
+    trashRestoreHint: 'Beim Wiederherstellen werden auch die Einträge und Präparate wieder verknüpft, deren Verweis beim Löschen aufgehoben wurde.',
+    restoreFromTrash: 'Wiederherstellen',
+    restoredFromTrash: 'Wiederhergestellt.',
+    deletePermanently: 'Endgültig löschen',
+    emptyTrash: 'Papierkorb leeren',
+    emptyTrashTitle: 'Papierkorb leeren?',
+    emptyTrashMessage: 'Alle Elemente im Papierkorb werden endgültig gelöscht.',
+
+    // Speicherplatz
+    storageTitle: 'Speicherplatz',
+    storageHint: 'Die Daten liegen nur auf diesem Gerät. Wird der Platz knapp, leeren Sie den Papierkorb oder sichern und löschen Sie alte Einträge.',
+    storageUsage: '{{used}} von {{quota}} belegt ({{percent}} %)',
+    storageFree: 'Frei: {{free}}',
+    storageEstimateUnavailable: 'Der Browser meldet nicht, wie viel Speicherplatz verfügbar ist.',
+    storageShowDetails: 'Belegung nach Kategorie',
+    storageHideDetails: 'Details ausblenden',
+    storageCategoryDiaryEntries: 'Tagebucheinträge',
+    storageCategoryCatalog: 'Stammdaten',
+    storageCategoryReminders: 'Erinnerungen',
+    storageCategoryTrash: 'Papierkorb',
+    storageCategorySettings: 'Profile & Einstellungen',
+    storageCategoryOther: 'Sonstiges (z.B. Sicherungen)',
+    storageWarning: 'Der Speicherplatz wird knapp. Schaffen Sie Platz, bevor sich Änderungen nicht mehr speichern lassen.',
+    storageCriticalWarning: 'Der Speicherplatz ist fast erschöpft. Leeren Sie den Papierkorb oder sichern und löschen Sie alte Einträge.',
+    storageDetails: 'Details',
+    storageWriteFailed: 'Änderungen konnten nicht gespeichert werden. Sie bleiben erhalten, solange die App geöffnet ist.',
+    storageWriteFailedQuota: 'Der Speicherplatz ist voll, Änderungen konnten nicht gespeichert werden. Sie bleiben erhalten, solange die App geöffnet ist. Schaffen Sie Platz und speichern Sie erneut.',
+    storageRetry: 'Erneut speichern',
+    storageUnsaved: 'Es gibt nicht gespeicherte Änderungen. Exportieren Sie ein Backup, bevor Sie die App schließen.',
+
+    // Aufbewahrung
+    retentionTitle: 'Aufbewahrung',
+    retentionHint: 'Legen Sie fest, wie lange Einträge und Notizen aller Profile aufbewahrt werden. Die Richtlinie wird bei jedem Start geprüft; bevor etwas entfernt wird, zeigt eine Vorschau, was betroffen ist. Entfernte Daten lassen sich nur aus einer Sicherung wiederherstellen.',
+    retentionKeepEntries: 'Einträge aufbewahren',
+    retentionKeepNotes: 'Notizen aufbewahren',
+    retentionUnlimited: 'Unbegrenzt',
+    retentionPeriodMonth: '1 Monat',
+    retentionPeriodMonths: '{{count}} Monate',
+    retentionPeriodYear: '1 Jahr',
+    retentionPeriodYears: '{{count}} Jahre',
+    retentionBackupFirst: 'Vorher eine Sicherung erstellen',
+    retentionSave: 'Übernehmen',
+    retentionSaved: 'Aufbewahrung gespeichert.',
+    retentionPreviewTitle: 'Vorschau: Aufbewahrung',
+    retentionPreviewDeleted: '{{count}} Einträge werden endgültig gelöscht:',
+    retentionPreviewStripped: 'Bei {{count}} Einträgen wird die Notiz entfernt:',
+    retentionPreviewMore: '… und {{count}} weitere',
+    retentionPreviewBackup: 'Vorher wird eine Sicherung erstellt.',
+    retentionPreviewNoBackup: 'Es wird keine Sicherung erstellt. Die entfernten Daten lassen sich nicht wiederherstellen.',
+    retentionApply: 'Übernehmen und entfernen',
+    retentionPurged: '{{deleted}} Einträge gelöscht, {{notes}} Notizen entfernt.',
+    retentionBackupFailed: 'Die Sicherung ist fehlgeschlagen, daher wurde nichts entfernt.',
+    retentionLog: 'Protokoll',
+    retentionLogEntry: '{{date}}: {{deleted}} Einträge gelöscht, {{notes}} Notizen entfernt',
+    retentionLogBackup: 'mit Sicherung',
+
+    // Datenprüfung
+    integrityCheck: 'Daten prüfen',
+    integrityTitle: 'Datenprüfung',
+    integrityHint: 'Prüft die Daten aller Profile auf Verweise auf fehlende Elemente, doppelte IDs, ungültige Datumsangaben und fehlerhafte Erinnerungen.',
+    integrityNoIssues: 'Keine Probleme gefunden.',
+    integrityIssueCount: '{{count}} Probleme gefunden, davon {{repairable}} automatisch behebbar.',
+    integrityDanglingReference: 'Verweist auf ein nicht vorhandenes Element ({{value}}).',
+    integrityDuplicateId: 'Die ID {{value}} ist mehrfach vergeben.',
+    integrityInvalidDate: 'Ungültiges Datum ({{value}}).',
+    integrityMalformedReminder: 'Ungültige Angabe in der Erinnerung ({{value}}).',
+    integrityRepairRemoveReference: 'Verweis aufheben',
+    integrityRepairRemoveDuplicate: 'Inhaltsgleiche Kopie entfernen',
+    integrityRepairAssignNewId: 'Neue ID vergeben',
+    integrityRepairUseCreatedAt: 'Erfassungszeitpunkt übernehmen',
+    integrityRepairRemoveField: 'Feld entfernen',
+    integrityRepairUseNow: 'Aktuellen Zeitpunkt setzen',
+    integrityRepairRemoveInvalidDays: 'Ungültige Wochentage entfernen',
+    integrityRepairDeleteRecord: 'Datensatz löschen',
+    integrityManualFix: 'Nur von Hand behebbar',
+    integrityRepair: 'Reparieren',
+    integrityRepairAll: 'Alle reparieren',
+    integrityExportReport: 'Bericht exportieren',
+    integrityRepaired: '{{count}} Probleme behoben.',
+    integrityReportCheckedAt: 'Geprüft am {{date}}',
+    integrityReportRepair: 'Reparatur: {{repair}}',
+
+    exportCsv: 'CSV exportieren',
+    exportCsvTitle: 'Tagebuch als CSV exportieren',
+    exportCsvMessage: 'Exportiert die Einträge mit aufgelösten Namen für Tabellenkalkulationen. Ohne Datumsangabe wird das gesamte Tagebuch exportiert.',
+    dateRangeFrom: 'Von',
+    dateRangeTo: 'Bis',
+    csvDate: 'Datum',
+    csvTime: 'Uhrzeit',
+    csvMood: 'Stimmung',
+    csvPreparation: 'Präparat',
+    csvManufacturer: 'Hersteller',
+    csvActiveIngredient: 'Wirkstoffgehalt',
+    csvDosage: 'Dosierung',
+    csvEffects: 'Effekte',
+    csvSymptoms: 'Symptome',
+    csvActivities: 'Aktivitäten',
+    csvIngredients: 'Inhaltsstoffe',
+    csvNote: 'Notiz',
+    csvCreatedAt: 'Erfasst am',
+    csvModifiedAt: 'Geändert am',
+    csvHistory: 'Bearbeitungsverlauf',
+    csvIncludeHistory: 'Bearbeitungsverlauf einbeziehen',
+    importCsv: 'CSV importieren',
+    csvImportTitle: 'CSV-Datei importieren',
+    csvImportMappingHint: 'Ordnen Sie jeder Spalte ein Feld zu. Unbekannte Präparate, Stimmungen, Effekte, Symptome und Aktivitäten werden automatisch angelegt.',
+    csvHasHeader: 'Erste Zeile enthält Spaltennamen',
+    csvDecimalSeparator: 'Dezimaltrennzeichen der Dosierung:',
+    csvDecimalComma: 'Komma (1,5 mg; 1.000 mg)',
+    csvDecimalPoint: 'Punkt (1.5 mg; 1,000 mg)',
+    csvColumn: 'Spalte {{number}}',
+    csvRow: 'Zeile {{number}}',
+    csvIgnoreColumn: '– ignorieren –',
+    csvDateTime: 'Datum & Uhrzeit',
+    csvRowCount: '{{count}} Zeilen gefunden.',
+    csvDateColumnRequired: 'Bitte ordnen Sie eine Spalte dem Datum zu.',
+    csvImportSummary: '{{imported}} Einträge importiert, {{skipped}} Zeilen übersprungen.',
+    csvImportCreated: 'Automatisch angelegt',
+    csvImportSkipped: 'Übersprungene Zeilen',
+    csvSkippedInvalidDate: 'Datum oder Uhrzeit ungültig.',
+    csvImportSuccess: '{{count}} Einträge importiert.',
+    exportFhir: 'FHIR exportieren',
+    exportReport: 'Arztbericht (PDF)',
+    exportReportTitle: 'Arztbericht erstellen',
+    exportReportMessage: 'Erstellt einen druckbaren Bericht für Ihren Arzt. Der Bericht wird vollständig auf diesem Gerät erzeugt. Ohne Datumsangabe wird das gesamte Tagebuch berücksichtigt.',
+    reportIncludeNotes: 'Notizen einbeziehen',
+    reportTitle: 'Medikamententagebuch – Arztbericht',
+    reportProfile: 'Profil: {{name}}',
+    reportPeriod: 'Zeitraum: {{from}} bis {{to}}',
+    reportCreatedAt: 'Erstellt am: {{date}}',
+    reportEntryCount: 'Einträge im Zeitraum: {{count}}',
+    reportNoEntries: 'Im gewählten Zeitraum gibt es keine Einträge.',
+    reportNoData: 'Keine Daten im gewählten Zeitraum.',
+    reportIntakeTitle: 'Einnahmen je Präparat',
+    reportIntakes: 'Einnahmen',
+    reportIntakeDays: 'Tage',
+    reportDosageTotal: 'Gesamtdosis',
+    reportMoodTitle: 'Stimmungsverteilung',
+    reportCount: 'Anzahl',
+    reportShare: 'Anteil',
+    reportTopPreparations: 'Häufigste Präparate',
+    reportEffectsTitle: 'Häufigste Effekte',
+    reportPerception: 'Wahrnehmung',
+    reportSymptomsTitle: 'Häufigste Symptome',
+    reportNotesTitle: 'Notizen',
+    reportPage: 'Seite {{page}} von {{count}}',
     resetApp: 'App zurücksetzen',
     confirmDeleteItemTitle: 'Eintrag löschen?',
-    confirmDeleteItemMessage: 'Möchten Sie "{{name}}" wirklich endgültig löschen?',
+    confirmDeleteItemMessage: 'Möchten Sie "{{name}}" wirklich löschen? Das Element wird in den Papierkorb verschoben.',
+    deleteImpactEntries: 'Wird in {{count}} Tagebucheinträgen verwendet. Beim Löschen wird die Verknüpfung dort aufgehoben.',
+    deleteImpactPreparations: 'Wird in {{count}} Präparaten verwendet. Beim Löschen wird die Verknüpfung dort aufgehoben.',
+    deleteImpactShow: 'Anzeigen',
+    deleteImpactHide: 'Ausblenden',
+    deleteReassignTo: 'Verknüpfungen übertragen auf',
+    deleteReassignNone: 'Nicht übertragen, Verknüpfungen aufheben',
+    deleteReassignButton: 'Übertragen und löschen',
+    deleteAnywayButton: 'Trotzdem löschen',
     confirmImportTitle: 'Daten importieren?',
     confirmImportMessage: 'Möchten Sie wirklich Daten importieren? Alle aktuellen Daten werden überschrieben.',
     confirmImportButton: 'Ja, importieren',
+    importModeReplace: 'Ersetzen',
+    importModeMerge: 'Zusammenführen',
+    importModeMergeHint: 'Neue Einträge und Stammdaten werden ergänzt, vorhandene bleiben erhalten. Gleichnamige Stammdaten werden nicht doppelt angelegt.',
+    importFhirHint: 'FHIR-Bundles werden immer mit den vorhandenen Daten zusammengeführt.',
+    mergeSummaryTitle: 'Zusammenfassung des Imports',
+    mergeSummaryEntries: 'Tagebucheinträge',
+    mergeAdded: 'Neu',
+    mergeUpdated: 'Aktualisiert',
+    mergeSkipped: 'Übersprungen',
+    mergeNothingToImport: 'Das Backup enthält keine Daten.',
+    mergeConfirmButton: 'Ja, zusammenführen',
+    validationReportTitle: 'Probleme in der Importdatei',
+    validationReportSummary: '{{valid}} von {{total}} Datensätzen sind gültig. Ungültige Datensätze und Einstellungen werden nicht importiert.',
+    importValidRecordsButton: 'Nur gültige importieren',
+    validationInvalidRoot: 'Die Datei enthält kein gültiges Backup.',
+    validationRequired: 'Pflichtfeld fehlt.',
+    validationInvalidType: 'Falscher Datentyp (erwartet: {{expected}}).',
+    validationInvalidValue: 'Ungültiger Wert (erwartet: {{expected}}).',
+    validationDuplicateId: 'Die ID {{expected}} kommt mehrfach vor.',
+    validationUnknownReference: 'Verweis auf nicht vorhandenen oder ungültigen Datensatz {{expected}}.',
     resetWarningTitle: 'WARNUNG',
     resetWarningMessage: 'Dies löscht ALLE Ihre Daten und setzt die App auf die Standardwerte zurück. Dieser Vorgang kann nicht rückgängig gemacht werden. Fortfahren?',
     continue: 'Fortfahren',
@@ -140,7 +419,9 @@ export const LANG_DE = {
     // alerts
     backupSavedSuccess: 'Backup wurde erfolgreich in Ihrem "Dokumente"-Ordner gespeichert als:\n{{fileName}}',
     backupSavedError: 'Fehler beim Speichern des Backups.',
+    fileSavedSuccess: 'Datei wurde erfolgreich in Ihrem "Dokumente"-Ordner gespeichert als:\n{{fileName}}',
     importFailed: 'Import fehlgeschlagen. Die Datei ist möglicherweise beschädigt.',
+    importNewerSchemaVersion: 'Import abgelehnt: Die Datei stammt aus einer neueren App-Version (Datenformat {{version}}). Bitte aktualisieren Sie die App und versuchen Sie es erneut.',
     importSuccess: 'Import erfolgreich!',
     appResetSuccess: 'Die App wurde zurückgesetzt.',
 
@@ -173,6 +454,45 @@ export const LANG_DE = {
     moodOrPreparationRequired: 'Bitte wählen Sie eine Stimmung oder ein Präparat aus.',
     dosageFieldsIncomplete: 'Für die Dosierung müssen Menge und Einheit angegeben werden, oder beide Felder leer sein.',
     invalidPreparationError: 'Bitte wählen Sie ein gültiges Präparat aus der Liste aus oder lassen Sie das Feld leer.',
+    entryEditConflict: 'Der Eintrag wurde zwischenzeitlich in einem anderen Tab geändert. Die Änderungen wurden zusammengeführt, bei Widersprüchen gilt Ihre Bearbeitung.',
+
+    // Undo / Redo
+    undo: 'Rückgängig',
+    redo: 'Wiederholen',
+    undoDone: 'Rückgängig gemacht: {{action}}',
+    redoDone: 'Wiederholt: {{action}}',
+    undoUnavailable: 'Das ist nicht mehr möglich, da inzwischen weitere Änderungen vorgenommen wurden.',
+    entryDeleted: 'Eintrag in den Papierkorb verschoben.',
+    itemDeleted: '"{{name}}" in den Papierkorb verschoben.',
+    mergeDuplicates: 'Duplikate zusammenführen',
+    mergeDuplicatesTitle: 'Duplikate zusammenführen: {{type}}',
+    mergeDuplicatesMessage: 'Alle Einträge und Präparate, die ein Duplikat verwenden, werden auf den verbleibenden Eintrag umgestellt. Danach werden die Duplikate gelöscht. Kopierte Beschreibungen in alten Einträgen bleiben erhalten.',
+    mergeSurvivor: 'Verbleibender Eintrag',
+    mergeSelectSurvivor: 'Bitte auswählen',
+    mergeDuplicatesSelect: 'Duplikate, die darin aufgehen:',
+    mergeAffectedEntries: '{{count}} Tagebucheinträge werden umgestellt.',
+    mergeDuplicatesConfirm: 'Zusammenführen',
+    itemsMerged: '{{count}} Duplikate in "{{name}}" zusammengeführt.',
+    archiveItem: 'Archivieren',
+    unarchiveItem: 'Aus dem Archiv holen',
+    archivedBadge: 'Archiviert',
+    showArchived: 'Archivierte anzeigen',
+    hideArchived: 'Archivierte ausblenden',
+    itemArchived: '"{{name}}" archiviert. Es wird bei neuen Einträgen nicht mehr angeboten.',
+    itemUnarchived: '"{{name}}" aus dem Archiv geholt.',
+    undoActionAddDiaryEntry: 'Eintrag angelegt',
+    undoActionUpdateDiaryEntry: 'Eintrag bearbeitet',
+    undoActionDeleteDiaryEntry: 'Eintrag gelöscht',
+    undoActionAddItem: 'Element angelegt',
+    undoActionUpdateItem: 'Element bearbeitet',
+    undoActionDeleteItem: 'Element gelöscht',
+    undoActionImportCsv: 'CSV-Import',
+    undoActionRestoreFromTrash: 'Aus dem Papierkorb wiederhergestellt',
+    undoActionMergeItems: 'Duplikate zusammengeführt',
+    undoActionArchiveItem: 'Archivierung geändert',
+    undoActionRepairIntegrity: 'Daten repariert',
+    undoActionBulkEditDiaryEntries: 'Einträge bearbeitet',
+    undoActionDeleteDiaryEntries: 'Einträge gelöscht',
     
     // Generic CRUD Form
     editTitle: 'Bearbeiten',
@@ -232,6 +552,23 @@ export const LANG_DE = {
     lightTheme: 'Hell',
     darkTheme: 'Dunkel',
 
+    // Profile Settings
+    profilesTitle: 'Profile',
+    defaultProfileName: 'Hauptprofil',
+    addProfile: 'Profil hinzufügen',
+    editProfile: 'Profil bearbeiten',
+    profileName: 'Name',
+    profileNamePlaceholder: 'z.B. Anna',
+    profileEmoji: 'Symbol',
+    profileSeparateCatalogs: 'Eigene Stammdaten verwenden',
+    profileSeparateCatalogsHint: 'Das Profil erhält eigene Präparate, Stimmungen, Effekte usw. statt der gemeinsamen. Dies lässt sich später nicht mehr ändern.',
+    profileOwnCatalogs: 'Eigene Stammdaten',
+    profileSharedCatalogs: 'Gemeinsame Stammdaten',
+    activeProfile: 'Aktiv',
+    switchProfile: 'Profil wechseln',
+    manageProfiles: 'Profile verwalten',
+    confirmDeleteProfileMessage: 'Möchten Sie das Profil "{{name}}" wirklich löschen? Alle Tagebucheinträge, Erinnerungen und eigenen Stammdaten des Profils werden endgültig gelöscht.',
+
     // Reminder Settings
     remindersTitle: 'Erinnerungen',
     addReminder: 'Erinnerung hinzufügen',
@@ -248,6 +585,7 @@ export const LANG_DE = {
     reminderErrorNoDays: 'Bitte wählen Sie mindestens einen Tag für die Erinnerung aus.',
     notificationTitle: 'Medikamententagebuch',
     notificationBody: 'Zeit für deinen Tagebucheintrag!',
+    notificationBodyProfile: 'Zeit für den Tagebucheintrag von {{profile}}!',
     notificationPermissionDenied: 'Benachrichtigungsberechtigung wurde verweigert. Bitte in den App-Einstellungen aktivieren.',
 
     // Security Settings
@@ -256,6 +594,12 @@ export const LANG_DE = {
     changePin: 'PIN ändern',
     change: 'Ändern',
     autoLock: 'Automatisch sperren',
+    encryptData: 'Daten verschlüsseln',
+    encryptDataHint: 'Tagebuch und Stammdaten werden mit einem aus der PIN abgeleiteten Schlüssel verschlüsselt gespeichert. Ohne PIN sind die Daten nicht wiederherstellbar.',
+    encryptionInProgress: 'Daten werden verschlüsselt…',
+    encryptionEnabled: 'Verschlüsselung aktiviert.',
+    encryptionDisabled: 'Verschlüsselung deaktiviert.',
+    encryptionFailed: 'Die Verschlüsselung konnte nicht geändert werden.',
     timeoutImmediately: 'Sofort',
     timeout1Minute: 'Nach 1 Minute',
     timeout5Minutes: 'Nach 5 Minuten',
@@ -283,13 +627,21 @@ export const LANG_DE = {
     duplicateDosageError: 'Eine Dosierung mit dieser Menge und Einheit existiert bereits.',
     duplicateActiveIngredientError: 'Ein Wirkstoffgehalt mit dieser Menge und Einheit existiert bereits.',
     duplicatePreparationError: 'Ein Präparat mit diesem Namen, Hersteller und Wirkstoffgehalt existiert bereits.',
+    preparationCompositionChanged: 'Die Zusammensetzung hat sich geändert.',
+    preparationNewRevision: 'Neue Version gültig ab',
+    preparationNewRevisionHint: 'Einträge vor diesem Tag behalten die bisherigen Inhaltsstoffe.',
+    preparationCorrection: 'Rückwirkend korrigieren',
+    preparationCorrectionHint: 'Alle Einträge, für die die geltende Version gilt, erhalten die neuen Inhaltsstoffe.',
+    preparationRevisionCount: '{{count}} Versionen der Zusammensetzung. Einträge behalten die Version, die bei der Einnahme galt.',
     duplicateIngredientError: 'Ein Inhaltsstoff mit diesem Namen existiert bereits.',
     duplicateCustomEmojiError: 'Dieses Emoji wurde bereits hinzugefügt.',
+    duplicateProfileError: 'Ein Profil mit diesem Namen existiert bereits.',
     invalidEmojiError: 'Bitte geben Sie ein einzelnes, gültiges Emoji ein.',
     // Form validation errors
     formErrorDescriptionRequired: 'Die Beschreibung ist ein Pflichtfeld.',
     formErrorEmojiRequired: 'Bitte wählen Sie ein Emoji aus.',
     formErrorNameRequired: 'Der Name ist ein Pflichtfeld.',
+    formErrorEffectiveFromInvalid: 'Die neue Version muss nach Beginn der geltenden Version beginnen.',
     formErrorDosageAmountRequired: 'Die Menge ist ein Pflichtfeld.',
     formErrorDosageUnitRequired: 'Die Einheit ist ein Pflichtfeld.',
     formErrorActiveIngredientAmountRequired: 'Die Wirkstoffmenge ist ein Pflichtfeld.',
@@ -20,6 +20,10 @@ export const LANG_EN = {
     noEntriesYetDescription: "Click the '+' icon to create your first entry.",
     loadMore: 'Load more',
     entryDetails: 'Entry Details',
+    entryCreatedAt: 'Recorded on',
+    entryModifiedAt: 'Last modified on',
+    entryHistory: 'Edit history',
+    historyDeletedItem: '(deleted)',
     date: 'Date',
     atTime: 'at',
     mood: 'Mood',
@@ -34,7 +38,7 @@ export const LANG_EN = {
     edit: 'Edit',
     delete: 'Delete',
     confirmDeleteTitle: 'Delete Entry?',
-    confirmDeleteMessage: 'Do you really want to permanently delete this entry?',
+    confirmDeleteMessage: 'Do you really want to delete this entry? It will be moved to the trash.',
     cancel: 'Cancel',
     confirmDeleteButton: 'Yes, delete',
     dosageLabelWithData: 'Dosage: {{amount}} {{unit}}',
@@ -50,6 +54,34 @@ export const LANG_EN = {
     noFilterResultsDescription: 'Try adjusting your search or filters.',
     daysSkippedSingular: '{{count}} day skipped',
     daysSkippedPlural: '{{count}} days skipped',
+    // Multi-select
+    selectEntries: 'Select',
+    selectionCount: '{{count}} selected',
+    selectAllFiltered: 'Select all filtered ({{count}})',
+    clearSelection: 'Clear selection',
+    exitSelection: 'Done',
+    exportSelection: 'Export as CSV',
+    bulkEditTitle: 'Edit {{count}} entries',
+    bulkAction: 'Action',
+    bulkActionSetPreparation: 'Change preparation',
+    bulkActionSetDosage: 'Change dosage',
+    bulkActionAddSymptom: 'Add symptom',
+    bulkActionRemoveSymptom: 'Remove symptom',
+    bulkActionAddActivity: 'Add activity',
+    bulkActionRemoveActivity: 'Remove activity',
+    bulkActionAddEffect: 'Add effect',
+    bulkActionRemoveEffect: 'Remove effect',
+    bulkActionShiftTime: 'Shift time',
+    bulkNoPreparation: 'No preparation',
+    bulkDosageHint: 'Leave empty to remove the dosage.',
+    bulkSelectItem: 'Please select',
+    bulkShiftHours: 'Shift in hours',
+    bulkShiftHint: 'Negative values move the entries to an earlier time, e.g. -1.5 for an hour and a half.',
+    bulkApply: 'Apply',
+    entriesBulkEdited: '{{count}} entries changed.',
+    entriesBulkDeleted: '{{count}} entries moved to the trash.',
+    confirmBulkDeleteTitle: 'Delete entries?',
+    confirmBulkDeleteMessage: 'Do you really want to delete the {{count}} selected entries? They will be moved to the trash.',
 
     // Emojis & Symbole
     emojiDiary: '💊',
@@ -84,11 +116,17 @@ export const LANG_EN = {
     emojiSettingsActiveIngredients: '🧪',
     emojiSettingsCustomEmojis: '✨',
     emojiSettingsReminders: '⏰',
+    emojiSettingsProfiles: '👥',
     emojiSettingsModules: '🧩',
     emojiSettingsSecurity: '🔒',
     emojiSettingsDesign: '🎨',
     emojiSettingsLanguage: '🌐',
     emojiSettingsData: '💾',
+    emojiSettingsBackup: '🗄️',
+    emojiSettingsSync: '☁️',
+    emojiSettingsTrash: '🗑️',
+    emojiSettingsStorage: '📦',
+    emojiSettingsRetention: '⏳',
 
     // Statistics Page
     statisticsTitle: 'Statistics',
@@ -125,12 +163,253 @@ export const LANG_EN = {
     dataManagement: 'Data Management',
     export: 'Export',
     import: 'Import',
+    exportEncrypted: 'Export encrypted',
+    exportEncryptedTitle: 'Encrypted backup',
+    exportEncryptedMessage: 'The backup will be encrypted with your passphrase. It cannot be restored without this passphrase.',
+    passphraseLabel: 'Passphrase',
+    passphraseConfirmLabel: 'Confirm passphrase',
+    passphraseErrorLength: 'The passphrase must be at least {{count}} characters long.',
+    passphraseErrorMismatch: 'The passphrases do not match.',
+    encryptedBackupPassphrasePrompt: 'This backup is encrypted. Please enter the passphrase.',
+    wrongPassphrase: 'Wrong passphrase.',
+    automaticBackup: 'Automatic backup',
+    enableAutomaticBackup: 'Back up automatically',
+    backupSchedule: 'Schedule',
+    backupScheduleDaily: 'Daily',
+    backupScheduleWeekly: 'Weekly',
+    backupScheduleChanges: 'After changes',
+    backupChangeThreshold: 'Number of changes',
+    backupKeep: 'Backups to keep',
+    lastBackup: 'Last backup: {{date}}',
+    noBackupYet: 'No backup has been created yet.',
+    backupNow: 'Back up now',
+    restoreBackup: 'Restore',
+    restoreBackupTitle: 'Restore backup',
+    restoreBackupHint: 'Encrypted backups (🔒) can be opened with the PIN that was set when the backup was created.',
+    backupEntryCount: '{{count}} entries',
+    backupCreated: 'Backup created.',
+    backupFailed: 'The backup could not be created.',
+    syncTitle: 'Sync',
+    syncHint: 'Keep the diary in sync between your devices using your own WebDAV server (e.g. Nextcloud). If the same record was changed on two devices, the more recent change wins.',
+    enableSync: 'Sync',
+    syncSetup: 'Set up',
+    syncNow: 'Sync now',
+    syncNotConfigured: 'Sync has not been set up yet.',
+    syncServer: 'Server: {{url}}',
+    lastSync: 'Last synced: {{date}}',
+    noSyncYet: 'Not synced yet.',
+    syncConflicts: 'During the last sync, {{count}} records had been changed on more than one device; the more recent change was kept each time.',
+    syncUrl: 'WebDAV folder',
+    syncUrlPlaceholder: 'https://cloud.example.org/remote.php/dav/files/name/Diary',
+    syncUrlHint: 'The folder must already exist. For the web app, the server must allow requests from this site (CORS).',
+    syncUsername: 'Username',
+    syncPassword: 'Password',
+    syncPassphrase: 'Passphrase (optional)',
+    syncPassphraseHint: 'Encrypts the data on the server. All devices must use the same passphrase.',
+    syncTestConnection: 'Test connection',
+    syncTestSuccess: 'The connection to the server works.',
+    syncUrlRequired: 'Please enter the address of the WebDAV folder.',
+    syncStatusIdle: 'Synced',
+    syncStatusPending: 'Changes not yet uploaded',
+    syncStatusSyncing: 'Syncing …',
+    syncStatusOffline: 'Offline – changes will be uploaded later',
+    syncStatusError: 'Sync failed',
+    syncErrorAuth: 'Signing in to the server failed. Please check username and password.',
+    syncErrorPassphrase: 'The data on the server is encrypted. Please enter the passphrase your other devices use.',
+    syncErrorNewerVersion: 'The data on the server was written by a newer app version. Please update the app.',
+    syncErrorServer: 'The server rejected the request or the sync file is invalid.',
+    syncErrorOffline: 'The server cannot be reached.',
+
+    // Trash
+    trashTitle: 'Trash',
+    trashHint: 'Deleted entries and catalog items go to the trash first. From there they can be restored together with their links.',
+    trashRetention: 'Keep for',
+    trashRetentionDays: '{{count}} days',
+    trashItemCount: 'Items in the trash: {{count}}',
+    openTrash: 'Open trash',
+    trashEmpty: 'The trash is empty.',
+    trashDeletedAt: 'deleted on {{date}}',
+    trashDiaryEntry: 'Diary entry',
+    trashRestoreHint: 'Restoring also re-links the entries and preparations whose reference was removed on deletion.',
+    restoreFromTrash: 'Restore',
+    restoredFromTrash: 'Restored.',
+    deletePermanently: 'Delete permanently',
+    emptyTrash: 'Empty trash',
+    emptyTrashTitle: 'Empty trash?',
+    emptyTrashMessage: 'All items in the trash will be permanently deleted.',
+
+    // Storage
+    storageTitle: 'Storage',
+    storageHint: 'Your data is stored only on this device. When space runs low, empty the trash or back up and delete old entries.',
+    storageUsage: '{{used}} of {{quota}} used ({{percent}}%)',
+    storageFree: 'Free: {{free}}',
+    storageEstimateUnavailable: 'The browser does not report how much storage is available.',
+    storageShowDetails: 'Usage by category',
+    storageHideDetails: 'Hide details',
+    storageCategoryDiaryEntries: 'Diary entries',
+    storageCategoryCatalog: 'Master data',
+    storageCategoryReminders: 'Reminders',
+    storageCategoryTrash: 'Trash',
+    storageCategorySettings: 'Profiles & settings',
+    storageCategoryOther: 'Other (e.g. backups)',
+    storageWarning: 'Storage is running low. Free up space before changes can no longer be saved.',
+    storageCriticalWarning: 'Storage is almost full. Empty the trash or back up and delete old entries.',
+    storageDetails: 'Details',
+    storageWriteFailed: 'Changes could not be saved. They are kept as long as the app stays open.',
+    storageWriteFailedQuota: 'Storage is full, changes could not be saved. They are kept as long as the app stays open. Free up space and save again.',
+    storageRetry: 'Save again',
+    storageUnsaved: 'There are unsaved changes. Export a backup before closing the app.',
+
+    // Retention
+    retentionTitle: 'Retention',
+    retentionHint: 'Choose how long entries and notes of all profiles are kept. The policy is checked on every start; before anything is removed, a preview shows what is affected. Removed data can only be restored from a backup.',
+    retentionKeepEntries: 'Keep entries',
+    retentionKeepNotes: 'Keep notes',
+    retentionUnlimited: 'Forever',
+    retentionPeriodMonth: '1 month',
+    retentionPeriodMonths: '{{count}} months',
+    retentionPeriodYear: '1 year',
+    retentionPeriodYears: '{{count}} years',
+    retentionBackupFirst: 'Create a backup first',
+    retentionSave: 'Apply',
+    retentionSaved: 'Retention saved.',
+    retentionPreviewTitle: 'Preview: retention',
+    retentionPreviewDeleted: '{{count}} entries will be deleted permanently:',
+    retentionPreviewStripped: 'The note will be removed from {{count}} entries:',
+    retentionPreviewMore: '… and {{count}} more',
+    retentionPreviewBackup: 'A backup will be created first.',
+    retentionPreviewNoBackup: 'No backup will be created. The removed data cannot be restored.',
+    retentionApply: 'Apply and remove',
+    retentionPurged: '{{deleted}} entries deleted, {{notes}} notes removed.',
+    retentionBackupFailed: 'The backup failed, so nothing was removed.',
+    retentionLog: 'Log',
+    retentionLogEntry: '{{date}}: {{deleted}} entries deleted, {{notes}} notes removed',
+    retentionLogBackup: 'with backup',
+
+    // Data integrity check
+    integrityCheck: 'Check data',
+    integrityTitle: 'Data integrity check',
+    integrityHint: 'Checks the data of all profiles for references to missing items, duplicate IDs, invalid dates and malformed reminders.',
+    integrityNoIssues: 'No problems found.',
+    integrityIssueCount: '{{count}} problems found, {{repairable}} of them can be repaired automatically.',
+    integrityDanglingReference: 'References a missing item ({{value}}).',
+    integrityDuplicateId: 'The ID {{value}} is used more than once.',
+    integrityInvalidDate: 'Invalid date ({{value}}).',
+    integrityMalformedReminder: 'Invalid value in reminder ({{value}}).',
+    integrityRepairRemoveReference: 'Remove reference',
+    integrityRepairRemoveDuplicate: 'Remove identical copy',
+    integrityRepairAssignNewId: 'Assign new ID',
+    integrityRepairUseCreatedAt: 'Use creation time',
+    integrityRepairRemoveField: 'Remove field',
+    integrityRepairUseNow: 'Set current time',
+    integrityRepairRemoveInvalidDays: 'Remove invalid weekdays',
+    integrityRepairDeleteRecord: 'Delete record',
+    integrityManualFix: 'Can only be fixed manually',
+    integrityRepair: 'Repair',
+    integrityRepairAll: 'Repair all',
+    integrityExportReport: 'Export report',
+    integrityRepaired: '{{count}} problems repaired.',
+    integrityReportCheckedAt: 'Checked on {{date}}',
+    integrityReportRepair: 'Repair: {{repair}}',
+
+    exportCsv: 'Export CSV',
+    exportCsvTitle: 'Export diary as CSV',
+    exportCsvMessage: 'Exports the entries with resolved names for spreadsheets. Without a date range, the whole diary is exported.',
+    dateRangeFrom: 'From',
+    dateRangeTo: 'To',
+    csvDate: 'Date',
+    csvTime: 'Time',
+    csvMood: 'Mood',
+    csvPreparation: 'Preparation',
+    csvManufacturer: 'Manufacturer',
+    csvActiveIngredient: 'Active ingredient',
+    csvDosage: 'Dosage',
+    csvEffects: 'Effects',
+    csvSymptoms: 'Symptoms',
+    csvActivities: 'Activities',
+    csvIngredients: 'Ingredients',
+    csvNote: 'Note',
+    csvCreatedAt: 'Recorded on',
+    csvModifiedAt: 'Modified on',
+    csvHistory: 'Edit history',
+    csvIncludeHistory: 'Include edit history',
+    importCsv: 'Import CSV',
+    csvImportTitle: 'Import CSV file',
+    csvImportMappingHint: 'Assign a field to each column. Unknown preparations, moods, effects, symptoms and activities are created automatically.',
+    csvHasHeader: 'First row contains column names',
+    csvDecimalSeparator: 'Decimal separator of the dosage:',
+    csvDecimalComma: 'Comma (1,5 mg; 1.000 mg)',
+    csvDecimalPoint: 'Point (1.5 mg; 1,000 mg)',
+    csvColumn: 'Column {{number}}',
+    csvRow: 'Row {{number}}',
+    csvIgnoreColumn: '– ignore –',
+    csvDateTime: 'Date & time',
+    csvRowCount: '{{count}} rows found.',
+    csvDateColumnRequired: 'Please assign a column to the date.',
+    csvImportSummary: '{{imported}} entries imported, {{skipped}} rows skipped.',
+    csvImportCreated: 'Created automatically',
+    csvImportSkipped: 'Skipped rows',
+    csvSkippedInvalidDate: 'Invalid date or time.',
+    csvImportSuccess: '{{count}} entries imported.',
+    exportFhir: 'Export FHIR',
+    exportReport: 'Doctor report (PDF)',
+    exportReportTitle: 'Create doctor report',
+    exportReportMessage: 'Creates a printable report for your doctor. The report is generated entirely on this device. Without a date range, the whole diary is included.',
+    reportIncludeNotes: 'Include notes',
+    reportTitle: 'Medication Diary – Doctor Report',
+    reportProfile: 'Profile: {{name}}',
+    reportPeriod: 'Period: {{from}} to {{to}}',
+    reportCreatedAt: 'Created on: {{date}}',
+    reportEntryCount: 'Entries in period: {{count}}',
+    reportNoEntries: 'There are no entries in the selected period.',
+    reportNoData: 'No data in the selected period.',
+    reportIntakeTitle: 'Intake per preparation',
+    reportIntakes: 'Intakes',
+    reportIntakeDays: 'Days',
+    reportDosageTotal: 'Total dose',
+    reportMoodTitle: 'Mood distribution',
+    reportCount: 'Count',
+    reportShare: 'Share',
+    reportTopPreparations: 'Most frequent preparations',
+    reportEffectsTitle: 'Most frequent effects',
+    reportPerception: 'Perception',
+    reportSymptomsTitle: 'Most frequent symptoms',
+    reportNotesTitle: 'Notes',
+    reportPage: 'Page {{page}} of {{count}}',
     resetApp: 'Reset App',
     confirmDeleteItemTitle: 'Delete item?',
-    confirmDeleteItemMessage: 'Do you really want to permanently delete "{{name}}"?',
+    confirmDeleteItemMessage: 'Do you really want to delete "{{name}}"? The item will be moved to the trash.',
+    deleteImpactEntries: 'Used in {{count}} diary entries. Deleting removes the link there.',
+    deleteImpactPreparations: 'Used in {{count}} preparations. Deleting removes the link there.',
+    deleteImpactShow: 'Show',
+    deleteImpactHide: 'Hide',
+    deleteReassignTo: 'Transfer links to',
+    deleteReassignNone: 'Do not transfer, remove links',
+    deleteReassignButton: 'Transfer and delete',
+    deleteAnywayButton: 'Delete anyway',
     confirmImportTitle: 'Import data?',
     confirmImportMessage: 'Do you really want to import data? All current data will be overwritten.',
     confirmImportButton: 'Yes, import',
+    importModeReplace: 'Replace',
+    importModeMerge: 'Merge',
+    importModeMergeHint: 'New entries and catalog items are added, existing ones are kept. Items with the same name are not duplicated.',
+    importFhirHint: 'FHIR bundles are always merged with the existing data.',
+    mergeSummaryTitle: 'Import summary',
+    mergeSummaryEntries: 'Diary entries',
+    mergeAdded: 'New',
+    mergeUpdated: 'Updated',
+    mergeSkipped: 'Skipped',
+    mergeNothingToImport: 'The backup does not contain any data.',
+    mergeConfirmButton: 'Yes, merge',
+    validationReportTitle: 'Problems in the import file',
+    validationReportSummary: '{{valid}} of {{total}} records are valid. Invalid records and settings will not be imported.',
+    importValidRecordsButton: 'Import valid records only',
+    validationInvalidRoot: 'The file does not contain a valid backup.',
+    validationRequired: 'Required field is missing.',
+    validationInvalidType: 'Wrong data type (expected: {{expected}}).',
+    validationInvalidValue: 'Invalid value (expected: {{expected}}).',
+    validationDuplicateId: 'The ID {{expected}} occurs more than once.',
+    validationUnknownReference: 'Reference to a missing or invalid record {{expected}}.',
     resetWarningTitle: 'WARNING',
     resetWarningMessage: 'This will delete ALL your data and reset the app to its default state. This action cannot be undone. Continue?',
     continue: 'Continue',
@@ -140,7 +419,9 @@ export const LANG_EN = {
     // alerts
     backupSavedSuccess: 'Backup was successfully saved to your "Documents" folder as:\n{{fileName}}',
     backupSavedError: 'Error saving backup.',
+    fileSavedSuccess: 'File was successfully saved to your "Documents" folder as:\n{{fileName}}',
     importFailed: 'Import failed. The file might be corrupt.',
+    importNewerSchemaVersion: 'Import refused: the file was created by a newer app version (data format {{version}}). Please update the app and try again.',
     importSuccess: 'Import successful!',
     appResetSuccess: 'The app has been reset.',
 
@@ -173,6 +454,45 @@ export const LANG_EN = {
     moodOrPreparationRequired: 'Please select a mood or a preparation.',
     dosageFieldsIncomplete: 'For dosage, either both amount and unit must be provided, or both must be empty.',
     invalidPreparationError: 'Please select a valid preparation from the list or leave the field empty.',
+    entryEditConflict: 'This entry was changed in another tab in the meantime. The changes were merged; where they contradict, your edit was kept.',
+
+    // Undo / Redo
+    undo: 'Undo',
+    redo: 'Redo',
+    undoDone: 'Undone: {{action}}',
+    redoDone: 'Redone: {{action}}',
+    undoUnavailable: 'This is no longer possible because further changes have been made in the meantime.',
+    entryDeleted: 'Entry moved to the trash.',
+    itemDeleted: '"{{name}}" moved to the trash.',
+    mergeDuplicates: 'Merge duplicates',
+    mergeDuplicatesTitle: 'Merge duplicates: {{type}}',
+    mergeDuplicatesMessage: 'All entries and preparations that use a duplicate are switched to the remaining item. The duplicates are deleted afterwards. Copied descriptions in old entries are kept.',
+    mergeSurvivor: 'Remaining item',
+    mergeSelectSurvivor: 'Please select',
+    mergeDuplicatesSelect: 'Duplicates to merge into it:',
+    mergeAffectedEntries: '{{count}} diary entries will be updated.',
+    mergeDuplicatesConfirm: 'Merge',
+    itemsMerged: '{{count}} duplicates merged into "{{name}}".',
+    archiveItem: 'Archive',
+    unarchiveItem: 'Unarchive',
+    archivedBadge: 'Archived',
+    showArchived: 'Show archived',
+    hideArchived: 'Hide archived',
+    itemArchived: '"{{name}}" archived. It is no longer offered for new entries.',
+    itemUnarchived: '"{{name}}" unarchived.',
+    undoActionAddDiaryEntry: 'Entry added',
+    undoActionUpdateDiaryEntry: 'Entry edited',
+    undoActionDeleteDiaryEntry: 'Entry deleted',
+    undoActionAddItem: 'Item added',
+    undoActionUpdateItem: 'Item edited',
+    undoActionDeleteItem: 'Item deleted',
+    undoActionImportCsv: 'CSV import',
+    undoActionRestoreFromTrash: 'Restored from trash',
+    undoActionMergeItems: 'Duplicates merged',
+    undoActionArchiveItem: 'Archive state changed',
+    undoActionRepairIntegrity: 'Data repaired',
+    undoActionBulkEditDiaryEntries: 'Entries edited',
+    undoActionDeleteDiaryEntries: 'Entries deleted',
     
     // Generic CRUD Form
     editTitle: 'Edit',
@@ -232,6 +552,23 @@ export const LANG_EN = {
     lightTheme: 'Light',
     darkTheme: 'Dark',
 
+    // Profile Settings
+    profilesTitle: 'Profiles',
+    defaultProfileName: 'Main profile',
+    addProfile: 'Add profile',
+    editProfile: 'Edit profile',
+    profileName: 'Name',
+    profileNamePlaceholder: 'e.g. Anna',
+    profileEmoji: 'Icon',
+    profileSeparateCatalogs: 'Use separate catalogs',
+    profileSeparateCatalogsHint: 'The profile gets its own preparations, moods, effects etc. instead of the shared ones. This cannot be changed later.',
+    profileOwnCatalogs: 'Own catalogs',
+    profileSharedCatalogs: 'Shared catalogs',
+    activeProfile: 'Active',
+    switchProfile: 'Switch profile',
+    manageProfiles: 'Manage profiles',
+    confirmDeleteProfileMessage: 'Do you really want to delete the profile "{{name}}"? All diary entries, reminders and own catalogs of the profile will be permanently deleted.',
+
     // Reminder Settings
     remindersTitle: 'Reminders',
     addReminder: 'Add Reminder',
@@ -248,6 +585,7 @@ export const LANG_EN = {
     reminderErrorNoDays: 'Please select at least one day for the reminder.',
     notificationTitle: 'Medicine Diary',
     notificationBody: "Time for your diary entry!",
+    notificationBodyProfile: "Time for {{profile}}'s diary entry!",
     notificationPermissionDenied: 'Notification permission was denied. Please enable it in the app settings.',
 
     // Security Settings
@@ -256,6 +594,12 @@ export const LANG_EN = {
     changePin: 'Change PIN',
     change: 'Change',
     autoLock: 'Auto-lock',
+    encryptData: 'Encrypt data',
+    encryptDataHint: 'Diary and catalog data are stored encrypted with a key derived from your PIN. Without the PIN, the data cannot be recovered.',
+    encryptionInProgress: 'Encrypting data…',
+    encryptionEnabled: 'Encryption enabled.',
+    encryptionDisabled: 'Encryption disabled.',
+    encryptionFailed: 'Encryption could not be changed.',
     timeoutImmediately: 'Immediately',
     timeout1Minute: 'After 1 minute',
     timeout5Minutes: 'After 5 minutes',
@@ -283,13 +627,21 @@ export const LANG_EN = {
     duplicateDosageError: 'A dosage with this amount and unit already exists.',
     duplicateActiveIngredientError: 'An active ingredient with this amount and unit already exists.',
     duplicatePreparationError: 'A preparation with this name, manufacturer, and active ingredient already exists.',
+    preparationCompositionChanged: 'The composition has changed.',
+    preparationNewRevision: 'New version effective from',
+    preparationNewRevisionHint: 'Entries before this day keep the previous ingredients.',
+    preparationCorrection: 'Correct retroactively',
+    preparationCorrectionHint: 'All entries covered by the current version receive the new ingredients.',
+    preparationRevisionCount: '{{count}} versions of the composition. Entries keep the version that applied when they were taken.',
     duplicateIngredientError: 'An ingredient with this name already exists.',
     duplicateCustomEmojiError: 'This emoji has already been added.',
+    duplicateProfileError: 'A profile with this name already exists.',
     invalidEmojiError: 'Please enter a single, valid emoji.',
     // Form validation errors
     formErrorDescriptionRequired: 'Description is a required field.',
     formErrorEmojiRequired: 'Please select an emoji.',
     formErrorNameRequired: 'Name is a required field.',
+    formErrorEffectiveFromInvalid: 'The new version must start after the current version.',
     formErrorDosageAmountRequired: 'Amount is a required field.',
     formErrorDosageUnitRequired: 'Unit is a required field.',
     formErrorActiveIngredientAmountRequired: 'Active ingredient amount is a required field.',
@@ -0,0 +1,213 @@
+import { CatalogItem, DiaryEntry, DiaryEntryChange, DiaryEntryHistoryField, Dosage, Effect, Mood, Preparation } from './models';
+import { PersistedState } from './services/storage.service';
+import { SchemaPayload } from './migrations';
+
+/**
+ * Zusammenführen eines Backups mit den vorhandenen Daten.
+ *
+ * Datensätze werden über ihre ID vereinigt. Stammdaten, die unter einer anderen ID, aber mit
+ * gleichem Namen (bzw. gleicher Menge und Einheit) bereits vorhanden sind, werden nicht doppelt
+ * angelegt; stattdessen werden alle Verweise im Backup auf den vorhandenen Datensatz umgebogen.
+ * Duplikate werden nur innerhalb desselben Profils bzw. der gemeinsamen Stammdaten gesucht.
+ */
+
+/**
+ * Die Sammlungen, die beim Zusammenführen berücksichtigt werden.
+ * Die Reihenfolge entspricht der Verarbeitung, damit Verweise bereits umgebogen werden können.
+ */
+export const MERGE_COLLECTIONS = [
+  'profiles',
+  'manufacturers',
+  'dosages',
+  'activeIngredients',
+  'ingredients',
+  'preparations',
+  'moods',
+  'effects',
+  'symptoms',
+  'activities',
+  'diaryEntries',
+  'reminders',
+  'customEmojis',
+] as const;
+
+export type MergeCollection = typeof MERGE_COLLECTIONS[number];
+
+/**
+ * Anzahl der neu hinzugefügten, aktualisierten und übersprungenen Datensätze einer Sammlung.
+ * Übersprungen werden unveränderte Datensätze und Duplikate vorhandener Stammdaten.
+ */
+export interface MergeCounts {
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export type MergeState = Pick<PersistedState, MergeCollection>;
+
+/**
+ * Ergebnis eines Zusammenführens: der neue Zustand und die Zusammenfassung je Sammlung.
+ */
+export interface MergeResult {
+  state: MergeState;
+  summary: Record<MergeCollection, MergeCounts>;
+}
+
+type IdMap = Map<string, string>;
+
+/**
+ * Führt die importierten Daten mit dem lokalen Zustand zusammen, ohne diesen zu verändern.
+ * Bei gleicher ID und abweichendem Inhalt gewinnt der importierte Datensatz.
+ * @param local Der aktuelle lokale Zustand.
+ * @param imported Die bereits auf die aktuelle Schema-Version migrierten Importdaten.
+ */
+export function mergeImport(local: MergeState, imported: SchemaPayload): MergeResult {
+  const idMaps: Record<string, IdMap> = {};
+  const remap = (collection: string, id: string) => idMaps[collection]?.get(id) ?? id;
+  const remapAll = (collection: string, ids: string[] | undefined) =>
+    ids && [...new Set(ids.map(id => remap(collection, id)))];
+  const items = <T>(name: MergeCollection): T[] => Array.isArray(imported[name]) ? imported[name] : [];
+
+  const state = {} as Record<MergeCollection, unknown[]>;
+  const summary = {} as Record<MergeCollection, MergeCounts>;
+  const merge = <T extends { id: string }>(
+    name: MergeCollection,
+    naturalKey: ((item: T) => string) | null,
+    transform: (item: T) => T = item => item
+  ) => {
+    idMaps[name] = new Map();
+    const scopedKey = naturalKey && ((item: T) => `${(item as CatalogItem).profileId ?? ''}|${naturalKey(item)}`);
+    const result = mergeCollection(local[name] as unknown as T[], items<T>(name).map(transform), scopedKey, idMaps[name]);
+    state[name] = result.items;
+    summary[name] = result.counts;
+  };
+
+  merge<{ id: string }>('profiles', null);
+  merge<{ id: string; name: string }>('manufacturers', item => normalize(item.name));
+  merge<{ id: string; amount: number; unit: string }>('dosages', item => `${item.amount}|${normalize(item.unit)}`);
+  merge<{ id: string; amount: string; unit: string }>('activeIngredients', item => `${normalize(item.amount)}|${normalize(item.unit)}`);
+  merge<{ id: string; name: string }>('ingredients', item => normalize(item.name));
+  merge<Preparation>('preparations', item => normalize(item.name), prep => ({
+    ...prep,
+    manufacturerId: prep.manufacturerId && remap('manufacturers', prep.manufacturerId),
+    activeIngredientId: prep.activeIngredientId && remap('activeIngredients', prep.activeIngredientId),
+    dosageId: prep.dosageId && remap('dosages', prep.dosageId),
+    ingredientIds: remapAll('ingredients', prep.ingredientIds),
+    revisions: prep.revisions?.map(revision => ({
+      ...revision,
+      activeIngredientId: revision.activeIngredientId && remap('activeIngredients', revision.activeIngredientId),
+      ingredientIds: remapAll('ingredients', revision.ingredientIds),
+    })),
+  }));
+  merge<{ id: string; description: string }>('moods', item => normalize(item.description));
+  merge<{ id: string; description: string }>('effects', item => normalize(item.description));
+  merge<{ id: string; description: string }>('symptoms', item => normalize(item.description));
+  merge<{ id: string; description: string }>('activities', item => normalize(item.description));
+  // Alte und neue Werte im Bearbeitungsverlauf verweisen ebenso auf Stammdaten.
+  const remapHistoryValue = (field: DiaryEntryHistoryField, value: unknown): unknown => {
+    if (value === undefined) return value;
+    switch (field) {
+      case 'mood': return { ...(value as Mood), id: remap('moods', (value as Mood).id) };
+      case 'dosage': return { ...(value as Dosage), id: remap('dosages', (value as Dosage).id) };
+      case 'effects': return (value as Effect[]).map(effect => ({ ...effect, id: remap('effects', effect.id) }));
+      case 'preparationId': return remap('preparations', value as string);
+      case 'symptomIds': return remapAll('symptoms', value as string[]);
+      case 'activityIds': return remapAll('activities', value as string[]);
+      default: return value;
+    }
+  };
+  merge<DiaryEntry>('diaryEntries', null, entry => ({
+    ...entry,
+    // Stimmung, Dosierung und Effekte sind Kopien, deren IDs für die Statistik ebenfalls angepasst werden.
+    mood: entry.mood && { ...entry.mood, id: remap('moods', entry.mood.id) },
+    dosage: entry.dosage && { ...entry.dosage, id: remap('dosages', entry.dosage.id) },
+    effects: (entry.effects ?? []).map(effect => ({ ...effect, id: remap('effects', effect.id) })),
+    preparationId: entry.preparationId && remap('preparations', entry.preparationId),
+    symptomIds: remapAll('symptoms', entry.symptomIds),
+    activityIds: remapAll('activities', entry.activityIds),
+    ingredientIds: remapAll('ingredients', entry.ingredientIds),
+    revisions: entry.revisions?.map(revision => ({
+      ...revision,
+      changes: revision.changes.map(change => ({
+        ...change,
+        before: remapHistoryValue(change.field, change.before),
+        after: remapHistoryValue(change.field, change.after),
+      }) as DiaryEntryChange),
+    })),
+  }));
+  merge<{ id: string; time: string; days: number[] }>('reminders', item => `${item.time}|${[...item.days].sort().join(',')}`);
+
+  const emojis = new Set(local.customEmojis);
+  const importedEmojis = items<string>('customEmojis').filter(emoji => typeof emoji === 'string');
+  const newEmojis = [...new Set(importedEmojis.filter(emoji => !emojis.has(emoji)))];
+  state.customEmojis = [...local.customEmojis, ...newEmojis];
+  summary.customEmojis = { added: newEmojis.length, updated: 0, skipped: importedEmojis.length - newEmojis.length };
+
+  return { state: state as unknown as MergeState, summary };
+}
+
+/**
+ * Führt eine einzelne Sammlung zusammen. Duplikate über den fachlichen Schlüssel werden
+ * in `idMap` auf den vorhandenen Datensatz abgebildet.
+ */
+function mergeCollection<T extends { id: string }>(
+  local: T[],
+  imported: T[],
+  naturalKey: ((item: T) => string) | null,
+  idMap: IdMap
+): { items: T[]; counts: MergeCounts } {
+  const counts: MergeCounts = { added: 0, updated: 0, skipped: 0 };
+  const items = [...local];
+  const indexById = new Map(items.map((item, index) => [item.id, index]));
+  const byKey = new Map(naturalKey ? items.map(item => [naturalKey(item), item]) : []);
+
+  for (const item of imported) {
+    const index = indexById.get(item.id);
+    if (index !== undefined) {
+      if (isDeepEqual(stripUndefined(items[index]), stripUndefined(item))) {
+        counts.skipped++;
+      } else {
+        items[index] = stripUndefined(item);
+        counts.updated++;
+      }
+      continue;
+    }
+
+    const duplicate = naturalKey ? byKey.get(naturalKey(item)) : undefined;
+    if (duplicate) {
+      idMap.set(item.id, duplicate.id);
+      counts.skipped++;
+      continue;
+    }
+
+    const added = stripUndefined(item);
+    indexById.set(added.id, items.push(added) - 1);
+    if (naturalKey) byKey.set(naturalKey(added), added);
+    counts.added++;
+  }
+  return { items, counts };
+}
+
+function normalize(value: string | undefined): string {
+  return (value ?? '').trim().toLocaleLowerCase();
+}
+
+/**
+ * Entfernt Felder mit dem Wert `undefined`, die beim Umbiegen der Verweise entstehen.
+ */
+function stripUndefined<T extends object>(item: T): T {
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)) as T;
+}
+
+/**
+ * Vergleicht zwei JSON-artige Werte strukturell.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every(key => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
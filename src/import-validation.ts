@@ -0,0 +1,325 @@
+import { SchemaPayload } from './migrations';
+import { CATALOG_COLLECTIONS } from './references';
+import { HISTORY_FIELDS } from './entry-history';
+
+/**
+ * Strikte Prüfung importierter Daten gegen das Exportformat der aktuellen Schema-Version.
+ *
+ * Jedes Problem wird mit seinem Pfad (z.B. `diaryEntries[3].effects[0].perception`) gemeldet.
+ * Ungültige Datensätze werden aus den gültigen Daten entfernt, sodass wahlweise nur die gültigen
+ * Datensätze übernommen werden können. Verweise auf ungültige oder fehlende Datensätze machen
+ * den verweisenden Datensatz ebenfalls ungültig.
+ */
+
+export type ValidationIssueCode = 'invalidRoot' | 'required' | 'invalidType' | 'invalidValue' | 'duplicateId' | 'unknownReference';
+
+/**
+ * Ein einzelnes Problem in den Importdaten. `expected` beschreibt je nach Code den erwarteten
+ * Typ bzw. Wert oder die ID, auf die verwiesen wird.
+ */
+export interface ValidationIssue {
+  path: string;
+  code: ValidationIssueCode;
+  expected?: string;
+}
+
+/**
+ * Ergebnis der Prüfung.
+ */
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  /**
+   * Die Importdaten ohne ungültige Datensätze und Einstellungen.
+   */
+  validData: SchemaPayload;
+  totalRecords: number;
+  validRecords: number;
+}
+
+interface Check {
+  (value: unknown, path: string, issues: ValidationIssue[]): void;
+  optional?: boolean;
+}
+
+// --- Bausteine ---
+
+const typed = (expected: string, test: (value: unknown) => boolean): Check =>
+  (value, path, issues) => {
+    if (!test(value)) issues.push({ path, code: 'invalidType', expected });
+  };
+
+const string = typed('string', value => typeof value === 'string');
+const number = typed('number', value => typeof value === 'number' && Number.isFinite(value));
+const boolean = typed('boolean', value => typeof value === 'boolean');
+
+const id: Check = (value, path, issues) => {
+  if (typeof value !== 'string') {
+    issues.push({ path, code: 'invalidType', expected: 'string' });
+  } else if (value.trim() === '') {
+    issues.push({ path, code: 'required' });
+  }
+};
+
+const matching = (expected: string, test: (value: string) => boolean): Check =>
+  (value, path, issues) => {
+    if (typeof value !== 'string') {
+      issues.push({ path, code: 'invalidType', expected: 'string' });
+    } else if (!test(value)) {
+      issues.push({ path, code: 'invalidValue', expected });
+    }
+  };
+
+const oneOf = (values: readonly (string | number)[]): Check =>
+  (value, path, issues) => {
+    if (!values.includes(value as string | number)) {
+      issues.push({ path, code: 'invalidValue', expected: values.join(' | ') });
+    }
+  };
+
+const optional = (check: Check): Check => Object.assign(
+  (value: unknown, path: string, issues: ValidationIssue[]) => check(value, path, issues),
+  { optional: true }
+);
+
+const arrayOf = (check: Check): Check =>
+  (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({ path, code: 'invalidType', expected: 'array' });
+      return;
+    }
+    value.forEach((item, index) => check(item, `${path}[${index}]`, issues));
+  };
+
+const object = (fields: Record<string, Check>): Check =>
+  (value, path, issues) => {
+    if (!isObject(value)) {
+      issues.push({ path, code: 'invalidType', expected: 'object' });
+      return;
+    }
+    for (const [key, check] of Object.entries(fields)) {
+      const fieldPath = path ? `${path}.${key}` : key;
+      if (value[key] === undefined) {
+        if (!check.optional) issues.push({ path: fieldPath, code: 'required' });
+        continue;
+      }
+      check(value[key], fieldPath, issues);
+    }
+  };
+
+// --- Schema ---
+
+// Gemeinsame Felder aller Stammdaten, siehe `CatalogItem`.
+const owner = { profileId: optional(id), archived: optional(boolean) };
+const describedEntity = { id, ...owner, description: string, emoji: string };
+const mood = object(describedEntity);
+const effect = object({ ...describedEntity, perception: oneOf(['positive', 'negative', 'neutral']) });
+const dosage = object({ id, ...owner, amount: number, unit: string });
+
+const isoDateTime = matching('ISO 8601', value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value)));
+// Fristen in Tagen, `null` für unbegrenzt.
+const days = typed('number | null', value => value === null || (typeof value === 'number' && Number.isFinite(value)));
+const time = matching('HH:mm', value => /^([01]\d|2[0-3]):[0-5]\d$/.test(value));
+const weekday: Check = (value, path, issues) => {
+  if (!Number.isInteger(value)) {
+    issues.push({ path, code: 'invalidType', expected: 'integer' });
+  } else {
+    oneOf([1, 2, 3, 4, 5, 6, 7])(value, path, issues);
+  }
+};
+
+const SETTINGS: Record<string, Check> = {
+  theme: oneOf(['light', 'dark']),
+  language: oneOf(['de', 'en']),
+  lockSettings: object({ isEnabled: boolean, pin: optional(typed('string | null', value => value === null || typeof value === 'string')), timeout: number }),
+  moduleSettings: object({
+    showMood: optional(boolean),
+    showDosage: optional(boolean),
+    showSymptoms: optional(boolean),
+    showActivities: optional(boolean),
+    showEffects: optional(boolean),
+    showNote: optional(boolean),
+    showDateGaps: optional(boolean),
+    showIngredients: optional(boolean),
+  }),
+  backupSettings: object({
+    isEnabled: boolean,
+    schedule: oneOf(['daily', 'weekly', 'changes']),
+    changeThreshold: number,
+    keep: number,
+  }),
+  trashSettings: object({ retentionDays: number }),
+  retentionSettings: object({ deleteEntriesAfterDays: days, stripNotesAfterDays: days, backupFirst: boolean }),
+  activeProfileId: id,
+};
+
+/**
+ * Die Sammlungen in Prüfreihenfolge: Verweise zeigen immer auf vorher geprüfte Sammlungen.
+ */
+const COLLECTIONS: { name: string; check: Check; references?: Record<string, string> }[] = [
+  // Verweise auf Profile werden nicht geprüft: Fehlende Profile werden beim Übernehmen angelegt.
+  { name: 'profiles', check: object({ id, name: string, emoji: string, separateCatalogs: boolean }) },
+  { name: 'moods', check: mood },
+  { name: 'effects', check: effect },
+  { name: 'symptoms', check: object(describedEntity) },
+  { name: 'activities', check: object(describedEntity) },
+  { name: 'manufacturers', check: object({ id, ...owner, name: string }) },
+  { name: 'dosages', check: dosage },
+  { name: 'activeIngredients', check: object({ id, ...owner, amount: string, unit: string }) },
+  { name: 'ingredients', check: object({ id, ...owner, name: string }) },
+  {
+    name: 'preparations',
+    check: object({
+      id,
+      ...owner,
+      name: string,
+      manufacturerId: optional(id),
+      activeIngredientId: optional(id),
+      dosageId: optional(id),
+      ingredientIds: optional(arrayOf(id)),
+      // Frühere Versionen dürfen wie Momentaufnahmen auf inzwischen gelöschte Stammdaten zeigen.
+      revisions: optional(arrayOf(object({
+        id,
+        effectiveFrom: optional(isoDateTime),
+        activeIngredientId: optional(id),
+        ingredientIds: optional(arrayOf(id)),
+      }))),
+    }),
+    references: { manufacturerId: 'manufacturers', activeIngredientId: 'activeIngredients', dosageId: 'dosages', ingredientIds: 'ingredients' },
+  },
+  {
+    name: 'diaryEntries',
+    check: object({
+      id,
+      profileId: id,
+      datetime: isoDateTime,
+      mood: optional(mood),
+      preparationId: optional(id),
+      dosage: optional(dosage),
+      effects: arrayOf(effect),
+      symptomIds: optional(arrayOf(id)),
+      activityIds: optional(arrayOf(id)),
+      note: optional(string),
+      // Inhaltsstoffe sind eine Momentaufnahme und dürfen auf inzwischen gelöschte Inhaltsstoffe zeigen.
+      ingredientIds: optional(arrayOf(id)),
+      preparationRevisionId: optional(id),
+      createdAt: optional(isoDateTime),
+      modifiedAt: optional(isoDateTime),
+      // Alte Werte im Verlauf dürfen auf inzwischen gelöschte Stammdaten zeigen.
+      revisions: optional(arrayOf(object({
+        modifiedAt: isoDateTime,
+        changes: arrayOf(object({ field: oneOf(HISTORY_FIELDS) })),
+      }))),
+    }),
+    references: { preparationId: 'preparations', symptomIds: 'symptoms', activityIds: 'activities' },
+  },
+  { name: 'reminders', check: object({ id, profileId: id, time, days: arrayOf(weekday) }) },
+  // Gelöschte Datensätze werden wie ihre Sammlung geprüft, ihre Verweise jedoch nicht.
+  { name: 'trash', check: trashItem },
+];
+
+const TRASH_ENTITIES = ['DiaryEntry', 'CustomEmoji', ...Object.keys(CATALOG_COLLECTIONS)];
+
+function trashItem(value: unknown, path: string, issues: ValidationIssue[]) {
+  object({
+    id,
+    profileId: id,
+    entityType: oneOf(TRASH_ENTITIES),
+    deletedAt: isoDateTime,
+    record: typed('object | string', record => typeof record === 'string' || isObject(record)),
+    unlinkedIds: optional(arrayOf(id)),
+  })(value, path, issues);
+  if (!isObject(value) || value['record'] === undefined) return;
+
+  const type = value['entityType'];
+  const recordPath = `${path}.record`;
+  if (type === 'CustomEmoji') {
+    string(value['record'], recordPath, issues);
+    return;
+  }
+  const collection = type === 'DiaryEntry' ? 'diaryEntries' : CATALOG_COLLECTIONS[type as keyof typeof CATALOG_COLLECTIONS];
+  COLLECTIONS.find(c => c.name === collection)?.check(value['record'], recordPath, issues);
+}
+
+/**
+ * Prüft migrierte Importdaten.
+ * @param data Die bereits auf die aktuelle Schema-Version angehobenen Daten.
+ */
+export function validateImport(data: unknown): ValidationReport {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(data)) {
+    issues.push({ path: '', code: 'invalidRoot' });
+    return { issues, validData: {}, totalRecords: 0, validRecords: 0 };
+  }
+
+  const validData: SchemaPayload = { ...data };
+  for (const [key, check] of Object.entries(SETTINGS)) {
+    if (data[key] === undefined) continue;
+    const settingIssues: ValidationIssue[] = [];
+    check(data[key], key, settingIssues);
+    if (settingIssues.length > 0) {
+      issues.push(...settingIssues);
+      delete validData[key];
+    }
+  }
+
+  if (data['customEmojis'] !== undefined) {
+    const emojiIssues: ValidationIssue[] = [];
+    arrayOf(string)(data['customEmojis'], 'customEmojis', emojiIssues);
+    issues.push(...emojiIssues);
+    const emojis = data['customEmojis'];
+    validData['customEmojis'] = Array.isArray(emojis)
+      ? emojis.filter((emoji: unknown): emoji is string => typeof emoji === 'string')
+      : [];
+  }
+
+  let totalRecords = 0;
+  let validRecords = 0;
+  const validIds: Record<string, Set<string>> = {};
+  for (const { name, check, references } of COLLECTIONS) {
+    const ids = validIds[name] = new Set<string>();
+    const records = data[name];
+    if (records === undefined) continue;
+    if (!Array.isArray(records)) {
+      issues.push({ path: name, code: 'invalidType', expected: 'array' });
+      validData[name] = [];
+      continue;
+    }
+
+    validData[name] = records.filter((record: unknown, index) => {
+      totalRecords++;
+      const path = `${name}[${index}]`;
+      const recordIssues: ValidationIssue[] = [];
+      check(record, path, recordIssues);
+      // Nur ein bestandener Datensatz ist ein Objekt mit ID; die Verweise sind dann IDs.
+      if (recordIssues.length > 0 || !isObject(record) || typeof record['id'] !== 'string') {
+        issues.push(...recordIssues);
+        return false;
+      }
+      const recordId = record['id'];
+      if (ids.has(recordId)) {
+        recordIssues.push({ path: `${path}.id`, code: 'duplicateId', expected: recordId });
+      }
+      for (const [field, target] of Object.entries(references ?? {})) {
+        const value = record[field];
+        const referenced: unknown[] = value === undefined ? [] : Array.isArray(value) ? value : [value];
+        referenced.forEach((refId, refIndex) => {
+          if (typeof refId === 'string' && !validIds[target].has(refId)) {
+            const refPath = Array.isArray(value) ? `${path}.${field}[${refIndex}]` : `${path}.${field}`;
+            recordIssues.push({ path: refPath, code: 'unknownReference', expected: refId });
+          }
+        });
+      }
+      issues.push(...recordIssues);
+      if (recordIssues.length > 0) return false;
+      ids.add(recordId);
+      validRecords++;
+      return true;
+    });
+  }
+
+  return { issues, validData, totalRecords, validRecords };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
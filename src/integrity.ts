@@ -0,0 +1,191 @@
+import { PersistedState, CollectionName, COLLECTION_NAMES } from './services/storage.service';
+import { DiaryEntry, Reminder, TrashItem } from './models';
+import { CATALOG_COLLECTIONS, CATALOG_REFERENCES, CatalogReference, removeReference } from './references';
+import { isDeepEqual } from './import-merge';
+
+/**
+ * Prüfung des gespeicherten Zustands auf Inkonsistenzen.
+ *
+ * Anders als die Importprüfung betrifft sie Daten, die bereits übernommen wurden, z.B. Verweise
+ * auf Stammdaten, die nach einem teilweisen Import fehlen. Jedes Problem wird wie bei der
+ * Importprüfung mit seinem Pfad (z.B. `diaryEntries[3].preparationId`) gemeldet und bringt, wo
+ * möglich, eine Reparatur mit.
+ */
+
+export type IntegrityIssueCode = 'danglingReference' | 'duplicateId' | 'invalidDate' | 'malformedReminder';
+
+/**
+ * Die Reparatur eines Problems:
+ * - `removeReference`: Den Verweis aufheben.
+ * - `removeDuplicate`: Die inhaltsgleiche Kopie entfernen.
+ * - `assignNewId`: Dem abweichenden Datensatz eine neue ID geben.
+ * - `useCreatedAt`: Den Erfassungszeitpunkt als Datum übernehmen.
+ * - `removeField`: Das ungültige Feld entfernen.
+ * - `useNow`: Den aktuellen Zeitpunkt setzen.
+ * - `removeInvalidDays`: Ungültige und doppelte Wochentage entfernen.
+ * - `deleteRecord`: Den Datensatz löschen.
+ */
+export type IntegrityRepair = 'removeReference' | 'removeDuplicate' | 'assignNewId' | 'useCreatedAt' | 'removeField' | 'useNow' | 'removeInvalidDays' | 'deleteRecord';
+
+export interface IntegrityIssue {
+  code: IntegrityIssueCode;
+  collection: CollectionName;
+  /**
+   * Die Position des Datensatzes in seiner Sammlung. Bei doppelten IDs unterscheidet nur sie die Datensätze.
+   */
+  index: number;
+  id: string;
+  /**
+   * Das betroffene Feld, bei doppelten IDs `id`.
+   */
+  field: string;
+  /**
+   * Der fehlerhafte Wert, z.B. die ID, auf die verwiesen wird.
+   */
+  value?: string;
+  /**
+   * Die mögliche Reparatur oder `null`, wenn sich das Problem nur von Hand beheben lässt.
+   */
+  repair: IntegrityRepair | null;
+  path: string;
+}
+
+export type IntegrityRecords = Pick<PersistedState, CollectionName>;
+
+/**
+ * Verweise von Tagebucheinträgen auf Inhaltsstoffe. Als Momentaufnahme dürfen sie auch auf
+ * Inhaltsstoffe im Papierkorb zeigen.
+ */
+const ENTRY_INGREDIENTS: CatalogReference = { collection: 'diaryEntries', field: 'ingredientIds', isList: true };
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Prüft alle Sammlungen auf doppelte IDs, Verweise ins Leere, ungültige Datumsangaben und
+ * fehlerhafte Erinnerungen.
+ */
+export function checkIntegrity(records: IntegrityRecords): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const issue = (code: IntegrityIssueCode, collection: CollectionName, index: number, field: string, repair: IntegrityRepair | null, value?: string) => {
+    issues.push({ code, collection, index, id: (records[collection][index] as { id: string }).id, field, value, repair, path: `${collection}[${index}].${field}` });
+  };
+
+  for (const collection of COLLECTION_NAMES) {
+    const firstById = new Map<string, unknown>();
+    (records[collection] as { id: string }[]).forEach((record, index) => {
+      const first = firstById.get(record.id);
+      if (first === undefined) {
+        firstById.set(record.id, record);
+      } else {
+        issue('duplicateId', collection, index, 'id', isDeepEqual(first, record) ? 'removeDuplicate' : 'assignNewId', record.id);
+      }
+    });
+  }
+
+  for (const [entityType, reference] of Object.entries(CATALOG_REFERENCES)) {
+    const targets = new Set((records[CATALOG_COLLECTIONS[entityType as keyof typeof CATALOG_COLLECTIONS]] as { id: string }[]).map(item => item.id));
+    checkReferences(records, reference, targets, issue);
+  }
+  const trashedIngredients = records.trash
+    .filter(item => item.entityType === 'Ingredient')
+    .map(item => (item.record as { id: string }).id);
+  checkReferences(records, ENTRY_INGREDIENTS, new Set([...records.ingredients.map(i => i.id), ...trashedIngredients]), issue);
+
+  records.diaryEntries.forEach((entry, index) => {
+    if (!isValidDate(entry.datetime)) issue('invalidDate', 'diaryEntries', index, 'datetime', isValidDate(entry.createdAt) ? 'useCreatedAt' : null, entry.datetime);
+    for (const field of ['createdAt', 'modifiedAt'] as const) {
+      if (entry[field] !== undefined && !isValidDate(entry[field])) issue('invalidDate', 'diaryEntries', index, field, 'removeField', entry[field]);
+    }
+  });
+  records.trash.forEach((item, index) => {
+    if (!isValidDate(item.deletedAt)) issue('invalidDate', 'trash', index, 'deletedAt', 'useNow', item.deletedAt);
+  });
+
+  records.reminders.forEach((reminder, index) => {
+    if (typeof reminder.time !== 'string' || !TIME_PATTERN.test(reminder.time)) {
+      issue('malformedReminder', 'reminders', index, 'time', 'deleteRecord', String(reminder.time));
+    } else if (!Array.isArray(reminder.days) || !isDeepEqual(reminder.days, validDays(reminder.days))) {
+      issue('malformedReminder', 'reminders', index, 'days', validDays(reminder.days).length > 0 ? 'removeInvalidDays' : 'deleteRecord', JSON.stringify(reminder.days));
+    }
+  });
+
+  return issues;
+}
+
+function checkReferences(
+  records: IntegrityRecords,
+  reference: CatalogReference,
+  targets: ReadonlySet<string>,
+  issue: (code: IntegrityIssueCode, collection: CollectionName, index: number, field: string, repair: IntegrityRepair, value: string) => void,
+) {
+  (records[reference.collection] as unknown as Record<string, unknown>[]).forEach((record, index) => {
+    const value = record[reference.field];
+    const ids = reference.isList ? (Array.isArray(value) ? value : []) : value === undefined ? [] : [value];
+    for (const id of ids) {
+      if (!targets.has(id as string)) issue('danglingReference', reference.collection, index, reference.field, 'removeReference', id as string);
+    }
+  });
+}
+
+/**
+ * Wendet die Reparaturen der Probleme an. Probleme ohne Reparatur werden übergangen.
+ * @param issues Die Probleme aus `checkIntegrity` für genau diese Datensätze.
+ * @param newId Erzeugt die neuen IDs.
+ * @param now Der aktuelle Zeitpunkt (ISO 8601).
+ * @returns Die reparierten Datensätze. Unveränderte Sammlungen und Datensätze behalten ihre Referenz.
+ */
+export function repairIntegrity(records: IntegrityRecords, issues: IntegrityIssue[], newId: () => string, now: string): IntegrityRecords {
+  const repaired = { ...records };
+  for (const collection of COLLECTION_NAMES) {
+    const repairs = issues.filter(issue => issue.collection === collection && issue.repair);
+    if (repairs.length === 0) continue;
+
+    const removed = new Set<number>();
+    const items = [...records[collection]] as { id: string }[];
+    for (const issue of repairs) {
+      const item = items[issue.index];
+      switch (issue.repair) {
+        case 'removeReference': {
+          const reference = issue.field === 'ingredientIds' && collection === 'diaryEntries'
+            ? ENTRY_INGREDIENTS
+            : Object.values(CATALOG_REFERENCES).find(r => r.collection === collection && r.field === issue.field)!;
+          items[issue.index] = removeReference(item as DiaryEntry, reference, issue.value!);
+          break;
+        }
+        case 'removeDuplicate':
+        case 'deleteRecord':
+          removed.add(issue.index);
+          break;
+        case 'assignNewId':
+          items[issue.index] = { ...item, id: newId() };
+          break;
+        case 'useCreatedAt':
+          items[issue.index] = { ...item, datetime: (item as DiaryEntry).createdAt } as DiaryEntry;
+          break;
+        case 'removeField':
+          items[issue.index] = { ...item, [issue.field]: undefined };
+          break;
+        case 'useNow':
+          items[issue.index] = { ...item, deletedAt: now } as TrashItem;
+          break;
+        case 'removeInvalidDays':
+          items[issue.index] = { ...item, days: validDays((item as Reminder).days) } as Reminder;
+          break;
+      }
+    }
+    (repaired as Record<CollectionName, unknown[]>)[collection] = items.filter((_, index) => !removed.has(index));
+  }
+  return repaired;
+}
+
+function isValidDate(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+/**
+ * Die gültigen Wochentage (1–7) einer Erinnerung, ohne Duplikate und in ihrer Reihenfolge.
+ */
+function validDays(days: unknown): number[] {
+  if (!Array.isArray(days)) return [];
+  return days.filter((day, index) => Number.isInteger(day) && day >= 1 && day <= 7 && days.indexOf(day) === index);
+}
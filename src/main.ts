@@ -6,11 +6,12 @@ import '@angular/compiler';
 
 import { bootstrapApplication } from '@angular/platform-browser';
 // FIX: Replaced deprecated `provideExperimentalZonelessChangeDetection` with `provideZonelessChangeDetection`.
-import { provideZonelessChangeDetection } from '@angular/core';
+import { provideZonelessChangeDetection, provideAppInitializer, inject } from '@angular/core';
 import { registerLocaleData } from '@angular/common';
 import localeDe from '@angular/common/locales/de';
 
 import { AppComponent } from './app.component';
+import { DataService } from './services/data.service';
 
 // Registriert die deutschen Lokalisierungsdaten, damit die DatePipe sie verwenden kann.
 registerLocaleData(localeDe);
@@ -23,5 +24,7 @@ bootstrapApplication(AppComponent, {
     // `provideZonelessChangeDetection` aktiviert die neue, zoneless
     // Change Detection Strategie von Angular.
     provideZonelessChangeDetection(),
+    // Lädt die gespeicherten Daten (IndexedDB ist asynchron), bevor die Oberfläche erstellt wird.
+    provideAppInitializer(() => inject(DataService).init()),
   ],
 }).catch((err) => console.error(err)); // Fehler beim Starten der App werden in der Konsole ausgegeben.
\ No newline at end of file
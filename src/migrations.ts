@@ -0,0 +1,121 @@
+/**
+ * Versionierung des persistierten und exportierten Datenformats.
+ *
+ * Jede Änderung an der Struktur in `models.ts` (oder an den Einstellungen) erhöht
+ * `CURRENT_SCHEMA_VERSION` und bringt einen neuen Migrationsschritt mit, der Daten der
+ * Vorversion in die neue Struktur überführt. Die Schritte werden beim Laden der lokalen
+ * Daten und beim Import von Backups der Reihe nach angewendet.
+ *
+ * Wichtig: Migrationsschritte dürfen nach ihrer Veröffentlichung nicht mehr verändert werden
+ * und verwenden deshalb keine aktuellen Konstanten der App, sondern ihre eigenen Werte.
+ */
+
+/**
+ * Die Schema-Version, die diese App-Version schreibt und versteht.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
+/**
+ * Ein rohes, noch nicht typisiertes Daten-Objekt (lokaler Zustand oder Backup-Datei).
+ */
+export type SchemaPayload = Record<string, unknown>;
+
+/**
+ * Ein einzelner Migrationsschritt, der Daten auf `version` anhebt.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: SchemaPayload) => SchemaPayload;
+}
+
+/**
+ * Wird geworfen, wenn die Daten aus einer neueren App-Version stammen.
+ */
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`Schema version ${version} is newer than the supported version ${CURRENT_SCHEMA_VERSION}`);
+    this.name = 'UnsupportedSchemaVersionError';
+  }
+}
+
+/**
+ * Registry aller Migrationsschritte, aufsteigend nach Version sortiert.
+ * Daten ohne `schemaVersion` stammen aus der Zeit vor der Versionierung und gelten als Version 0.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Versionierung eingeführt: Standardwerte für Einstellungen und fehlende Effekt-Listen ergänzen',
+    migrate: (data) => ({
+      ...data,
+      lockSettings: data['lockSettings'] ?? { isEnabled: false, pin: null, timeout: 0 },
+      moduleSettings: {
+        showMood: true,
+        showDosage: true,
+        showSymptoms: true,
+        showActivities: true,
+        showEffects: true,
+        showNote: true,
+        showDateGaps: true,
+        showIngredients: true,
+        ...(isRecord(data['moduleSettings']) ? data['moduleSettings'] : {}),
+      },
+      ...(Array.isArray(data['diaryEntries']) && {
+        diaryEntries: data['diaryEntries'].map((entry: unknown) =>
+          isRecord(entry) && !Array.isArray(entry['effects']) ? { ...entry, effects: [] } : entry
+        ),
+      }),
+    }),
+  },
+  {
+    version: 2,
+    description: 'Profile eingeführt: vorhandene Tagebucheinträge und Erinnerungen dem Standardprofil zuordnen',
+    migrate: (data) => {
+      const result = { ...data };
+      for (const name of ['diaryEntries', 'reminders']) {
+        const items = data[name];
+        if (!Array.isArray(items)) continue;
+        result[name] = items.map((item: unknown) =>
+          isRecord(item) && typeof item['profileId'] !== 'string' ? { ...item, profileId: 'default' } : item
+        );
+      }
+      return result;
+    },
+  },
+];
+
+/**
+ * Ermittelt die Schema-Version eines Daten-Objekts.
+ */
+export function getSchemaVersion(data: SchemaPayload): number {
+  const version = data['schemaVersion'];
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0;
+}
+
+/**
+ * Hebt ein Daten-Objekt auf die aktuelle Schema-Version an.
+ * Unveränderte Datensätze behalten ihre Objekt-Referenz, damit beim anschließenden
+ * Speichern nur tatsächlich migrierte Datensätze geschrieben werden.
+ * @param data Die zu migrierenden Daten.
+ * @returns Die migrierten Daten mit gesetzter `schemaVersion`.
+ * @throws UnsupportedSchemaVersionError, wenn die Daten neuer als die App sind.
+ */
+export function migrateToCurrent(data: SchemaPayload): SchemaPayload {
+  const fromVersion = getSchemaVersion(data);
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(fromVersion);
+  }
+
+  let migrated = data;
+  for (const step of MIGRATIONS) {
+    if (step.version > fromVersion) {
+      migrated = { ...step.migrate(migrated), schemaVersion: step.version };
+    }
+  }
+  return { ...migrated, schemaVersion: CURRENT_SCHEMA_VERSION };
+}
+
+function isRecord(value: unknown): value is SchemaPayload {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -13,10 +13,35 @@ export type CrudEntity = 'Mood' | 'Effect' | 'Manufacturer' | 'Dosage' | 'Active
  */
 export type Page = 'diary' | 'stats' | 'settings' | 'info';
 
+/**
+ * Repräsentiert ein Profil, z.B. ein Familienmitglied. Jedes Profil hat eigene Tagebucheinträge
+ * und Erinnerungen. Mit `separateCatalogs` verwendet es statt der gemeinsamen Stammdaten eigene.
+ */
+export interface Profile {
+  id: string;
+  name: string;
+  emoji: string;
+  separateCatalogs: boolean;
+}
+
+/**
+ * Gemeinsame Felder aller Stammdaten.
+ */
+export interface CatalogItem {
+  /**
+   * Das Profil, zu dessen eigenen Stammdaten der Datensatz gehört. Fehlt bei gemeinsamen Stammdaten.
+   */
+  profileId?: string;
+  /**
+   * Archivierte Datensätze werden bei der Erfassung nicht mehr zur Auswahl angeboten.
+   */
+  archived?: boolean;
+}
+
 /**
  * Repräsentiert eine Stimmung mit einer Beschreibung und einem zugehörigen Emoji.
  */
-export interface Mood {
+export interface Mood extends CatalogItem {
   id: string;
   description: string;
   emoji: string;
@@ -25,7 +50,7 @@ export interface Mood {
 /**
  * Repräsentiert ein Symptom mit einer Beschreibung und einem zugehörigen Emoji.
  */
-export interface Symptom {
+export interface Symptom extends CatalogItem {
   id: string;
   description: string;
   emoji: string;
@@ -34,7 +59,7 @@ export interface Symptom {
 /**
  * Repräsentiert eine Aktivität mit einer Beschreibung und einem zugehörigen Emoji.
  */
-export interface Activity {
+export interface Activity extends CatalogItem {
   id: string;
   description: string;
   emoji: string;
@@ -43,7 +68,7 @@ export interface Activity {
 /**
  * Repräsentiert einen Effekt/eine Auswirkung mit Beschreibung, Emoji und einer Wahrnehmung.
  */
-export interface Effect {
+export interface Effect extends CatalogItem {
   id: string;
   description: string;
   emoji: string;
@@ -53,7 +78,7 @@ export interface Effect {
 /**
  * Repräsentiert einen Hersteller eines Präparats.
  */
-export interface Manufacturer {
+export interface Manufacturer extends CatalogItem {
   id: string;
   name: string;
 }
@@ -61,7 +86,7 @@ export interface Manufacturer {
 /**
  * Repräsentiert eine spezifische Dosierung (Menge und Einheit).
  */
-export interface Dosage {
+export interface Dosage extends CatalogItem {
   id: string;
   amount: number;
   unit: string;
@@ -71,7 +96,7 @@ export interface Dosage {
  * Repräsentiert den Wirkstoffgehalt (Menge und Einheit).
  * Die Menge ist ein String, um flexible Eingaben wie "10-20" zu ermöglichen.
  */
-export interface ActiveIngredient {
+export interface ActiveIngredient extends CatalogItem {
   id: string;
   amount: string;
   unit: string;
@@ -80,7 +105,7 @@ export interface ActiveIngredient {
 /**
  * Repräsentiert einen Inhaltsstoff eines Präparats.
  */
-export interface Ingredient {
+export interface Ingredient extends CatalogItem {
   id: string;
   name: string;
 }
@@ -88,13 +113,25 @@ export interface Ingredient {
 /**
  * Repräsentiert ein medizinisches Präparat. Kann optional mit Hersteller, Wirkstoff und Standard-Dosierung verknüpft werden.
  */
-export interface Preparation {
+export interface Preparation extends CatalogItem {
   id: string;
   name: string;
   manufacturerId?: string;
   activeIngredientId?: string;
   dosageId?: string;
   ingredientIds?: string[];
+  revisions?: PreparationRevision[]; // Versionen der Zusammensetzung, älteste zuerst
+}
+
+/**
+ * Eine Version der Zusammensetzung eines Präparats, z.B. nach einer neuen Rezeptur des Herstellers.
+ * Die jüngste Version entspricht der aktuellen Zusammensetzung des Präparats.
+ */
+export interface PreparationRevision {
+  id: string;
+  effectiveFrom?: string; // ISO 8601, fehlt bei der ersten Version
+  activeIngredientId?: string;
+  ingredientIds?: string[];
 }
 
 /**
@@ -104,6 +141,7 @@ export interface Preparation {
  */
 export interface DiaryEntry {
   id: string;
+  profileId: string;
   datetime: string; // ISO 8601 format
   mood?: Mood; // Copied entity, now optional
   preparationId?: string;
@@ -113,6 +151,30 @@ export interface DiaryEntry {
   activityIds?: string[]; // Referenced entities
   note?: string;
   ingredientIds?: string[]; // Snapshot of ingredients
+  preparationRevisionId?: string; // Version des Präparats, die bei der Einnahme galt
+  createdAt?: string; // ISO 8601, fehlt bei Einträgen aus älteren Versionen
+  modifiedAt?: string; // ISO 8601, Zeitpunkt der letzten Bearbeitung
+  revisions?: DiaryEntryRevision[]; // Bearbeitungsverlauf, älteste zuerst
+}
+
+/**
+ * Die Felder eines Tagebucheintrags, deren Änderungen im Bearbeitungsverlauf festgehalten werden.
+ */
+export type DiaryEntryHistoryField = 'datetime' | 'mood' | 'preparationId' | 'dosage' | 'effects' | 'symptomIds' | 'activityIds' | 'note';
+
+/**
+ * Die Änderung eines Feldes mit altem und neuem Wert. Fehlt ein Wert, war das Feld nicht gesetzt.
+ */
+export type DiaryEntryChange = {
+  [F in DiaryEntryHistoryField]: { field: F; before?: DiaryEntry[F]; after?: DiaryEntry[F] };
+}[DiaryEntryHistoryField];
+
+/**
+ * Eine Bearbeitung eines Tagebucheintrags mit den dabei geänderten Feldern.
+ */
+export interface DiaryEntryRevision {
+  modifiedAt: string; // ISO 8601
+  changes: DiaryEntryChange[];
 }
 
 /**
@@ -120,6 +182,31 @@ export interface DiaryEntry {
  */
 export interface Reminder {
   id: string;
+  profileId: string;
   time: string; // "HH:mm" format
   days: number[]; // Wochentage, an denen wiederholt wird (1=So, 2=Mo, ..., 7=Sa)
-}
\ No newline at end of file
+}
+/**
+ * Typen der Datensätze, die beim Löschen in den Papierkorb wandern.
+ */
+export type TrashEntity = CrudEntity | 'DiaryEntry';
+
+/**
+ * Ein gelöschter Datensatz im Papierkorb. Er gehört zum Profil, in dem er gelöscht wurde,
+ * und wird nach Ablauf der Aufbewahrungsfrist endgültig entfernt.
+ */
+export interface TrashItem {
+  id: string;
+  profileId: string;
+  entityType: TrashEntity;
+  deletedAt: string; // ISO 8601 format
+  /**
+   * Der gelöschte Datensatz; bei eigenen Emojis das Emoji selbst.
+   */
+  record: { id: string } | string;
+  /**
+   * Die Tagebucheinträge bzw. Präparate, deren Verweis auf den Datensatz beim Löschen
+   * aufgehoben wurde. Beim Wiederherstellen werden sie erneut verknüpft.
+   */
+  unlinkedIds?: string[];
+}
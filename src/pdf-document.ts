@@ -0,0 +1,281 @@
+/**
+ * Ein minimaler PDF-Generator (PDF 1.4) für einfache Textberichte.
+ *
+ * Unterstützt Überschriften, Absätze und Tabellen mit automatischem Zeilen- und Seitenumbruch.
+ * Verwendet werden ausschließlich die Standardschriften Helvetica und Helvetica-Bold, die jeder
+ * PDF-Betrachter mitbringt; dadurch entsteht das Dokument vollständig auf dem Gerät und ohne
+ * eingebettete Schriften. Zeichen außerhalb von WinAnsi (z.B. Emojis) werden ausgelassen.
+ */
+
+/**
+ * Eine Tabellenspalte. Die Breite ist ein Anteil an der verfügbaren Seitenbreite.
+ */
+export interface PdfColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// A4 im Hochformat, Maße in Punkt.
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 30;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CELL_PADDING = 4;
+const LINE_SPACING = 1.3;
+
+/**
+ * Zeichenbreiten (in 1/1000 der Schriftgröße) für die ASCII-Zeichen 32 bis 126.
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * Zeichen außerhalb von Latin-1, die in WinAnsi an anderer Stelle liegen.
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(private title: string) {
+    this.addPage();
+  }
+
+  /**
+   * Fügt eine Überschrift hinzu. Ebene 1 ist der Dokumenttitel, Ebene 2 eine Abschnittsüberschrift.
+   */
+  heading(text: string, level: 1 | 2 = 2) {
+    const size = level === 1 ? 18 : 13;
+    this.ensureSpace(size * LINE_SPACING * 3);
+    this.y += level === 1 ? 0 : size * 0.8;
+    this.writeLines(wrapText(text, CONTENT_WIDTH, size, true), MARGIN, size, true);
+    this.y += size * 0.3;
+  }
+
+  /**
+   * Fügt einen Absatz mit automatischem Zeilenumbruch hinzu.
+   */
+  paragraph(text: string, size = 10) {
+    for (const line of text.split('\n')) {
+      this.writeLines(wrapText(line, CONTENT_WIDTH, size, false), MARGIN, size, false);
+    }
+    this.y += size * 0.4;
+  }
+
+  /**
+   * Fügt eine Tabelle hinzu. Bei einem Seitenumbruch wird die Kopfzeile wiederholt.
+   */
+  table(columns: PdfColumn[], rows: string[][], size = 9) {
+    const totalWidth = columns.reduce((sum, column) => sum + column.width, 0);
+    const widths = columns.map(column => column.width / totalWidth * CONTENT_WIDTH);
+    const lineHeight = size * LINE_SPACING;
+
+    const layout = (cells: string[], bold: boolean) => {
+      const lines = cells.map((cell, i) => wrapText(cell, widths[i] - 2 * CELL_PADDING, size, bold));
+      return { lines, height: Math.max(1, ...lines.map(l => l.length)) * lineHeight + 2 * CELL_PADDING };
+    };
+    const header = layout(columns.map(column => column.header), true);
+
+    const drawRow = (row: ReturnType<typeof layout>, bold: boolean) => {
+      const top = this.y;
+      if (bold) {
+        this.content.push(`0.92 g ${fmt(MARGIN)} ${fmt(PAGE_HEIGHT - top - row.height)} ${fmt(CONTENT_WIDTH)} ${fmt(row.height)} re f 0 g`);
+      }
+      let x = MARGIN;
+      row.lines.forEach((lines, i) => {
+        lines.forEach((line, n) => {
+          const lineWidth = textWidth(line, size, bold);
+          const textX = columns[i].align === 'right' ? x + widths[i] - CELL_PADDING - lineWidth : x + CELL_PADDING;
+          this.drawText(line, textX, top + CELL_PADDING + n * lineHeight + size, size, bold);
+        });
+        x += widths[i];
+      });
+      this.y = top + row.height;
+      this.content.push(`0.75 G 0.5 w ${fmt(MARGIN)} ${fmt(PAGE_HEIGHT - this.y)} m ${fmt(MARGIN + CONTENT_WIDTH)} ${fmt(PAGE_HEIGHT - this.y)} l S 0 G`);
+    };
+
+    this.ensureSpace(header.height * 2);
+    drawRow(header, true);
+    for (const cells of rows) {
+      const row = layout(cells, false);
+      if (this.y + row.height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+        this.addPage();
+        drawRow(header, true);
+      }
+      drawRow(row, false);
+    }
+    this.y += size;
+  }
+
+  /**
+   * Erzeugt die PDF-Datei.
+   * @param footer Liefert den Fußzeilentext für die jeweilige Seite (ab 1).
+   */
+  toBytes(footer?: (page: number, pageCount: number) => string): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // Feste Objektnummern: 1 Katalog, 2 Seitenbaum, 3 und 4 Schriften, 5 Dokumentinfo, danach je Seite Seite und Inhalt.
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title ${pdfString(this.title)} /Producer (Medikamententagebuch) /CreationDate ${pdfString(pdfDate(new Date()))} >>`;
+
+    this.pages.forEach((content, i) => {
+      const ops = [...content];
+      if (footer) {
+        const text = encodeWinAnsi(footer(i + 1, pageCount));
+        ops.push(`0.4 g BT /F1 8 Tf ${fmt(MARGIN)} ${fmt(MARGIN - 10)} Td ${pdfString(text, true)} Tj ET 0 g`);
+      }
+      const stream = ops.join('\n');
+      objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(PAGE_WIDTH)} ${fmt(PAGE_HEIGHT)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+      objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+
+    // Alle Inhalte sind Ein-Byte-Zeichen, daher entsprechen String-Längen den Byte-Offsets.
+    let pdf = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = pdf.length;
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(pdf.length);
+    for (let i = 0; i < pdf.length; i++) {
+      bytes[i] = pdf.charCodeAt(i);
+    }
+    return bytes;
+  }
+
+  private get content(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private addPage() {
+    this.pages.push([]);
+    this.y = MARGIN;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      this.addPage();
+    }
+  }
+
+  private writeLines(lines: string[], x: number, size: number, bold: boolean) {
+    const lineHeight = size * LINE_SPACING;
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.drawText(line, x, this.y + size, size, bold);
+      this.y += lineHeight;
+    }
+  }
+
+  /**
+   * Schreibt eine bereits WinAnsi-kodierte Zeile. `top` ist die Grundlinie, von oben gemessen.
+   */
+  private drawText(text: string, x: number, top: number, size: number, bold: boolean) {
+    if (!text) return;
+    this.content.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${fmt(x)} ${fmt(PAGE_HEIGHT - top)} Td ${pdfString(text, true)} Tj ET`);
+  }
+}
+
+/**
+ * Kodiert einen Text nach WinAnsi (ein Zeichen je Byte). Nicht darstellbare Zeichen entfallen.
+ */
+function encodeWinAnsi(text: string): string {
+  let result = '';
+  for (const char of text.replace(/\s/g, ' ')) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code < 0x7F) || (code >= 0xA0 && code <= 0xFF)) {
+      result += char;
+    } else if (WIN_ANSI_EXTRAS[char]) {
+      result += String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+    }
+  }
+  return result.replace(/ {2,}/g, ' ').trim();
+}
+
+function textWidth(encoded: string, size: number, bold: boolean): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let width = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    // Für Umlaute und Sonderzeichen genügt eine durchschnittliche Breite.
+    width += widths[code - 32] ?? (bold ? 611 : 556);
+  }
+  return width * size / 1000;
+}
+
+/**
+ * Bricht einen Text in Zeilen der angegebenen Breite um. Zu lange Wörter werden hart getrennt.
+ * @returns Die bereits WinAnsi-kodierten Zeilen.
+ */
+function wrapText(text: string, maxWidth: number, size: number, bold: boolean): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (let word of encodeWinAnsi(text).split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (textWidth(candidate, size, bold) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    while (textWidth(word, size, bold) > maxWidth && word.length > 1) {
+      let cut = word.length - 1;
+      while (cut > 1 && textWidth(word.slice(0, cut), size, bold) > maxWidth) cut--;
+      lines.push(word.slice(0, cut));
+      word = word.slice(cut);
+    }
+    line = word;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Erzeugt einen PDF-Stringliteral. Klammern und Backslashes werden maskiert.
+ */
+function pdfString(text: string, encoded = false): string {
+  const value = encoded ? text : encodeWinAnsi(text);
+  return `(${value.replace(/[\\()]/g, char => `\\${char}`)})`;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function fmt(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
@@ -0,0 +1,94 @@
+import { DiaryEntry, Preparation, PreparationRevision } from './models';
+import { isDeepEqual } from './import-merge';
+import { normalize } from './entry-merge';
+
+/**
+ * Versionen der Zusammensetzung eines Präparats.
+ *
+ * Ändert sich die Zusammensetzung (Wirkstoff, Inhaltsstoffe), z.B. durch eine neue Rezeptur,
+ * gilt sie als neue Version ab einem Stichtag. Einträge verweisen auf die Version, die bei der
+ * Einnahme galt, und behalten deren Inhaltsstoffe als Momentaufnahme. Ein Präparat ohne
+ * Versionen hat nur seine aktuelle Zusammensetzung.
+ */
+
+/**
+ * Die versionierten Felder eines Präparats.
+ */
+export type PreparationComposition = Pick<Preparation, 'activeIngredientId' | 'ingredientIds'>;
+
+function composition(source: PreparationComposition): PreparationComposition {
+  return { activeIngredientId: source.activeIngredientId, ingredientIds: source.ingredientIds };
+}
+
+/**
+ * Prüft, ob sich die Zusammensetzung unterscheidet. Die Reihenfolge der Inhaltsstoffe zählt nicht.
+ */
+export function hasCompositionChanged(before: PreparationComposition, after: PreparationComposition): boolean {
+  const ingredients = (ids?: string[]) => normalize(ids && [...ids].sort());
+  return before.activeIngredientId !== after.activeIngredientId ||
+    !isDeepEqual(ingredients(before.ingredientIds), ingredients(after.ingredientIds));
+}
+
+/**
+ * Die Version, die zum Zeitpunkt galt, bzw. `undefined` bei einem Präparat ohne Versionen.
+ * @param datetime Zeitpunkt im Format ISO 8601.
+ */
+export function revisionAt(prep: Preparation, datetime: string): PreparationRevision | undefined {
+  const time = Date.parse(datetime);
+  const revisions = prep.revisions ?? [];
+  return [...revisions].reverse().find(revision => !revision.effectiveFrom || Date.parse(revision.effectiveFrom) <= time) ?? revisions[0];
+}
+
+/**
+ * Die Zusammensetzung, die für einen Eintrag gilt: die Version, auf die er verweist, sonst die
+ * zum Zeitpunkt des Eintrags geltende.
+ */
+export function compositionForEntry(prep: Preparation, entry: DiaryEntry): PreparationComposition {
+  const revision = prep.revisions?.find(r => r.id === entry.preparationRevisionId) ?? revisionAt(prep, entry.datetime);
+  return composition(revision ?? prep);
+}
+
+/**
+ * Die Momentaufnahme des Präparats für einen Eintrag zum Zeitpunkt `datetime`.
+ */
+export function entrySnapshot(prep: Preparation | undefined, datetime: string): Pick<DiaryEntry, 'ingredientIds' | 'preparationRevisionId'> {
+  const revision = prep && revisionAt(prep, datetime);
+  return { ingredientIds: (revision ?? prep)?.ingredientIds, preparationRevisionId: revision?.id };
+}
+
+/**
+ * Legt die geänderte Zusammensetzung als neue Version ab `effectiveFrom` an. Hatte das Präparat
+ * noch keine Versionen, wird die bisherige Zusammensetzung zur ersten Version.
+ * @param effectiveFrom Beginn der neuen Version (ISO 8601), nach dem Beginn der geltenden Version.
+ * @param newId Erzeugt die IDs der Versionen.
+ */
+export function addRevision(previous: Preparation, next: Preparation, effectiveFrom: string, newId: () => string): Preparation {
+  const revisions = previous.revisions ?? [{ id: newId(), ...composition(previous) }];
+  return { ...next, revisions: [...revisions, { id: newId(), effectiveFrom, ...composition(next) }] };
+}
+
+/**
+ * Korrigiert die geltende Version rückwirkend auf die geänderte Zusammensetzung.
+ */
+export function correctRevision(previous: Preparation, next: Preparation): Preparation {
+  const revisions = previous.revisions;
+  if (!revisions) return { ...next, revisions: undefined };
+  const current = revisions[revisions.length - 1];
+  return { ...next, revisions: [...revisions.slice(0, -1), { ...current, ...composition(next) }] };
+}
+
+/**
+ * Gleicht die Einträge eines Präparats nach einer Änderung der Zusammensetzung ab: Einträge im
+ * Geltungsbereich der geänderten Version übernehmen deren Inhaltsstoffe, alle übrigen behalten
+ * ihre Inhaltsstoffe und verweisen auf die Version, die bei ihrer Erfassung galt.
+ * @param changedRevisionId Die neue bzw. korrigierte Version. Bei einem Präparat ohne Versionen
+ *   `undefined`, die Änderung betrifft dann alle Einträge.
+ */
+export function reassignEntries(prep: Preparation, entries: DiaryEntry[], changedRevisionId: string | undefined): DiaryEntry[] {
+  return entries.map(entry => {
+    if (entry.preparationId !== prep.id) return entry;
+    const revision = revisionAt(prep, entry.datetime);
+    if (revision?.id === changedRevisionId) return { ...entry, ...entrySnapshot(prep, entry.datetime) };
+    return revision && entry.preparationRevisionId !== revision.id ? { ...entry, preparationRevisionId: revision.id } : entry;
+  });
+}
@@ -0,0 +1,177 @@
+import { CrudEntity, DiaryEntry, Preparation } from './models';
+
+/**
+ * Verweise der Tagebucheinträge und Präparate auf Stammdaten.
+ *
+ * Stimmungen, Effekte und Dosierungen werden in den Einträgen als Kopie gespeichert und gelten
+ * daher nicht als Verweis, ebenso wenig die Inhaltsstoffe eines Eintrags als Momentaufnahme
+ * des Präparats. Beim Löschen eines Stammdatensatzes werden die Verweise darauf aufgehoben.
+ */
+
+/**
+ * Stammdaten-Typen, die als Datensätze einer Sammlung gespeichert werden.
+ */
+export type CatalogEntity = Exclude<CrudEntity, 'CustomEmoji'>;
+
+/**
+ * Die Sammlung je Stammdaten-Typ.
+ */
+export const CATALOG_COLLECTIONS = {
+  Mood: 'moods',
+  Effect: 'effects',
+  Symptom: 'symptoms',
+  Activity: 'activities',
+  Manufacturer: 'manufacturers',
+  Dosage: 'dosages',
+  ActiveIngredient: 'activeIngredients',
+  Preparation: 'preparations',
+  Ingredient: 'ingredients',
+} as const satisfies Record<CatalogEntity, string>;
+
+/**
+ * Ein Feld, über das Datensätze einer Sammlung auf einen Stammdatensatz verweisen.
+ */
+export interface CatalogReference {
+  collection: 'diaryEntries' | 'preparations';
+  field: 'symptomIds' | 'activityIds' | 'preparationId' | 'manufacturerId' | 'dosageId' | 'activeIngredientId' | 'ingredientIds';
+  /**
+   * Das Feld enthält eine Liste von IDs statt einer einzelnen.
+   */
+  isList: boolean;
+}
+
+/**
+ * Die Verweise je Entitätstyp. Typen ohne Eintrag werden nirgends referenziert.
+ */
+export const CATALOG_REFERENCES: Partial<Record<CrudEntity, CatalogReference>> = {
+  Symptom: { collection: 'diaryEntries', field: 'symptomIds', isList: true },
+  Activity: { collection: 'diaryEntries', field: 'activityIds', isList: true },
+  Preparation: { collection: 'diaryEntries', field: 'preparationId', isList: false },
+  Manufacturer: { collection: 'preparations', field: 'manufacturerId', isList: false },
+  Dosage: { collection: 'preparations', field: 'dosageId', isList: false },
+  ActiveIngredient: { collection: 'preparations', field: 'activeIngredientId', isList: false },
+  Ingredient: { collection: 'preparations', field: 'ingredientIds', isList: true },
+};
+
+type ReferencingRecord = DiaryEntry | Preparation;
+
+/**
+ * Prüft, ob ein Datensatz über das Feld auf die ID verweist.
+ */
+export function hasReference(record: ReferencingRecord, reference: CatalogReference, id: string): boolean {
+  const value = fieldValue(record, reference);
+  return reference.isList ? (value as string[] | undefined)?.includes(id) === true : value === id;
+}
+
+/**
+ * Hebt den Verweis auf. Leere Listen entfallen ganz.
+ */
+export function removeReference<T extends ReferencingRecord>(record: T, reference: CatalogReference, id: string): T {
+  const value = fieldValue(record, reference);
+  if (reference.isList) {
+    const ids = ((value as string[] | undefined) ?? []).filter(refId => refId !== id);
+    return { ...record, [reference.field]: ids.length > 0 ? ids : undefined };
+  }
+  return { ...record, [reference.field]: undefined };
+}
+
+/**
+ * Stellt einen aufgehobenen Verweis wieder her. Ein einzelner Verweis wird nur gesetzt, wenn das
+ * Feld inzwischen nicht anderweitig belegt wurde. Ist nichts zu tun, bleibt die Referenz erhalten.
+ */
+export function restoreReference<T extends ReferencingRecord>(record: T, reference: CatalogReference, id: string): T {
+  const value = fieldValue(record, reference);
+  if (reference.isList) {
+    const ids = (value as string[] | undefined) ?? [];
+    return ids.includes(id) ? record : { ...record, [reference.field]: [...ids, id] };
+  }
+  return value === undefined ? { ...record, [reference.field]: id } : record;
+}
+
+function fieldValue(record: ReferencingRecord, reference: CatalogReference): string | string[] | undefined {
+  return (record as unknown as Record<string, string | string[] | undefined>)[reference.field];
+}
+
+/**
+ * Die Felder eines Tagebucheintrags, die beim Zusammenführen je Stammdaten-Typ umgestellt werden,
+ * neben den Verweisen auch die Kopien (Stimmung, Effekte, Dosierung) und die Momentaufnahme der
+ * Inhaltsstoffe.
+ */
+const ENTRY_MERGE_FIELDS: Partial<Record<CatalogEntity, keyof DiaryEntry>> = {
+  Mood: 'mood',
+  Effect: 'effects',
+  Dosage: 'dosage',
+  Symptom: 'symptomIds',
+  Activity: 'activityIds',
+  Preparation: 'preparationId',
+  Ingredient: 'ingredientIds',
+};
+
+const PREPARATION_MERGE_FIELDS: Partial<Record<CatalogEntity, 'manufacturerId' | 'dosageId' | 'activeIngredientId' | 'ingredientIds'>> = {
+  Manufacturer: 'manufacturerId',
+  Dosage: 'dosageId',
+  ActiveIngredient: 'activeIngredientId',
+  Ingredient: 'ingredientIds',
+};
+
+/**
+ * Stellt beim Zusammenführen von Duplikaten alle Verweise eines Eintrags auf den verbleibenden
+ * Datensatz um, auch im Bearbeitungsverlauf. Kopien behalten ihre Beschreibung als Momentaufnahme
+ * und übernehmen nur die ID. Wechselt das Präparat, entfällt der Verweis auf dessen Version.
+ * @returns Den unveränderten Eintrag, wenn er keines der Duplikate enthält.
+ */
+export function mergeEntryReferences(entry: DiaryEntry, entityType: CatalogEntity, duplicateIds: ReadonlySet<string>, survivorId: string): DiaryEntry {
+  const field = ENTRY_MERGE_FIELDS[entityType];
+  if (!field) return entry;
+  const value = replaceIds(entry[field], duplicateIds, survivorId);
+  const revisions = entry.revisions?.map(revision => {
+    const changes = revision.changes.map(change => {
+      if (change.field !== field) return change;
+      const before = replaceIds(change.before, duplicateIds, survivorId);
+      const after = replaceIds(change.after, duplicateIds, survivorId);
+      return before === change.before && after === change.after ? change : { ...change, before, after } as typeof change;
+    });
+    return changes.some((change, i) => change !== revision.changes[i]) ? { ...revision, changes } : revision;
+  });
+  const revisionsChanged = revisions?.some((revision, i) => revision !== entry.revisions![i]);
+  if (value === entry[field] && !revisionsChanged) return entry;
+
+  const merged: DiaryEntry = { ...entry, [field]: value, revisions };
+  if (field === 'preparationId' && value !== entry[field]) merged.preparationRevisionId = undefined;
+  return merged;
+}
+
+/**
+ * Stellt beim Zusammenführen von Duplikaten die Verweise eines Präparats samt seiner Versionen um.
+ * @returns Das unveränderte Präparat, wenn es keines der Duplikate enthält.
+ */
+export function mergePreparationReferences(prep: Preparation, entityType: CatalogEntity, duplicateIds: ReadonlySet<string>, survivorId: string): Preparation {
+  const field = PREPARATION_MERGE_FIELDS[entityType];
+  if (!field) return prep;
+  const value = replaceIds(prep[field], duplicateIds, survivorId);
+  const revisions = prep.revisions?.map(revision => {
+    if (field !== 'activeIngredientId' && field !== 'ingredientIds') return revision;
+    const revisionValue = replaceIds(revision[field], duplicateIds, survivorId);
+    return revisionValue === revision[field] ? revision : { ...revision, [field]: revisionValue };
+  });
+  if (value === prep[field] && !revisions?.some((revision, i) => revision !== prep.revisions![i])) return prep;
+  return { ...prep, [field]: value, revisions };
+}
+
+/**
+ * Ersetzt die IDs der Duplikate in einer ID, einer Kopie oder einer Liste davon. Doppelte
+ * Listeneinträge entfallen. Ist nichts zu ersetzen, bleibt die Referenz erhalten.
+ */
+function replaceIds<T>(value: T, duplicateIds: ReadonlySet<string>, survivorId: string): T {
+  if (typeof value === 'string') return (duplicateIds.has(value) ? survivorId : value) as T;
+  if (Array.isArray(value)) {
+    const items = value.map(item => replaceIds(item, duplicateIds, survivorId));
+    if (items.every((item, i) => item === value[i])) return value;
+    const key = (item: unknown) => typeof item === 'string' ? item : (item as { id: string }).id;
+    return items.filter((item, i) => items.findIndex(other => key(other) === key(item)) === i) as T;
+  }
+  if (value && typeof value === 'object' && 'id' in value && duplicateIds.has((value as { id: string }).id)) {
+    return { ...value, id: survivorId };
+  }
+  return value;
+}
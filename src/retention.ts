@@ -0,0 +1,72 @@
+import { DiaryEntry, TrashItem } from './models';
+import { RetentionSettings } from './services/data.service';
+
+/**
+ * Aufbewahrungsrichtlinie für Tagebucheinträge.
+ *
+ * Wer Gesundheitsdaten nicht unbegrenzt aufbewahren darf oder möchte, lässt Einträge nach einer
+ * Frist endgültig löschen oder nur ihre Notizen entfernen. Maßgeblich ist der Zeitpunkt der
+ * Einnahme, nicht der Erfassung. Gelöschte Einträge im Papierkorb fallen ebenfalls unter die
+ * Richtlinie, ebenso die Notizen im Bearbeitungsverlauf.
+ */
+
+/**
+ * Was die Richtlinie entfernt, über alle Profile.
+ */
+export interface RetentionPlan {
+  /**
+   * Die zu löschenden Einträge.
+   */
+  deletedEntries: DiaryEntry[];
+  /**
+   * Die Einträge ohne Notiz, die die bisherigen ersetzen.
+   */
+  strippedEntries: DiaryEntry[];
+  /**
+   * Die zu löschenden bzw. von Notizen bereinigten Einträge im Papierkorb.
+   */
+  deletedTrashIds: string[];
+  strippedTrash: TrashItem[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Ermittelt, welche Einträge die Richtlinie zum Zeitpunkt `now` löscht bzw. von Notizen bereinigt.
+ * Ein Eintrag, der gelöscht wird, wird nicht zusätzlich bereinigt.
+ */
+export function planRetention(entries: DiaryEntry[], trash: TrashItem[], settings: RetentionSettings, now: number): RetentionPlan {
+  const isExpired = (entry: DiaryEntry, days: number | null) => days !== null && Date.parse(entry.datetime) < now - days * DAY;
+  const isDeleted = (entry: DiaryEntry) => isExpired(entry, settings.deleteEntriesAfterDays);
+  const isStripped = (entry: DiaryEntry) => !isDeleted(entry) && isExpired(entry, settings.stripNotesAfterDays) && hasNote(entry);
+
+  const trashedEntries = trash.filter(item => item.entityType === 'DiaryEntry');
+  return {
+    deletedEntries: entries.filter(isDeleted),
+    strippedEntries: entries.filter(isStripped).map(withoutNote),
+    deletedTrashIds: trashedEntries.filter(item => isDeleted(item.record as DiaryEntry)).map(item => item.id),
+    strippedTrash: trashedEntries
+      .filter(item => isStripped(item.record as DiaryEntry))
+      .map(item => ({ ...item, record: withoutNote(item.record as DiaryEntry) })),
+  };
+}
+
+export function isRetentionPlanEmpty(plan: RetentionPlan): boolean {
+  return plan.deletedEntries.length === 0 && plan.strippedEntries.length === 0
+    && plan.deletedTrashIds.length === 0 && plan.strippedTrash.length === 0;
+}
+
+function hasNote(entry: DiaryEntry): boolean {
+  return entry.note !== undefined || entry.revisions?.some(revision => revision.changes.some(change => change.field === 'note')) === true;
+}
+
+/**
+ * Entfernt die Notiz samt ihren Änderungen im Bearbeitungsverlauf. Bearbeitungen, die nur die
+ * Notiz betrafen, entfallen ganz.
+ */
+function withoutNote(entry: DiaryEntry): DiaryEntry {
+  const revisions = entry.revisions
+    ?.map(revision => ({ ...revision, changes: revision.changes.filter(change => change.field !== 'note') }))
+    .filter(revision => revision.changes.length > 0);
+  return { ...entry, note: undefined, revisions: revisions?.length ? revisions : undefined };
+}
@@ -0,0 +1,321 @@
+import { Injectable, inject, signal, computed, effect, untracked } from '@angular/core';
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { DataService } from './data.service';
+import { COLLECTION_NAMES, requestToPromise, transactionToPromise } from './storage.service';
+
+/**
+ * Beschreibt eine automatisch erstellte Sicherung.
+ */
+export interface BackupInfo {
+  id: string;
+  createdAt: string; // ISO 8601 format
+  entryCount: number;
+  /**
+   * Verschlüsselte Sicherungen lassen sich mit der PIN zum Zeitpunkt der Sicherung öffnen.
+   */
+  encrypted: boolean;
+}
+
+/**
+ * Schnittstelle für die Ablage der Sicherungen.
+ */
+interface BackupArchive {
+  /**
+   * Listet die vorhandenen Sicherungen, die neueste zuerst.
+   */
+  list(): Promise<BackupInfo[]>;
+  save(info: BackupInfo, content: string): Promise<void>;
+  read(id: string): Promise<string>;
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Schlüssel im Local Storage für die Anzahl der Änderungen seit der letzten Sicherung.
+ */
+const CHANGE_COUNT_KEY = 'medikamententagebuch-backup-changes';
+
+/**
+ * Abstand, in dem während der Laufzeit geprüft wird, ob eine Sicherung fällig ist.
+ */
+const CHECK_INTERVAL = 60 * 60 * 1000;
+
+const SCHEDULE_INTERVALS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Hält die Sicherungen im Browser in einer eigenen IndexedDB-Datenbank, getrennt von den Daten
+ * der App. Metadaten und Inhalte liegen in getrennten Object-Stores, damit die Liste schnell lädt.
+ */
+class IndexedDbBackupArchive implements BackupArchive {
+  private static readonly DB_NAME = 'medikamententagebuch-backups';
+  private static readonly DB_VERSION = 1;
+  private static readonly INFO_STORE = 'backups';
+  private static readonly CONTENT_STORE = 'contents';
+
+  private constructor(private db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbBackupArchive> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(IndexedDbBackupArchive.DB_NAME, IndexedDbBackupArchive.DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IndexedDbBackupArchive.INFO_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(IndexedDbBackupArchive.CONTENT_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return new IndexedDbBackupArchive(db);
+  }
+
+  async list(): Promise<BackupInfo[]> {
+    const tx = this.db.transaction(IndexedDbBackupArchive.INFO_STORE, 'readonly');
+    const items = await requestToPromise<BackupInfo[]>(tx.objectStore(IndexedDbBackupArchive.INFO_STORE).getAll());
+    return items.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async save(info: BackupInfo, content: string): Promise<void> {
+    const tx = this.db.transaction([IndexedDbBackupArchive.INFO_STORE, IndexedDbBackupArchive.CONTENT_STORE], 'readwrite');
+    tx.objectStore(IndexedDbBackupArchive.INFO_STORE).put(info);
+    tx.objectStore(IndexedDbBackupArchive.CONTENT_STORE).put(content, info.id);
+    await transactionToPromise(tx);
+  }
+
+  async read(id: string): Promise<string> {
+    const tx = this.db.transaction(IndexedDbBackupArchive.CONTENT_STORE, 'readonly');
+    return requestToPromise<string>(tx.objectStore(IndexedDbBackupArchive.CONTENT_STORE).get(id));
+  }
+
+  async delete(id: string): Promise<void> {
+    const tx = this.db.transaction([IndexedDbBackupArchive.INFO_STORE, IndexedDbBackupArchive.CONTENT_STORE], 'readwrite');
+    tx.objectStore(IndexedDbBackupArchive.INFO_STORE).delete(id);
+    tx.objectStore(IndexedDbBackupArchive.CONTENT_STORE).delete(id);
+    await transactionToPromise(tx);
+  }
+}
+
+/**
+ * Legt die Sicherungen auf nativen Plattformen als Dateien im Dokumente-Ordner ab, wo sie
+ * eine Neuinstallation der App überstehen. Datum, Anzahl der Einträge und Verschlüsselung
+ * stehen im Dateinamen, damit die Liste ohne Lesen der Dateien erstellt werden kann.
+ */
+class FilesystemBackupArchive implements BackupArchive {
+  private static readonly DIRECTORY = 'Medikamententagebuch-Backups';
+  private static readonly FILE_PATTERN = /^backup_(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z_(\d+)(_encrypted)?\.json$/;
+
+  async list(): Promise<BackupInfo[]> {
+    let files: string[];
+    try {
+      const result = await Filesystem.readdir({ path: FilesystemBackupArchive.DIRECTORY, directory: Directory.Documents });
+      files = result.files.map(file => file.name);
+    } catch {
+      // Der Ordner existiert erst nach der ersten Sicherung.
+      return [];
+    }
+    return files
+      .map(name => {
+        const match = FilesystemBackupArchive.FILE_PATTERN.exec(name);
+        if (!match) return null;
+        const [, date, hours, minutes, seconds, millis, count, encrypted] = match;
+        return {
+          id: name,
+          createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+          entryCount: Number(count),
+          encrypted: !!encrypted,
+        };
+      })
+      .filter((info): info is BackupInfo => info !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async save(info: BackupInfo, content: string): Promise<void> {
+    await Filesystem.writeFile({
+      path: `${FilesystemBackupArchive.DIRECTORY}/${info.id}`,
+      data: content,
+      directory: Directory.Documents,
+      encoding: Encoding.UTF8,
+      recursive: true,
+    });
+  }
+
+  async read(id: string): Promise<string> {
+    const result = await Filesystem.readFile({
+      path: `${FilesystemBackupArchive.DIRECTORY}/${id}`,
+      directory: Directory.Documents,
+      encoding: Encoding.UTF8,
+    });
+    return result.data as string;
+  }
+
+  async delete(id: string): Promise<void> {
+    await Filesystem.deleteFile({ path: `${FilesystemBackupArchive.DIRECTORY}/${id}`, directory: Directory.Documents });
+  }
+
+  static fileName(createdAt: string, entryCount: number, encrypted: boolean): string {
+    return `backup_${createdAt.replace(/[:.]/g, '-')}_${entryCount}${encrypted ? '_encrypted' : ''}.json`;
+  }
+}
+
+/**
+ * BackupService erstellt nach dem eingestellten Zeitplan automatisch Sicherungen und behält
+ * nur die neuesten. Gesichert wird der vollständige Export; sind die Daten verschlüsselt,
+ * wird die Sicherung mit der PIN als Passphrase verschlüsselt. Wiederhergestellt wird über
+ * den regulären Import.
+ */
+@Injectable({ providedIn: 'root' })
+export class BackupService {
+  private dataService = inject(DataService);
+  private archive: Promise<BackupArchive> | null = null;
+  private isTracking = false;
+  private pendingBackup: Promise<BackupInfo> | null = null;
+
+  /**
+   * Die vorhandenen Sicherungen, die neueste zuerst.
+   */
+  backups = signal<BackupInfo[]>([]);
+  isRunning = signal(false);
+  lastBackupAt = computed(() => this.backups()[0]?.createdAt ?? null);
+
+  constructor() {
+    // Zählt die Änderungen an den Daten. Solange die verschlüsselten Daten nicht entsperrt sind,
+    // ist nichts geladen; der erste Durchlauf danach ist der Ausgangszustand.
+    effect(() => {
+      if (this.dataService.isAwaitingDecryption()) return;
+      for (const name of COLLECTION_NAMES) {
+        this.dataService[name]();
+      }
+      this.dataService.customEmojis();
+      untracked(() => {
+        if (this.isTracking) {
+          this.setChangeCount(this.changeCount() + 1);
+        }
+        this.isTracking = true;
+        void this.runIfDue();
+      });
+    });
+
+    // Nach dem Ändern der Einstellungen sofort prüfen, z.B. beim ersten Aktivieren.
+    effect(() => {
+      this.dataService.backupSettings();
+      untracked(() => void this.runIfDue());
+    });
+
+    setInterval(() => void this.runIfDue(), CHECK_INTERVAL);
+  }
+
+  /**
+   * Lädt die Liste der vorhandenen Sicherungen neu.
+   */
+  async refresh(): Promise<void> {
+    try {
+      this.backups.set(await (await this.getArchive()).list());
+    } catch (e) {
+      console.error('Error listing backups', e);
+    }
+  }
+
+  /**
+   * Erstellt eine Sicherung, wenn sie laut Zeitplan fällig ist. Ohne Änderungen seit der
+   * letzten Sicherung wird keine neue erstellt.
+   */
+  async runIfDue(): Promise<void> {
+    const settings = this.dataService.backupSettings();
+    if (!settings.isEnabled || !this.isTracking || this.isRunning()) return;
+
+    await this.refresh();
+    const changes = this.changeCount();
+    const last = this.lastBackupAt();
+    if (last !== null && changes === 0) return;
+
+    const isDue = last === null
+      || (settings.schedule === 'changes'
+        ? changes >= settings.changeThreshold
+        : Date.now() - Date.parse(last) >= SCHEDULE_INTERVALS[settings.schedule]);
+    if (!isDue) return;
+
+    try {
+      await this.createBackup();
+    } catch (e) {
+      console.error('Automatic backup failed', e);
+    }
+  }
+
+  /**
+   * Erstellt sofort eine Sicherung und löscht anschließend die ältesten über der eingestellten Anzahl.
+   * Läuft bereits eine Sicherung, wird keine weitere erstellt, sondern auf diese gewartet.
+   * @returns Die erstellte Sicherung.
+   */
+  createBackup(): Promise<BackupInfo> {
+    if (!this.pendingBackup) {
+      this.pendingBackup = this.runBackup().finally(() => this.pendingBackup = null);
+    }
+    return this.pendingBackup;
+  }
+
+  private async runBackup(): Promise<BackupInfo> {
+    this.isRunning.set(true);
+    try {
+      const encrypted = this.dataService.isEncrypted();
+      const pin = this.dataService.lockSettings().pin;
+      if (encrypted && !pin) {
+        throw new Error('Encrypted data cannot be backed up while locked');
+      }
+      const content = encrypted ? await this.dataService.exportEncryptedData(pin!) : this.dataService.exportData();
+      const createdAt = new Date().toISOString();
+      const entryCount = this.dataService.allDiaryEntries().length;
+      const info: BackupInfo = {
+        id: FilesystemBackupArchive.fileName(createdAt, entryCount, encrypted),
+        createdAt,
+        entryCount,
+        encrypted,
+      };
+
+      const archive = await this.getArchive();
+      await archive.save(info, content);
+      this.setChangeCount(0);
+
+      const keep = Math.max(1, this.dataService.backupSettings().keep);
+      const backups = await archive.list();
+      for (const old of backups.slice(keep)) {
+        await archive.delete(old.id);
+      }
+      this.backups.set(backups.slice(0, keep));
+      return info;
+    } finally {
+      this.isRunning.set(false);
+    }
+  }
+
+  /**
+   * Liest den Inhalt einer Sicherung, um ihn über den regulären Import wiederherzustellen.
+   */
+  async read(id: string): Promise<string> {
+    return (await this.getArchive()).read(id);
+  }
+
+  async delete(id: string): Promise<void> {
+    await (await this.getArchive()).delete(id);
+    this.backups.update(backups => backups.filter(b => b.id !== id));
+  }
+
+  private getArchive(): Promise<BackupArchive> {
+    if (!this.archive) {
+      this.archive = Capacitor.isNativePlatform()
+        ? Promise.resolve(new FilesystemBackupArchive())
+        : IndexedDbBackupArchive.open();
+      // Schlägt das Öffnen fehl, beim nächsten Aufruf erneut versuchen.
+      this.archive.catch(() => this.archive = null);
+    }
+    return this.archive;
+  }
+
+  private changeCount(): number {
+    return Number(localStorage.getItem(CHANGE_COUNT_KEY)) || 0;
+  }
+
+  private setChangeCount(count: number) {
+    localStorage.setItem(CHANGE_COUNT_KEY, String(count));
+  }
+}
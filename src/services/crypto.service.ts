@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Ein mit AES-GCM verschlüsselter Wert. Initialisierungsvektor und Chiffretext sind Base64-kodiert.
+ */
+export interface EncryptedPayload {
+  iv: string;
+  data: string;
+}
+
+/**
+ * CryptoService kapselt die WebCrypto-API. Schlüssel werden per PBKDF2 aus einem
+ * Geheimnis (PIN oder Passphrase) abgeleitet, Daten werden mit AES-GCM verschlüsselt.
+ */
+@Injectable({ providedIn: 'root' })
+export class CryptoService {
+  /**
+   * Anzahl der PBKDF2-Iterationen für neu abgeleitete Schlüssel.
+   * Der hohe Wert verlangsamt das Durchprobieren kurzer PINs.
+   */
+  static readonly PBKDF2_ITERATIONS = 600000;
+
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  /**
+   * Erzeugt ein zufälliges Salt für die Schlüsselableitung.
+   * @returns Das Salt als Base64-String.
+   */
+  generateSalt(): string {
+    return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+  }
+
+  /**
+   * Leitet einen AES-GCM-Schlüssel aus einem Geheimnis ab.
+   * @param secret Die PIN oder Passphrase.
+   * @param salt Das Salt als Base64-String.
+   * @param iterations Die Anzahl der PBKDF2-Iterationen.
+   */
+  async deriveKey(secret: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const baseKey = await crypto.subtle.importKey('raw', this.encoder.encode(secret), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+      baseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Verschlüsselt einen beliebigen JSON-serialisierbaren Wert.
+   * @param key Der AES-GCM-Schlüssel.
+   * @param value Der zu verschlüsselnde Wert.
+   * @param context Optionaler Kontext (z.B. die Datensatz-ID), der an den Chiffretext gebunden wird.
+   */
+  async encrypt(key: CryptoKey, value: unknown, context?: string): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const ciphertext = await crypto.subtle.encrypt(
+      this.algorithm(iv, context),
+      key,
+      this.encoder.encode(JSON.stringify(value))
+    );
+    return { iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) };
+  }
+
+  /**
+   * Entschlüsselt einen mit `encrypt` erzeugten Wert.
+   * @throws Wenn der Schlüssel falsch ist oder die Daten manipuliert wurden.
+   */
+  async decrypt<T>(key: CryptoKey, payload: EncryptedPayload, context?: string): Promise<T> {
+    const plaintext = await crypto.subtle.decrypt(
+      this.algorithm(fromBase64(payload.iv), context),
+      key,
+      fromBase64(payload.data)
+    );
+    return JSON.parse(this.decoder.decode(plaintext));
+  }
+
+  private algorithm(iv: Uint8Array<ArrayBuffer>, context?: string): AesGcmParams {
+    return context === undefined
+      ? { name: 'AES-GCM', iv }
+      : { name: 'AES-GCM', iv, additionalData: this.encoder.encode(context) };
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // In Blöcken verarbeiten, um bei großen Daten den Aufruf-Stack nicht zu sprengen.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,482 @@
+import { Injectable, inject } from '@angular/core';
+import { DataService } from './data.service';
+import { TranslationService } from './translation.service';
+import { DiaryEntry, Dosage, Effect, Mood, Preparation } from '../models';
+import { compositionForEntry, entrySnapshot } from '../preparation-revisions';
+import { HISTORY_FIELD_LABEL_KEYS, HistoryValueContext, formatHistoryValue } from '../entry-history';
+
+/**
+ * Optionen für den CSV-Export. Die Grenzen sind lokale Kalendertage im Format `YYYY-MM-DD`
+ * und schließen den jeweiligen Tag mit ein.
+ */
+export interface CsvExportOptions {
+  from?: string;
+  to?: string;
+  /**
+   * Fügt Spalten mit Erstellungs- und Änderungszeitpunkt sowie dem Bearbeitungsverlauf hinzu.
+   */
+  includeHistory?: boolean;
+  /**
+   * Exportiert nur diese Einträge, z.B. die Auswahl in der Liste.
+   */
+  ids?: ReadonlySet<string>;
+}
+
+/**
+ * Die Felder eines Tagebucheintrags, denen beim CSV-Import eine Spalte zugeordnet werden kann.
+ * Datum und Uhrzeit können als eine Spalte (`datetime`) oder getrennt vorliegen.
+ */
+export type CsvImportField =
+  | 'datetime'
+  | 'date'
+  | 'time'
+  | 'mood'
+  | 'preparation'
+  | 'dosage'
+  | 'effects'
+  | 'symptoms'
+  | 'activities'
+  | 'note';
+
+export const CSV_IMPORT_FIELDS: CsvImportField[] = ['datetime', 'date', 'time', 'mood', 'preparation', 'dosage', 'effects', 'symptoms', 'activities', 'note'];
+
+/**
+ * Das Dezimaltrennzeichen der Mengen in einer CSV-Datei. Das jeweils andere Zeichen gilt als Tausendertrennzeichen.
+ */
+export type CsvDecimalSeparator = ',' | '.';
+
+/**
+ * Zuordnung der Spalten (Index) zu Feldern. `null` bedeutet, dass die Spalte ignoriert wird.
+ */
+export type CsvColumnMapping = (CsvImportField | null)[];
+
+/**
+ * Eine Zeile, die beim Import übersprungen wurde. `row` ist die Zeilennummer in der Datei (ab 1).
+ */
+export interface CsvSkippedRow {
+  row: number;
+  reason: 'invalidDate' | 'moodOrPreparationRequired';
+}
+
+/**
+ * Ergebnis eines CSV-Imports.
+ */
+export interface CsvImportResult {
+  imported: number;
+  skipped: CsvSkippedRow[];
+  /**
+   * Anzahl der automatisch angelegten Stammdaten je Sammlung.
+   */
+  created: Record<'preparations' | 'dosages' | 'moods' | 'effects' | 'symptoms' | 'activities', number>;
+}
+
+/**
+ * Emoji für automatisch angelegte Stimmungen, Effekte, Symptome und Aktivitäten.
+ */
+const IMPORTED_ITEM_EMOJI = '📥';
+
+/**
+ * CsvService exportiert das Tagebuch als CSV-Datei für Tabellenkalkulationen.
+ * Jede Zeile entspricht einem Tagebucheintrag, alle Verweise werden in lesbare Namen aufgelöst.
+ * Umgekehrt importiert er Einträge aus beliebigen CSV-Dateien anhand einer Spaltenzuordnung.
+ */
+@Injectable({ providedIn: 'root' })
+export class CsvService {
+  private dataService = inject(DataService);
+  private translationService = inject(TranslationService);
+
+  /**
+   * Das Trennzeichen passend zur Sprache. Im Deutschen ist das Komma das Dezimaltrennzeichen,
+   * weshalb Tabellenkalkulationen dort das Semikolon erwarten.
+   */
+  delimiter(): string {
+    return this.translationService.language() === 'de' ? ';' : ',';
+  }
+
+  /**
+   * Das Dezimaltrennzeichen passend zur Sprache, wie es auch der Export verwendet.
+   */
+  decimalSeparator(): CsvDecimalSeparator {
+    return this.translationService.language() === 'de' ? ',' : '.';
+  }
+
+  /**
+   * Erstellt den CSV-Export der Tagebucheinträge, aufsteigend nach Datum sortiert.
+   * Es werden nur die Spalten der in den Einstellungen aktivierten Module exportiert.
+   * @param options Optionaler Datumsbereich.
+   * @returns Der CSV-Inhalt mit Kopfzeile.
+   */
+  exportDiary(options: CsvExportOptions = {}): string {
+    const t = this.translationService.translations();
+    const lang = this.translationService.language();
+    const modules = this.dataService.moduleSettings();
+    const preparations = new Map(this.dataService.preparations().map(p => [p.id, p]));
+    const manufacturers = new Map(this.dataService.manufacturers().map(m => [m.id, m]));
+    const activeIngredients = new Map(this.dataService.activeIngredients().map(a => [a.id, a]));
+    const symptoms = new Map(this.dataService.symptoms().map(s => [s.id, s]));
+    const activities = new Map(this.dataService.activities().map(a => [a.id, a]));
+    const ingredients = new Map(this.dataService.ingredients().map(i => [i.id, i]));
+    const names = <T>(ids: string[] | undefined, lookup: Map<string, T>, label: (item: T) => string) =>
+      (ids ?? []).map(id => lookup.get(id)).filter((item): item is T => !!item).map(label).join(', ');
+    const timestamp = (value: string | undefined) =>
+      value ? new Date(value).toLocaleString(lang, { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' }) : '';
+    const historyContext: HistoryValueContext = {
+      language: lang,
+      name: (field, id) => {
+        const lookup = { preparationId: preparations, symptomIds: symptoms, activityIds: activities }[field];
+        const item = lookup.get(id);
+        return (item && ('name' in item ? item.name : item.description)) ?? t.historyDeletedItem;
+      },
+    };
+
+    const columns: { header: string; enabled: boolean; value: (entry: DiaryEntry) => string }[] = [
+      { header: t.csvDate, enabled: true, value: entry => new Date(entry.datetime).toLocaleDateString(lang, { year: 'numeric', month: '2-digit', day: '2-digit' }) },
+      // Zeit im 24-Stunden-Format und Mengen ohne Tausendertrennzeichen, damit der CSV-Import die Datei eindeutig einliest.
+      { header: t.csvTime, enabled: true, value: entry => new Date(entry.datetime).toLocaleTimeString(lang, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }) },
+      { header: t.csvMood, enabled: modules.showMood, value: entry => entry.mood?.description ?? '' },
+      { header: t.csvPreparation, enabled: true, value: entry => preparations.get(entry.preparationId ?? '')?.name ?? '' },
+      {
+        header: t.csvManufacturer,
+        enabled: true,
+        value: entry => manufacturers.get(preparations.get(entry.preparationId ?? '')?.manufacturerId ?? '')?.name ?? '',
+      },
+      {
+        header: t.csvActiveIngredient,
+        enabled: true,
+        value: entry => {
+          const prep = preparations.get(entry.preparationId ?? '');
+          const ai = prep && activeIngredients.get(compositionForEntry(prep, entry).activeIngredientId ?? '');
+          return ai ? `${ai.amount} ${ai.unit}` : '';
+        },
+      },
+      {
+        header: t.csvDosage,
+        enabled: modules.showDosage,
+        value: entry => entry.dosage ? `${entry.dosage.amount.toLocaleString(lang, { useGrouping: false })} ${entry.dosage.unit}` : '',
+      },
+      { header: t.csvEffects, enabled: modules.showEffects, value: entry => entry.effects.map(e => e.description).join(', ') },
+      { header: t.csvSymptoms, enabled: modules.showSymptoms, value: entry => names(entry.symptomIds, symptoms, s => s.description) },
+      { header: t.csvActivities, enabled: modules.showActivities, value: entry => names(entry.activityIds, activities, a => a.description) },
+      { header: t.csvIngredients, enabled: modules.showIngredients, value: entry => names(entry.ingredientIds, ingredients, i => i.name) },
+      { header: t.csvNote, enabled: modules.showNote, value: entry => entry.note ?? '' },
+      { header: t.csvCreatedAt, enabled: !!options.includeHistory, value: entry => timestamp(entry.createdAt) },
+      { header: t.csvModifiedAt, enabled: !!options.includeHistory, value: entry => timestamp(entry.modifiedAt) },
+      {
+        header: t.csvHistory,
+        enabled: !!options.includeHistory,
+        value: entry => (entry.revisions ?? []).map(revision => `${timestamp(revision.modifiedAt)}: ${revision.changes.map(change =>
+          `${t[HISTORY_FIELD_LABEL_KEYS[change.field]]}: ${formatHistoryValue(change, 'before', historyContext)} → ${formatHistoryValue(change, 'after', historyContext)}`
+        ).join('; ')}`).join('\n'),
+      },
+    ];
+    const enabledColumns = columns.filter(column => column.enabled);
+
+    const entries = this.dataService.sortedDiaryEntries()
+      .filter(entry => {
+        const day = toDateKey(new Date(entry.datetime));
+        return (!options.from || day >= options.from) && (!options.to || day <= options.to) && (!options.ids || options.ids.has(entry.id));
+      })
+      .reverse();
+
+    const rows = [
+      enabledColumns.map(column => column.header),
+      ...entries.map(entry => enabledColumns.map(column => column.value(entry))),
+    ];
+    return toCsv(rows, this.delimiter());
+  }
+
+  /**
+   * Schlägt anhand der Kopfzeile eine Spaltenzuordnung vor. Erkannt werden die Spaltennamen
+   * des eigenen Exports in allen Sprachen sowie einige gängige Bezeichnungen.
+   */
+  guessMapping(headers: string[]): CsvColumnMapping {
+    const synonyms: Record<CsvImportField, string[]> = {
+      datetime: ['datetime', 'zeitpunkt', 'timestamp', 'datum & uhrzeit', 'date & time'],
+      date: ['date', 'datum', 'tag', 'day'],
+      time: ['time', 'uhrzeit', 'zeit'],
+      mood: ['mood', 'stimmung'],
+      preparation: ['preparation', 'präparat', 'praeparat', 'medikament', 'medication', 'drug'],
+      dosage: ['dosage', 'dosierung', 'dosis', 'dose'],
+      effects: ['effects', 'effekte', 'wirkung', 'wirkungen'],
+      symptoms: ['symptoms', 'symptome'],
+      activities: ['activities', 'aktivitäten', 'aktivitaeten'],
+      note: ['note', 'notiz', 'notes', 'notizen', 'kommentar', 'comment'],
+    };
+    const used = new Set<CsvImportField>();
+    return headers.map(header => {
+      const normalized = header.trim().toLocaleLowerCase();
+      const field = CSV_IMPORT_FIELDS.find(f => !used.has(f) && synonyms[f].includes(normalized)) ?? null;
+      if (field) used.add(field);
+      return field;
+    });
+  }
+
+  /**
+   * Importiert Tagebucheinträge aus CSV-Zeilen. Unbekannte Präparate, Dosierungen, Stimmungen,
+   * Effekte, Symptome und Aktivitäten werden über `DataService.addItem` als Stammdaten angelegt.
+   * Der Import bildet einen Schritt der Undo-Historie.
+   * @param rows Die Datenzeilen (ohne Kopfzeile).
+   * @param mapping Die Zuordnung der Spalten zu Feldern.
+   * @param firstRowNumber Die Zeilennummer der ersten Datenzeile in der Datei (für Fehlermeldungen).
+   * @param decimalSeparator Das Dezimaltrennzeichen der Mengen in der Datei.
+   */
+  importDiary(rows: string[][], mapping: CsvColumnMapping, firstRowNumber = 1, decimalSeparator = this.decimalSeparator()): CsvImportResult {
+    return this.dataService.recordUndo('importCsv', () => this.importRows(rows, mapping, firstRowNumber, decimalSeparator));
+  }
+
+  private importRows(rows: string[][], mapping: CsvColumnMapping, firstRowNumber: number, decimalSeparator: CsvDecimalSeparator): CsvImportResult {
+    const result: CsvImportResult = {
+      imported: 0,
+      skipped: [],
+      created: { preparations: 0, dosages: 0, moods: 0, effects: 0, symptoms: 0, activities: 0 },
+    };
+    const ds = this.dataService;
+    const findOrCreate = <T extends { id: string }>(
+      collection: keyof CsvImportResult['created'],
+      items: () => T[],
+      matches: (item: T) => boolean,
+      create: () => T
+    ): T => {
+      const existing = items().find(matches);
+      if (existing) return existing;
+      result.created[collection]++;
+      return create();
+    };
+    const byName = (name: string) => (item: { name?: string; description?: string }) =>
+      (item.name ?? item.description ?? '').trim().toLocaleLowerCase() === name.toLocaleLowerCase();
+    const list = (value: string) => value.split(/[,|]/).map(part => part.trim()).filter(part => part !== '');
+
+    const newEntries: Omit<DiaryEntry, 'id' | 'profileId'>[] = [];
+    rows.forEach((row, index) => {
+      const values: Partial<Record<CsvImportField, string>> = {};
+      mapping.forEach((field, column) => {
+        if (field && row[column] !== undefined && row[column].trim() !== '') {
+          values[field] = row[column].trim();
+        }
+      });
+      const rowNumber = firstRowNumber + index;
+
+      const datetime = parseDateTime(values);
+      if (!datetime) {
+        result.skipped.push({ row: rowNumber, reason: 'invalidDate' });
+        return;
+      }
+      if (!values.mood && !values.preparation) {
+        result.skipped.push({ row: rowNumber, reason: 'moodOrPreparationRequired' });
+        return;
+      }
+
+      const entry: Omit<DiaryEntry, 'id' | 'profileId'> = { datetime: datetime.toISOString(), effects: [] };
+      if (values.mood) {
+        const name = values.mood;
+        entry.mood = findOrCreate('moods', ds.moods, byName(name), () =>
+          ds.addItem<Mood>(ds.moods, { description: name, emoji: IMPORTED_ITEM_EMOJI }));
+      }
+      if (values.preparation) {
+        const name = values.preparation;
+        const prep = findOrCreate('preparations', ds.preparations, byName(name), () =>
+          ds.addItem<Preparation>(ds.preparations, { name }));
+        entry.preparationId = prep.id;
+        Object.assign(entry, entrySnapshot(prep, entry.datetime));
+      }
+      const dosage = values.dosage && parseDosage(values.dosage, decimalSeparator);
+      if (dosage) {
+        entry.dosage = findOrCreate('dosages', ds.dosages,
+          d => d.amount === dosage.amount && d.unit.toLocaleLowerCase() === dosage.unit.toLocaleLowerCase(),
+          () => ds.addItem<Dosage>(ds.dosages, dosage));
+      }
+      if (values.effects) {
+        entry.effects = list(values.effects).map(name => findOrCreate('effects', ds.effects, byName(name), () =>
+          ds.addItem<Effect>(ds.effects, { description: name, emoji: IMPORTED_ITEM_EMOJI, perception: 'neutral' })));
+      }
+      if (values.symptoms) {
+        entry.symptomIds = list(values.symptoms).map(name => findOrCreate('symptoms', ds.symptoms, byName(name), () =>
+          ds.addItem(ds.symptoms, { description: name, emoji: IMPORTED_ITEM_EMOJI })).id);
+      }
+      if (values.activities) {
+        entry.activityIds = list(values.activities).map(name => findOrCreate('activities', ds.activities, byName(name), () =>
+          ds.addItem(ds.activities, { description: name, emoji: IMPORTED_ITEM_EMOJI })).id);
+      }
+      if (values.note) {
+        entry.note = values.note;
+      }
+      newEntries.push(entry);
+    });
+
+    newEntries.forEach(entry => ds.addDiaryEntry(entry));
+    result.imported = newEntries.length;
+    return result;
+  }
+}
+
+/**
+ * Liefert den lokalen Kalendertag eines Datums im Format `YYYY-MM-DD`.
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Zeichen, mit denen eine Tabellenkalkulation ein Feld als Formel auswertet.
+ */
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Setzt Zeilen nach RFC 4180 zu einem CSV-String zusammen. Felder mit Trennzeichen,
+ * Anführungszeichen oder Zeilenumbrüchen werden in Anführungszeichen gesetzt.
+ * Felder, die als Formel ausgewertet würden (z.B. eine Notiz `=HYPERLINK(...)`), erhalten
+ * ein vorangestelltes `'`; `parseCsv()` entfernt es beim Einlesen wieder.
+ */
+function toCsv(rows: string[][], delimiter: string): string {
+  const escape = (value: string) => {
+    const field = FORMULA_START.test(value) ? `'${value}` : value;
+    return field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  };
+  return rows.map(row => row.map(escape).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Entfernt das von `toCsv()` vor Formeln gesetzte `'`.
+ */
+function unescapeFormula(field: string): string {
+  return field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+}
+
+/**
+ * Zerlegt einen CSV-Text nach RFC 4180 in Zeilen und Felder. Das Trennzeichen wird anhand
+ * der ersten Zeile erkannt (Semikolon, Komma oder Tabulator). Leere Zeilen werden ignoriert,
+ * vor Formeln geschützte Felder aus dem eigenen Export wieder hergestellt.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const delimiter = [';', ',', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows
+    .filter(r => r.some(value => value.trim() !== ''))
+    .map(r => r.map(unescapeFormula));
+}
+
+/**
+ * Ermittelt den Zeitpunkt aus einer kombinierten Spalte oder aus getrennten Datums- und Zeitspalten.
+ * Unterstützt ISO 8601, `TT.MM.JJJJ`, `JJJJ-MM-TT` und `MM/TT/JJJJ`, jeweils mit optionaler Uhrzeit `HH:mm[:ss]`,
+ * auch im 12-Stunden-Format mit `AM`/`PM`.
+ */
+function parseDateTime(values: Partial<Record<CsvImportField, string>>): Date | null {
+  if (values.datetime) {
+    if (/^\d{4}-\d{2}-\d{2}T/.test(values.datetime)) {
+      const iso = new Date(values.datetime);
+      return isNaN(iso.getTime()) ? null : iso;
+    }
+    const [datePart, ...timeParts] = values.datetime.split(/[ T]+/);
+    return combineDateTime(datePart, timeParts.join(' ') || undefined);
+  }
+  return values.date ? combineDateTime(values.date, values.time) : null;
+}
+
+function combineDateTime(datePart: string, timePart?: string): Date | null {
+  let match: RegExpMatchArray | null;
+  let year: number, month: number, day: number;
+  if ((match = datePart.match(/^(\d{1,2})\.(\d{1,2})\.(\d{2}|\d{4})$/))) {
+    [day, month, year] = [+match[1], +match[2], +match[3]];
+  } else if ((match = datePart.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    [year, month, day] = [+match[1], +match[2], +match[3]];
+  } else if ((match = datePart.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/))) {
+    [month, day, year] = [+match[1], +match[2], +match[3]];
+  } else {
+    return null;
+  }
+  if (year < 100) year += 2000;
+
+  let hours = 0, minutes = 0, seconds = 0;
+  if (timePart) {
+    const time = timePart.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(?:([ap])\.?m\.?)?$/i);
+    if (!time) return null;
+    [hours, minutes, seconds] = [+time[1], +time[2], +(time[3] ?? 0)];
+    if (time[4]) {
+      // 12-Stunden-Format: 12:30 AM ist 00:30, 12:30 PM ist 12:30.
+      if (hours < 1 || hours > 12) return null;
+      hours = hours % 12 + (time[4].toLowerCase() === 'p' ? 12 : 0);
+    }
+  }
+
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Ungültige Angaben wie der 31.02. werden von `Date` verschoben und hier erkannt.
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day || hours > 23 || minutes > 59) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Zerlegt eine Dosierung wie `2,5 mg` oder `1.000 mg` in Menge und Einheit.
+ */
+function parseDosage(value: string, decimalSeparator: CsvDecimalSeparator): Omit<Dosage, 'id'> | null {
+  const match = value.match(/^(\d+(?:[.,]\d+)*)\s*(\S.*)$/);
+  if (!match) return null;
+  const amount = parseAmount(match[1], decimalSeparator);
+  return amount === null ? null : { amount, unit: match[2].trim() };
+}
+
+/**
+ * Liest eine Menge mit Dezimal- und Tausendertrennzeichen. Kommen beide Zeichen vor, ist das
+ * letzte das Dezimaltrennzeichen; ein mehrfach vorkommendes Zeichen trennt Tausender. Bei nur
+ * einem Trennzeichen entscheidet `decimalSeparator`: Das andere Zeichen gilt vor genau drei
+ * Ziffern als Tausendertrennzeichen (`1,000` bei `.`), sonst ebenfalls als Dezimaltrennzeichen.
+ * @returns Die Menge oder `null`, wenn die Tausendergruppen nicht stimmen.
+ */
+function parseAmount(text: string, decimalSeparator: CsvDecimalSeparator): number | null {
+  const separators = [...new Set(text.replace(/\d/g, ''))];
+  let decimal: string | undefined;
+  if (separators.length === 2) {
+    decimal = text.match(/[.,](?=\d*$)/)![0];
+  } else if (separators.length === 1) {
+    const [separator] = separators;
+    const isGrouping = text.split(separator).length > 2 || (separator !== decimalSeparator && /^\d+[.,]\d{3}$/.test(text));
+    decimal = isGrouping ? undefined : separator;
+  }
+
+  const [integer, fraction, ...rest] = decimal ? text.split(decimal) : [text];
+  const groups = integer.split(/[.,]/);
+  if (rest.length > 0 || (groups.length > 1 && (groups[0].length > 3 || groups.slice(1).some(group => group.length !== 3)))) {
+    return null;
+  }
+  return parseFloat(fraction === undefined ? groups.join('') : `${groups.join('')}.${fraction}`);
+}
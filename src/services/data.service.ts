@@ -1,4 +1,4 @@
-import { Injectable, signal, effect, computed } from '@angular/core';
+import { Injectable, signal, effect, computed, untracked, WritableSignal } from '@angular/core';
 import {
   Mood,
   Effect,
@@ -12,8 +12,26 @@ import {
   Symptom,
   Activity,
   Ingredient,
+  Profile,
+  CatalogItem,
+  TrashEntity,
+  TrashItem,
 } from '../models';
-import { TranslationService } from './translation.service';
+import { Language, TranslationService } from './translation.service';
+import { StorageCategory, measureStorageUsage } from '../storage-usage';
+import { RetentionPlan, isRetentionPlanEmpty, planRetention } from '../retention';
+import { StorageService, PersistedState, CollectionName, COLLECTION_NAMES, StateChanges, diffStates, hasChanges, mergeChanges, refreshChanges, isQuotaExceededError } from './storage.service';
+import { CryptoService, EncryptedPayload } from './crypto.service';
+import { CURRENT_SCHEMA_VERSION, SchemaPayload, UnsupportedSchemaVersionError, migrateToCurrent } from '../migrations';
+import { MergeResult, mergeImport } from '../import-merge';
+import { ValidationReport, validateImport } from '../import-validation';
+import { fromFhirBundle, isFhirBundle, toFhirBundle } from '../fhir';
+import { DiaryEntryField, mergeDiaryEntryEdits } from '../entry-merge';
+import { withRevision } from '../entry-history';
+import { addRevision, correctRevision, hasCompositionChanged, reassignEntries } from '../preparation-revisions';
+import { BulkEdit, applyBulkEdit } from '../bulk-edit';
+import { IntegrityIssue, checkIntegrity, repairIntegrity } from '../integrity';
+import { CATALOG_COLLECTIONS, CATALOG_REFERENCES, CatalogEntity, hasReference, mergeEntryReferences, mergePreparationReferences, removeReference, restoreReference } from '../references';
 
 /**
  * Definiert die Struktur für die App-Sperreinstellungen.
@@ -38,10 +56,209 @@ export interface ModuleSettings {
   showIngredients: boolean;
 }
 
+/**
+ * Zeitplan der automatischen Sicherung: täglich, wöchentlich oder nach einer Anzahl Änderungen.
+ */
+export type BackupSchedule = 'daily' | 'weekly' | 'changes';
+
+/**
+ * Definiert die Struktur für die Einstellungen der automatischen Sicherung.
+ */
+export interface BackupSettings {
+  isEnabled: boolean;
+  schedule: BackupSchedule;
+  changeThreshold: number; // Anzahl der Änderungen beim Zeitplan 'changes'
+  keep: number; // Anzahl der aufbewahrten Sicherungen
+}
+
+const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  isEnabled: false,
+  schedule: 'daily',
+  changeThreshold: 20,
+  keep: 5,
+};
+
+/**
+ * Definiert die Struktur für die Einstellungen der Synchronisation über einen WebDAV-Server.
+ * Die Zugangsdaten sind gerätebezogen und werden nicht exportiert. Bei aktiver Verschlüsselung
+ * speichert sie der StorageService verschlüsselt.
+ */
+export interface SyncSettings {
+  isEnabled: boolean;
+  url: string; // WebDAV-Ordner, in dem die Sync-Datei abgelegt wird
+  username: string;
+  password: string;
+  passphrase: string; // Optional; verschlüsselt die Sync-Datei auf dem Server
+}
+
+const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  isEnabled: false,
+  url: '',
+  username: '',
+  password: '',
+  passphrase: '',
+};
+
+/**
+ * Definiert die Struktur für die Einstellungen des Papierkorbs.
+ */
+export interface TrashSettings {
+  retentionDays: number; // Aufbewahrungsfrist gelöschter Datensätze
+}
+
+const DEFAULT_TRASH_SETTINGS: TrashSettings = {
+  retentionDays: 30,
+};
+
+/**
+ * Definiert die Struktur für die Aufbewahrungsrichtlinie der Tagebucheinträge.
+ */
+export interface RetentionSettings {
+  deleteEntriesAfterDays: number | null; // Frist, nach der Einträge gelöscht werden; `null` für unbegrenzt
+  stripNotesAfterDays: number | null; // Frist, nach der Notizen entfernt werden; `null` für unbegrenzt
+  backupFirst: boolean; // Vor dem Entfernen eine automatische Sicherung erstellen
+}
+
+const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  deleteEntriesAfterDays: null,
+  stripNotesAfterDays: null,
+  backupFirst: true,
+};
+
+/**
+ * Ein Protokolleintrag der Aufbewahrungsrichtlinie. Er hält nur fest, wie viel entfernt wurde,
+ * nicht was, damit keine Gesundheitsdaten im Protokoll überdauern.
+ */
+export interface RetentionLogEntry {
+  purgedAt: string; // ISO 8601 format
+  deletedEntries: number;
+  strippedNotes: number;
+  backupId: string | null; // Die vorher erstellte Sicherung, falls vorhanden
+}
+
+/**
+ * Anzahl der aufbewahrten Protokolleinträge der Aufbewahrungsrichtlinie.
+ */
+const RETENTION_LOG_SIZE = 50;
+
+/**
+ * Abstand, in dem während der Laufzeit abgelaufene Datensätze aus dem Papierkorb entfernt werden.
+ */
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * ID des Profils, dem die Daten aus der Zeit vor den Profilen zugeordnet sind.
+ */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/**
+ * Die Sammlungen, deren Datensätze einem Profil gehören können.
+ */
+type ProfileCollection = Exclude<CollectionName, 'profiles'>;
+
+/**
+ * Die Datensätze dieser Sammlungen, z.B. aller Profile oder nur des aktiven Profils.
+ */
+type ProfileRecords = Pick<PersistedState, ProfileCollection>;
+
+const PROFILE_COLLECTIONS = COLLECTION_NAMES.filter((name): name is ProfileCollection => name !== 'profiles');
+
+/**
+ * Tagebucheinträge, Erinnerungen und der Papierkorb gehören immer zu einem Profil, Stammdaten
+ * nur bei Profilen mit eigenen Stammdaten.
+ */
+const PERSONAL_COLLECTIONS: readonly ProfileCollection[] = ['diaryEntries', 'reminders', 'trash'];
+
+/**
+ * Mögliche Fehlerursachen beim Import einer Backup-Datei.
+ */
+export type ImportError = 'invalidFile' | 'unsupportedSchemaVersion' | 'passphraseRequired' | 'wrongPassphrase';
+
+/**
+ * Ergebnis eines Imports. Bei einem Fehler enthält es die Ursache und ggf. die Schema-Version der Datei.
+ */
+export interface ImportResult {
+  success: boolean;
+  error?: ImportError;
+  schemaVersion?: number;
+}
+
+/**
+ * Eine eingelesene Backup-Datei. Bei Erfolg enthält sie die migrierten Daten.
+ */
+export interface ParsedImport extends ImportResult {
+  /**
+   * Die gültigen Datensätze und Einstellungen der Datei.
+   */
+  data?: SchemaPayload;
+  /**
+   * Das Ergebnis der Prüfung. Enthält es Probleme, fehlen die betroffenen Datensätze in `data`.
+   */
+  validation?: ValidationReport;
+  /**
+   * Die Datei ist ein FHIR Bundle. Es enthält keine Einstellungen und Erinnerungen und kann
+   * daher nur mit den vorhandenen Daten zusammengeführt werden.
+   */
+  isFhirBundle?: boolean;
+}
+
+/**
+ * Die Aktionen, die sich rückgängig machen lassen.
+ */
+export type UndoAction = 'addDiaryEntry' | 'updateDiaryEntry' | 'deleteDiaryEntry' | 'addItem' | 'updateItem' | 'deleteItem' | 'importCsv' | 'restoreFromTrash' | 'mergeItems' | 'archiveItem' | 'repairIntegrity' | 'bulkEditDiaryEntries' | 'deleteDiaryEntries';
+
+/**
+ * Ein Schritt der Undo-Historie. Enthält die Änderungen, die die Aktion rückgängig machen
+ * bzw. wiederholen.
+ */
+export interface UndoStep {
+  readonly action: UndoAction;
+  readonly undo: StateChanges;
+  readonly redo: StateChanges;
+}
+
+/**
+ * Maximale Anzahl der Schritte in der Undo-Historie.
+ */
+const MAX_UNDO_STEPS = 50;
+
+/**
+ * Kennung des verschlüsselten Backup-Containers.
+ */
+export const ENCRYPTED_BACKUP_FORMAT = 'medikamententagebuch-encrypted-backup';
+
+/**
+ * Ein mit einer Passphrase verschlüsseltes Backup. Enthält den vollständigen JSON-Export als Chiffretext
+ * sowie alle Parameter, die zum Ableiten des Schlüssels benötigt werden.
+ */
+export interface EncryptedBackup extends EncryptedPayload {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    salt: string;
+    iterations: number;
+  };
+}
+
 /**
  * Der DataService ist der zentrale "Single Source of Truth" für alle Anwendungsdaten.
- * Er verwaltet den Zustand mithilfe von Angular Signals und kümmert sich um die
- * Persistenz der Daten im Local Storage.
+ * Er verwaltet den Zustand mithilfe von Angular Signals und kümmert sich über den
+ * StorageService um die inkrementelle Persistenz der Daten.
+ *
+ * Die Signale der Sammlungen enthalten nur die Datensätze des aktiven Profils und die von ihm
+ * verwendeten Stammdaten. Ansichten, Statistiken und Exporte sind dadurch automatisch auf das
+ * aktive Profil beschränkt. Die Datensätze der übrigen Profile werden getrennt gehalten und
+ * beim Speichern wieder mit ihnen zusammengeführt.
+ *
+ * Ist die App in mehreren Tabs geöffnet, übernimmt jeder Tab die von den anderen gespeicherten
+ * Änderungen in seine Signale. Das aktive Profil wählt jeder Tab für sich.
+ *
+ * Änderungen über die CRUD-Methoden landen in einer Undo-Historie und lassen sich
+ * rückgängig machen und wiederholen.
  */
 @Injectable({
   providedIn: 'root',
@@ -61,6 +278,13 @@ export class DataService {
     showDateGaps: true,
     showIngredients: true,
   });
+  backupSettings = signal<BackupSettings>(DEFAULT_BACKUP_SETTINGS);
+  syncSettings = signal<SyncSettings>(DEFAULT_SYNC_SETTINGS);
+  trashSettings = signal<TrashSettings>(DEFAULT_TRASH_SETTINGS);
+  retentionSettings = signal<RetentionSettings>(DEFAULT_RETENTION_SETTINGS);
+  retentionLog = signal<RetentionLogEntry[]>([]);
+  profiles = signal<Profile[]>([]);
+  activeProfileId = signal(DEFAULT_PROFILE_ID);
   moods = signal<Mood[]>([]);
   effects = signal<Effect[]>([]);
   symptoms = signal<Symptom[]>([]);
@@ -72,11 +296,73 @@ export class DataService {
   ingredients = signal<Ingredient[]>([]);
   diaryEntries = signal<DiaryEntry[]>([]);
   reminders = signal<Reminder[]>([]);
+  trash = signal<TrashItem[]>([]);
   customEmojis = signal<string[]>([]);
 
+  /**
+   * Die Datensätze der nicht aktiven Profile.
+   */
+  private inactiveRecords = signal<ProfileRecords>(emptyRecords());
+
+  /**
+   * Die Undo-Historie dieser Sitzung, der letzte Schritt zuletzt.
+   */
+  private undoStack = signal<UndoStep[]>([]);
+  /**
+   * Die rückgängig gemachten Schritte, die sich wiederholen lassen.
+   */
+  private redoStack = signal<UndoStep[]>([]);
+  /**
+   * Gibt an, ob gerade eine Änderung für die Undo-Historie aufgezeichnet wird.
+   */
+  private isRecordingUndo = false;
+
   // --- Computed Signals ---
   // Abgeleitete Daten, die sich automatisch aktualisieren, wenn die Quell-Signale sich ändern.
 
+  /**
+   * Das aktive Profil. Ist erst nach dem Laden der Daten gesetzt.
+   */
+  activeProfile = computed<Profile | undefined>(() =>
+    this.profiles().find(p => p.id === this.activeProfileId()) ?? this.profiles()[0]
+  );
+
+  /**
+   * Die Datensätze aller Profile, wie sie gespeichert werden.
+   */
+  private allRecords = computed<ProfileRecords>(() => {
+    const inactive = this.inactiveRecords();
+    return Object.fromEntries(PROFILE_COLLECTIONS.map(name => {
+      const active = this[name]() as unknown[];
+      return [name, inactive[name].length > 0 ? [...inactive[name], ...active] : active];
+    })) as unknown as ProfileRecords;
+  });
+
+  /**
+   * Die Datensätze aller Sammlungen über alle Profile, z.B. für die Synchronisation.
+   */
+  records = computed<Pick<PersistedState, CollectionName>>(() => ({ profiles: this.profiles(), ...this.allRecords() }));
+
+  /**
+   * Der Schritt, den `undo()` rückgängig machen würde.
+   */
+  nextUndo = computed<UndoStep | null>(() => this.undoStack().at(-1) ?? null);
+
+  /**
+   * Der Schritt, den `redo()` wiederholen würde.
+   */
+  nextRedo = computed<UndoStep | null>(() => this.redoStack().at(-1) ?? null);
+
+  /**
+   * Die Tagebucheinträge aller Profile.
+   */
+  allDiaryEntries = computed(() => this.allRecords().diaryEntries);
+
+  /**
+   * Die Erinnerungen aller Profile. Benachrichtigungen werden für alle Profile geplant.
+   */
+  allReminders = computed(() => this.allRecords().reminders);
+
   /**
    * Gibt die Tagebucheinträge in absteigender chronologischer Reihenfolge zurück.
    */
@@ -85,6 +371,13 @@ export class DataService {
     this.diaryEntries().slice().sort((a, b) => Number(new Date(b.datetime)) - Number(new Date(a.datetime)))
   );
 
+  /**
+   * Gibt den Papierkorb des aktiven Profils zurück, den zuletzt gelöschten Datensatz zuerst.
+   */
+  sortedTrash = computed(() =>
+    this.trash().slice().sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+  );
+
   /**
    * Gibt die Hersteller alphabetisch sortiert zurück.
    */
@@ -137,12 +430,123 @@ export class DataService {
     this.ingredients().slice().sort((a, b) => a.name.localeCompare(b.name, this.translationService.language(), { sensitivity: 'base' }))
   );
 
-  constructor(private translationService: TranslationService) {
-    this.loadFromLocalStorage();
+  /**
+   * Gibt an, ob die Daten verschlüsselt gespeichert werden.
+   */
+  isEncrypted = signal(false);
+  /**
+   * Gibt an, ob die verschlüsselten Daten noch mit der PIN entsperrt werden müssen.
+   * Bis dahin sind nur die Einstellungen geladen.
+   */
+  isAwaitingDecryption = signal(false);
+
+  /**
+   * Gibt an, ob der gespeicherte Zustand bereits geladen wurde.
+   * Vorher darf nichts gespeichert werden, sonst würden die Standardwerte die Daten überschreiben.
+   */
+  private isLoaded = signal(false);
+  /**
+   * Der zuletzt gespeicherte Zustand. Dient als Basis, um nur geänderte Datensätze zu schreiben.
+   */
+  private persistedState: Partial<PersistedState> | null = null;
+  /**
+   * Änderungen, deren Schreiben fehlgeschlagen ist. Sie werden beim nächsten Speichern erneut geschrieben.
+   */
+  private unsavedChanges: StateChanges | null = null;
+  /**
+   * Der Grund, aus dem zuletzt nicht gespeichert werden konnte, oder `null`, solange alles
+   * gespeichert ist. `quota` steht für erschöpften Speicherplatz.
+   */
+  storageWriteError = signal<'quota' | 'failed' | null>(null);
+
+  constructor(
+    private translationService: TranslationService,
+    private storageService: StorageService,
+    private cryptoService: CryptoService
+  ) {
     // effect() registriert eine Funktion, die immer dann ausgeführt wird,
     // wenn sich eines der darin gelesenen Signale ändert.
     // So wird der Zustand bei jeder Änderung automatisch gespeichert.
-    effect(() => this.saveToLocalStorage());
+    effect(() => {
+      if (this.isLoaded()) {
+        this.persist();
+      }
+    });
+
+    this.storageService.onRemoteChanges(changes => this.applyRemoteChanges(changes));
+
+    // Abgelaufene Datensätze im Papierkorb nach dem Laden, bei geänderter Frist und danach stündlich entfernen.
+    effect(() => {
+      this.trashSettings();
+      if (this.isLoaded()) {
+        untracked(() => this.purgeTrash());
+      }
+    });
+    setInterval(() => this.purgeTrash(), TRASH_PURGE_INTERVAL);
+  }
+
+  /**
+   * Lädt den Anwendungszustand beim Start aus dem Speicher-Backend.
+   * Wird über einen App-Initializer aufgerufen, bevor die Oberfläche erstellt wird.
+   */
+  async init(): Promise<void> {
+    let data: Partial<PersistedState> | null = null;
+    try {
+      data = await this.storageService.load();
+    } catch (e) {
+      console.error('Error loading persisted data', e);
+    }
+    if (data && this.storageService.isAwaitingUnlock()) {
+      // Nur die unverschlüsselten Einstellungen übernehmen. Die Daten werden erst
+      // nach Eingabe der PIN entschlüsselt, bis dahin wird nichts gespeichert.
+      const settings = this.migrateLoadedState(data);
+      this.theme.set(settings.theme || 'light');
+      this.lockSettings.set(settings.lockSettings || { isEnabled: false, pin: null, timeout: 0 });
+      this.moduleSettings.update(current => ({ ...current, ...(settings.moduleSettings || {}) }));
+      this.isEncrypted.set(true);
+      this.isAwaitingDecryption.set(true);
+      return;
+    }
+    this.applyLoadedState(data ? this.migrateLoadedState(data) : null);
+    // Als Basis dient der tatsächlich gespeicherte Stand. So werden ergänzte Standardwerte
+    // beim ersten Speichern ebenfalls geschrieben.
+    this.persistedState = data;
+    this.isLoaded.set(true);
+  }
+
+  /**
+   * Entschlüsselt die gespeicherten Daten mit der PIN und übernimmt sie in die Signale.
+   * @param pin Die vom Benutzer eingegebene PIN.
+   * @returns `true`, wenn die PIN korrekt war.
+   */
+  async unlockEncryptedData(pin: string): Promise<boolean> {
+    const data = await this.storageService.unlock(pin);
+    if (!data) return false;
+
+    this.applyLoadedState(this.migrateLoadedState(data));
+    // Die PIN wird bei aktiver Verschlüsselung nicht gespeichert und nur im Speicher gehalten.
+    this.lockSettings.update(s => ({ ...s, pin }));
+    this.persistedState = data;
+    this.isAwaitingDecryption.set(false);
+    this.isLoaded.set(true);
+    return true;
+  }
+
+  /**
+   * Aktiviert die Verschlüsselung mit der angegebenen PIN oder deaktiviert sie (`null`).
+   * Der gesamte Zustand wird dabei neu geschrieben.
+   */
+  async setEncryption(pin: string | null): Promise<void> {
+    // Ausstehende Änderungen zuerst in der bisherigen Form speichern.
+    this.persist();
+    const state = this.snapshot();
+    if (pin) {
+      await this.storageService.enableEncryption(pin, state);
+    } else {
+      await this.storageService.disableEncryption(state);
+    }
+    this.persistedState = state;
+    this.isEncrypted.set(pin !== null);
   }
 
   /**
@@ -153,12 +557,11 @@ export class DataService {
   }
 
   /**
-   * Lädt den Anwendungszustand aus dem Local Storage beim Start.
+   * Übernimmt den geladenen Zustand in die Signale.
+   * @param parsedData Der gespeicherte Zustand oder `null` beim ersten Start.
    */
-  private loadFromLocalStorage() {
-    const data = localStorage.getItem('medikamententagebuch');
-    if (data) {
-      const parsedData = JSON.parse(data);
+  private applyLoadedState(parsedData: Partial<PersistedState> | null) {
+    if (parsedData) {
       this.theme.set(parsedData.theme || 'light');
       this.lockSettings.set(parsedData.lockSettings || { isEnabled: false, pin: null, timeout: 0 });
       
@@ -174,68 +577,385 @@ export class DataService {
         showIngredients: true,
       };
       this.moduleSettings.set({ ...defaultModuleSettings, ...(parsedData.moduleSettings || {}) });
+      this.backupSettings.set({ ...DEFAULT_BACKUP_SETTINGS, ...(parsedData.backupSettings || {}) });
+      this.syncSettings.set({ ...DEFAULT_SYNC_SETTINGS, ...(parsedData.syncSettings || {}) });
+      this.trashSettings.set({ ...DEFAULT_TRASH_SETTINGS, ...(parsedData.trashSettings || {}) });
+      this.retentionSettings.set({ ...DEFAULT_RETENTION_SETTINGS, ...(parsedData.retentionSettings || {}) });
+      this.retentionLog.set(parsedData.retentionLog || []);
 
-      this.moods.set(parsedData.moods || this.translationService.defaultMoods());
-      this.effects.set(parsedData.effects || this.translationService.defaultEffects());
-      this.symptoms.set(parsedData.symptoms || this.translationService.defaultSymptoms());
-      this.activities.set(parsedData.activities || this.translationService.defaultActivities());
-      this.manufacturers.set(parsedData.manufacturers || []);
-      this.dosages.set(parsedData.dosages || []);
-      this.activeIngredients.set(parsedData.activeIngredients || []);
-      this.preparations.set(parsedData.preparations || []);
-      this.ingredients.set(parsedData.ingredients || []);
-      this.diaryEntries.set(parsedData.diaryEntries || []);
-      this.reminders.set(parsedData.reminders || []);
+      this.applyProfiles(parsedData.profiles, parsedData.activeProfileId, {
+        moods: parsedData.moods || this.translationService.defaultMoods(),
+        effects: parsedData.effects || this.translationService.defaultEffects(),
+        symptoms: parsedData.symptoms || this.translationService.defaultSymptoms(),
+        activities: parsedData.activities || this.translationService.defaultActivities(),
+        manufacturers: parsedData.manufacturers || [],
+        dosages: parsedData.dosages || [],
+        activeIngredients: parsedData.activeIngredients || [],
+        preparations: parsedData.preparations || [],
+        ingredients: parsedData.ingredients || [],
+        diaryEntries: parsedData.diaryEntries || [],
+        reminders: parsedData.reminders || [],
+        trash: parsedData.trash || [],
+      });
       this.customEmojis.set(parsedData.customEmojis || []);
     } else {
       // Wenn keine Daten vorhanden sind, werden die Standard-Stimmungen und -Effekte geladen.
-      this.moods.set(this.translationService.defaultMoods());
-      this.effects.set(this.translationService.defaultEffects());
-      this.symptoms.set(this.translationService.defaultSymptoms());
-      this.activities.set(this.translationService.defaultActivities());
+      this.applyProfiles([], undefined, this.defaultRecords());
+    }
+  }
+
+  /**
+   * Die Datensätze beim ersten Start: nur die Standard-Stimmungen, -Effekte, -Symptome und -Aktivitäten.
+   */
+  private defaultRecords(): ProfileRecords {
+    return {
+      ...emptyRecords(),
+      moods: this.translationService.defaultMoods(),
+      effects: this.translationService.defaultEffects(),
+      symptoms: this.translationService.defaultSymptoms(),
+      activities: this.translationService.defaultActivities(),
+    };
+  }
+
+  /**
+   * Übernimmt die Profile und die Datensätze aller Profile. Fehlt ein Profil, auf das Datensätze
+   * verweisen (z.B. bei Backups aus der Zeit vor den Profilen), wird es angelegt. Gibt es das
+   * gewünschte aktive Profil nicht, wird das erste aktiv.
+   */
+  private applyProfiles(profiles: Profile[] | undefined, activeProfileId: string | undefined, records: ProfileRecords) {
+    const result = [...(profiles ?? [])];
+    const ownerIds = new Set<string>();
+    const catalogOwnerIds = new Set<string>();
+    for (const name of PROFILE_COLLECTIONS) {
+      const isPersonal = PERSONAL_COLLECTIONS.includes(name);
+      for (const item of records[name] as CatalogItem[]) {
+        const profileId = item.profileId ?? (isPersonal ? DEFAULT_PROFILE_ID : undefined);
+        if (profileId) ownerIds.add(profileId);
+        if (profileId && !isPersonal) catalogOwnerIds.add(profileId);
+      }
+    }
+    for (const id of ownerIds) {
+      if (!result.some(p => p.id === id)) {
+        result.push(this.createProfile(id, catalogOwnerIds.has(id)));
+      }
+    }
+    if (result.length === 0) {
+      result.push(this.createProfile(DEFAULT_PROFILE_ID, false));
+    }
+
+    this.profiles.set(result);
+    this.activeProfileId.set(result.some(p => p.id === activeProfileId) ? activeProfileId! : result[0].id);
+    this.setRecords(records);
+  }
+
+  private createProfile(id: string, separateCatalogs: boolean): Profile {
+    return { id, name: this.translationService.t('defaultProfileName'), emoji: '👤', separateCatalogs };
+  }
+
+  /**
+   * Verteilt die Datensätze aller Profile auf die Signale des aktiven Profils und die übrigen Profile.
+   * Die Datensätze behalten ihre Referenzen, sodass dabei nichts neu gespeichert wird.
+   */
+  private setRecords(records: ProfileRecords) {
+    const profile = this.activeProfile();
+    const inactive = {} as Record<ProfileCollection, unknown[]>;
+    for (const name of PROFILE_COLLECTIONS) {
+      const items = records[name] as CatalogItem[];
+      (this[name] as WritableSignal<unknown[]>).set(items.filter(item => belongsToProfile(name, item, profile)));
+      inactive[name] = items.filter(item => !belongsToProfile(name, item, profile));
+    }
+    this.inactiveRecords.set(inactive as unknown as ProfileRecords);
+  }
+
+  /**
+   * Die Datensätze der Signale, also des aktiven Profils.
+   */
+  private activeRecords(): ProfileRecords {
+    return Object.fromEntries(PROFILE_COLLECTIONS.map(name => [name, this[name]()])) as unknown as ProfileRecords;
+  }
+
+  /**
+   * Kennzeichnet Stammdaten als eigene Stammdaten des aktiven Profils, falls es solche verwendet.
+   */
+  private catalogOwner(): CatalogItem {
+    const profile = this.activeProfile();
+    return profile?.separateCatalogs ? { profileId: profile.id } : {};
+  }
+
+  /**
+   * Hebt die geladenen lokalen Daten auf die aktuelle Schema-Version an.
+   * Stammen sie aus einer neueren App-Version, werden sie unverändert übernommen,
+   * damit beim Speichern keine unbekannten Felder verloren gehen.
+   */
+  private migrateLoadedState(data: Partial<PersistedState>): Partial<PersistedState> {
+    try {
+      return migrateToCurrent(data) as Partial<PersistedState>;
+    } catch (e) {
+      if (e instanceof UnsupportedSchemaVersionError) {
+        console.error('Local data was written by a newer app version', e);
+        return data;
+      }
+      throw e;
     }
   }
 
   /**
-   * Speichert den gesamten Anwendungszustand im Local Storage.
+   * Liefert den aktuellen Zustand aller persistierten Signale.
    */
-  private saveToLocalStorage() {
-    const data = {
+  private snapshot(): PersistedState {
+    return {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       theme: this.theme(),
       lockSettings: this.lockSettings(),
       moduleSettings: this.moduleSettings(),
-      moods: this.moods(),
-      effects: this.effects(),
-      symptoms: this.symptoms(),
-      activities: this.activities(),
-      manufacturers: this.manufacturers(),
-      dosages: this.dosages(),
-      activeIngredients: this.activeIngredients(),
-      preparations: this.preparations(),
-      ingredients: this.ingredients(),
-      diaryEntries: this.diaryEntries(),
-      reminders: this.reminders(),
+      backupSettings: this.backupSettings(),
+      syncSettings: this.syncSettings(),
+      trashSettings: this.trashSettings(),
+      retentionSettings: this.retentionSettings(),
+      retentionLog: this.retentionLog(),
+      activeProfileId: this.activeProfileId(),
+      profiles: this.profiles(),
+      ...this.allRecords(),
       customEmojis: this.customEmojis(),
     };
-    localStorage.setItem('medikamententagebuch', JSON.stringify(data));
+  }
+
+  /**
+   * Ermittelt die Änderungen seit dem letzten Speichern und reiht sie in die Schreibwarteschlange ein.
+   * @returns Die eingereihten Änderungen.
+   */
+  private persist(): StateChanges {
+    const current = this.snapshot();
+    let changes = diffStates(this.persistedState, current);
+    this.persistedState = current;
+    if (this.unsavedChanges) {
+      changes = mergeChanges(refreshChanges(this.unsavedChanges, current), changes);
+      this.unsavedChanges = null;
+    }
+    if (!hasChanges(changes)) return changes;
+
+    this.storageService.write(changes).then(
+      () => {
+        if (!this.unsavedChanges) this.storageWriteError.set(null);
+      },
+      e => {
+        console.error('Error persisting data', e);
+        // Die Daten bleiben im Speicher der App und werden mit der nächsten Änderung erneut geschrieben.
+        this.unsavedChanges = this.unsavedChanges ? mergeChanges(this.unsavedChanges, changes) : changes;
+        this.storageWriteError.set(isQuotaExceededError(e) ? 'quota' : 'failed');
+      },
+    );
+    return changes;
+  }
+
+  /**
+   * Misst die Größe der gespeicherten Daten je Kategorie, über alle Profile.
+   */
+  measureStorageUsage(): Record<StorageCategory, number> {
+    return measureStorageUsage(this.snapshot());
+  }
+
+  /**
+   * Schreibt die Änderungen, deren Speichern fehlgeschlagen ist, erneut, z.B. nachdem Platz geschaffen wurde.
+   */
+  retryPersist() {
+    if (this.isLoaded() && this.unsavedChanges) this.persist();
+  }
+
+  /**
+   * Übernimmt die Änderungen, die ein anderer Tab gespeichert hat. Eigene, noch nicht
+   * gespeicherte Änderungen werden vorher geschrieben, damit sie nicht verloren gehen. Da sie
+   * nach denen des anderen Tabs gespeichert werden, haben sie bei denselben Datensätzen Vorrang;
+   * der andere Tab übernimmt sie anschließend auf demselben Weg.
+   */
+  private applyRemoteChanges(remoteChanges: StateChanges) {
+    if (!this.isLoaded()) return;
+    const changes = withoutPendingChanges(remoteChanges, this.persist());
+
+    const { settings } = changes;
+    if (settings.theme) this.theme.set(settings.theme);
+    if (settings.lockSettings) {
+      // Bei aktiver Verschlüsselung wird die PIN nicht übertragen, die eigene bleibt erhalten.
+      const pin = this.isEncrypted() ? this.lockSettings().pin : settings.lockSettings.pin;
+      this.lockSettings.set({ ...settings.lockSettings, pin });
+    }
+    if (settings.moduleSettings) this.moduleSettings.set(settings.moduleSettings);
+    if (settings.backupSettings) this.backupSettings.set(settings.backupSettings);
+    if (settings.syncSettings) this.syncSettings.set(settings.syncSettings);
+    if (settings.trashSettings) this.trashSettings.set(settings.trashSettings);
+    if (settings.retentionSettings) this.retentionSettings.set(settings.retentionSettings);
+    if (settings.retentionLog) this.retentionLog.set(settings.retentionLog);
+    if (settings.customEmojis) this.customEmojis.set(settings.customEmojis);
+
+    this.applyChanges(changes);
+    // Der andere Tab hat diesen Stand bereits gespeichert.
+    this.persistedState = this.snapshot();
+  }
+
+  /**
+   * Übernimmt die bei der Synchronisation vom Server geholten Datensätze. Anders als die
+   * Änderungen anderer Tabs werden sie anschließend lokal gespeichert.
+   */
+  applySyncedChanges(changes: StateChanges) {
+    if (!this.isLoaded()) return;
+    this.applyChanges(changes);
+  }
+
+  private applyChanges(changes: StateChanges) {
+    const records = this.allRecords();
+    this.applyProfiles(
+      applyRecordChanges(this.profiles(), changes, 'profiles'),
+      this.activeProfileId(),
+      Object.fromEntries(PROFILE_COLLECTIONS.map(name => [name, applyRecordChanges<{ id: string }>(records[name], changes, name)])) as unknown as ProfileRecords
+    );
+  }
+
+  // --- Rückgängig / Wiederholen ---
+
+  /**
+   * Führt eine Änderung aus und legt sie samt ihrer Folgeänderungen (z.B. aufgehobene
+   * Verknüpfungen) als einen Schritt in der Undo-Historie ab. Verschachtelte Aufrufe gehören
+   * zum äußeren Schritt, so lässt sich etwa ein CSV-Import als Ganzes rückgängig machen.
+   */
+  recordUndo<T>(action: UndoAction, mutate: () => T): T {
+    if (this.isRecordingUndo) return mutate();
+
+    const before = this.snapshot();
+    this.isRecordingUndo = true;
+    let result: T;
+    try {
+      result = mutate();
+    } finally {
+      this.isRecordingUndo = false;
+    }
+    const after = this.snapshot();
+    const redo = diffStates(before, after);
+    if (hasChanges(redo)) {
+      const step: UndoStep = { action, undo: diffStates(after, before), redo };
+      this.undoStack.update(steps => [...steps, step].slice(-MAX_UNDO_STEPS));
+      this.redoStack.set([]);
+    }
+    return result;
+  }
+
+  /**
+   * Macht den letzten Schritt rückgängig. Es werden nur die davon betroffenen Datensätze
+   * zurückgesetzt, spätere Änderungen an anderen Datensätzen bleiben erhalten.
+   * @param expected Der Schritt, der rückgängig gemacht werden soll, z.B. der eines Toasts.
+   *   Ist inzwischen ein anderer Schritt der letzte, passiert nichts.
+   * @returns Die rückgängig gemachte Aktion oder `null`.
+   */
+  undo(expected?: UndoStep): UndoAction | null {
+    const step = this.nextUndo();
+    if (!step || (expected && expected !== step)) return null;
+    this.applyUndoStep(step.undo);
+    this.undoStack.update(steps => steps.slice(0, -1));
+    this.redoStack.update(steps => [...steps, step]);
+    return step.action;
+  }
+
+  /**
+   * Wiederholt den zuletzt rückgängig gemachten Schritt.
+   * @param expected Der Schritt, der wiederholt werden soll. Ist inzwischen ein anderer an der Reihe, passiert nichts.
+   * @returns Die wiederholte Aktion oder `null`.
+   */
+  redo(expected?: UndoStep): UndoAction | null {
+    const step = this.nextRedo();
+    if (!step || (expected && expected !== step)) return null;
+    this.applyUndoStep(step.redo);
+    this.redoStack.update(steps => steps.slice(0, -1));
+    this.undoStack.update(steps => [...steps, step]);
+    return step.action;
+  }
+
+  private applyUndoStep(changes: StateChanges) {
+    if (changes.settings.customEmojis) this.customEmojis.set(changes.settings.customEmojis);
+    this.applyChanges(changes);
+  }
+
+  /**
+   * Verwirft die Undo-Historie, z.B. wenn der Zustand durch einen Import ersetzt wurde.
+   */
+  private clearUndoHistory() {
+    this.undoStack.set([]);
+    this.redoStack.set([]);
   }
 
   // --- CRUD Methoden ---
   
   // Tagebucheintrag
-  addDiaryEntry(entry: Omit<DiaryEntry, 'id'>) {
-    this.diaryEntries.update(entries => [...entries, { ...entry, id: this.generateId() }]);
+  addDiaryEntry(entry: Omit<DiaryEntry, 'id' | 'profileId'>) {
+    const createdAt = new Date().toISOString();
+    this.recordUndo('addDiaryEntry', () =>
+      this.diaryEntries.update(entries => [...entries, { ...entry, id: this.generateId(), profileId: this.activeProfileId(), createdAt }])
+    );
   }
-  updateDiaryEntry(updatedEntry: DiaryEntry) {
-    this.diaryEntries.update(entries => entries.map(e => e.id === updatedEntry.id ? updatedEntry : e));
+  /**
+   * Speichert einen bearbeiteten Tagebucheintrag. Mit `base`, dem Eintrag zu Beginn der
+   * Bearbeitung, werden zwischenzeitliche Änderungen (z.B. aus einem anderen Tab) mit der
+   * Bearbeitung zusammengeführt; wurde der Eintrag inzwischen gelöscht, wird er aus dem
+   * Papierkorb wiederhergestellt. Die geänderten Felder werden im Bearbeitungsverlauf des
+   * Eintrags festgehalten.
+   * @returns Die Felder, die beide Seiten unterschiedlich geändert haben. Für sie gilt `updatedEntry`.
+   */
+  updateDiaryEntry(updatedEntry: DiaryEntry, base?: DiaryEntry): DiaryEntryField[] {
+    return this.recordUndo('updateDiaryEntry', () => {
+      let current = this.diaryEntries().find(e => e.id === updatedEntry.id);
+      if (base && !current) {
+        // Die Kopie im Papierkorb wird entfernt, sonst entstünde beim Wiederherstellen ein zweiter Eintrag mit derselben ID.
+        const trashItem = this.trash().find(item => item.entityType === 'DiaryEntry' && (item.record as DiaryEntry).id === updatedEntry.id);
+        const restored = (trashItem?.record as DiaryEntry | undefined) ?? base;
+        if (trashItem) this.trash.update(items => items.filter(item => item !== trashItem));
+        this.diaryEntries.update(entries => [...entries, restored]);
+        current = restored;
+      }
+      const { entry, conflicts } = base && current && current !== base
+        ? mergeDiaryEntryEdits(base, current, updatedEntry)
+        : { entry: updatedEntry, conflicts: [] };
+      const revised = current ? withRevision(current, entry, new Date().toISOString()) : entry;
+      this.diaryEntries.update(entries => entries.map(e => e.id === revised.id ? revised : e));
+      return conflicts;
+    });
   }
+
+  /**
+   * Verschiebt einen Tagebucheintrag in den Papierkorb.
+   */
   deleteDiaryEntry(id: string) {
-    this.diaryEntries.update(entries => entries.filter(e => e.id !== id));
+    this.recordUndo('deleteDiaryEntry', () => {
+      const entry = this.diaryEntries().find(e => e.id === id);
+      if (!entry) return;
+      this.diaryEntries.update(entries => entries.filter(e => e.id !== id));
+      this.moveToTrash('DiaryEntry', entry);
+    });
+  }
+
+  /**
+   * Wendet eine Sammelbearbeitung auf die Einträge an. Jeder geänderte Eintrag wird wie eine
+   * Bearbeitung im Formular gespeichert, rückgängig machen lässt sich die Aktion als Ganzes.
+   * @returns Die Anzahl der geänderten Einträge.
+   */
+  bulkEditDiaryEntries(ids: string[], edit: BulkEdit): number {
+    return this.recordUndo('bulkEditDiaryEntries', () => {
+      const selected = new Set(ids);
+      const edited = this.diaryEntries()
+        .filter(entry => selected.has(entry.id))
+        .map(entry => [entry, applyBulkEdit(entry, edit, this.preparations())] as const)
+        .filter(([entry, result]) => result !== entry);
+      edited.forEach(([, entry]) => this.updateDiaryEntry(entry));
+      return edited.length;
+    });
+  }
+  /**
+   * Verschiebt mehrere Tagebucheinträge in den Papierkorb.
+   */
+  deleteDiaryEntries(ids: string[]) {
+    this.recordUndo('deleteDiaryEntries', () => ids.forEach(id => this.deleteDiaryEntry(id)));
   }
 
   // Erinnerungen
-  addReminder(reminder: Omit<Reminder, 'id'>) {
-    this.reminders.update(reminders => [...reminders, { ...reminder, id: this.generateId() }]);
+  addReminder(reminder: Omit<Reminder, 'id' | 'profileId'>) {
+    this.reminders.update(reminders => [...reminders, { ...reminder, id: this.generateId(), profileId: this.activeProfileId() }]);
   }
   deleteReminder(id: string) {
     this.reminders.update(reminders => reminders.filter(r => r.id !== id));
@@ -243,105 +963,325 @@ export class DataService {
 
   // Generische CRUD Methoden für Einstellungs-Entitäten
   addItem<T extends { id: string }>(stateSignal: ReturnType<typeof signal<T[]>>, item: Omit<T, 'id'>): T {
-    const newItem = { ...item, id: this.generateId() } as T;
-    stateSignal.update(items => [...items, newItem]);
+    const newItem = { ...item, id: this.generateId(), ...this.catalogOwner() } as T;
+    this.recordUndo('addItem', () => stateSignal.update(items => [...items, newItem]));
     return newItem;
   }
 
   updateItem<T extends { id: string }>(stateSignal: ReturnType<typeof signal<T[]>>, updatedItem: T) {
-    stateSignal.update(items => items.map(i => i.id === updatedItem.id ? updatedItem : i));
+    const item = { ...updatedItem, ...this.catalogOwner() };
+    this.recordUndo('updateItem', () => stateSignal.update(items => items.map(i => i.id === item.id ? item : i)));
   }
 
-  updatePreparation(updatedPrep: Preparation) {
-    // Zuerst das Präparat in der Hauptliste aktualisieren.
-    this.preparations.update(items => items.map(p => p.id === updatedPrep.id ? updatedPrep : p));
+  /**
+   * Speichert ein bearbeitetes Präparat. Ändert sich die Zusammensetzung, gilt sie mit
+   * `effectiveFrom` als neue Version ab diesem Zeitpunkt: Frühere Einträge behalten ihre
+   * Inhaltsstoffe, spätere übernehmen die neuen. Ohne `effectiveFrom` wird die geltende Version
+   * rückwirkend korrigiert, samt der Einträge, für die sie gilt.
+   * @param effectiveFrom Beginn der neuen Version (ISO 8601).
+   */
+  updatePreparation(updatedPrep: Preparation, effectiveFrom?: string) {
+    this.recordUndo('updateItem', () => {
+      const previous = this.preparations().find(p => p.id === updatedPrep.id);
+      const edited = { ...updatedPrep, revisions: previous?.revisions, ...this.catalogOwner() };
+      if (!previous || !hasCompositionChanged(previous, edited)) {
+        this.preparations.update(items => items.map(p => p.id === edited.id ? edited : p));
+        return;
+      }
+
+      const prep = effectiveFrom
+        ? addRevision(previous, edited, effectiveFrom, () => this.generateId())
+        : correctRevision(previous, edited);
+      this.preparations.update(items => items.map(p => p.id === prep.id ? prep : p));
+      this.diaryEntries.update(entries => reassignEntries(prep, entries, prep.revisions?.[prep.revisions.length - 1].id));
+    });
+  }
 
-    // Dann alle vorhandenen Tagebucheinträge, die dieses Präparat verwenden, rückwirkend aktualisieren.
-    // Dies stellt sicher, dass Analysen konsistent sind und die neuesten bekannten Inhaltsstoffe widerspiegeln.
-    this.diaryEntries.update(entries =>
-      entries.map(entry => {
-        if (entry.preparationId === updatedPrep.id) {
-          // Ein neues Eintragsobjekt mit den aktualisierten Inhaltsstoff-IDs erstellen.
-          return { ...entry, ingredientIds: updatedPrep.ingredientIds };
-        }
-        return entry;
-      })
+  /**
+   * Archiviert eine Entität bzw. holt sie aus dem Archiv zurück. Archivierte Entitäten werden bei
+   * der Erfassung nicht mehr angeboten, ihre Verweise bleiben aber unverändert bestehen.
+   */
+  setArchived(entityType: CatalogEntity, id: string, archived: boolean) {
+    const items = this[CATALOG_COLLECTIONS[entityType]] as WritableSignal<(CatalogItem & { id: string })[]>;
+    this.recordUndo('archiveItem', () =>
+      items.update(list => list.map(i => i.id === id ? { ...i, archived: archived || undefined } : i))
     );
   }
-  
+
+  /**
+   * Die Tagebucheinträge bzw. Präparate des aktiven Profils, deren Verweis auf eine Entität
+   * beim Löschen aufgehoben würde.
+   */
+  findReferencingRecords(entityType: CrudEntity, id: string): { diaryEntries: DiaryEntry[]; preparations: Preparation[] } {
+    const reference = CATALOG_REFERENCES[entityType];
+    if (!reference) return { diaryEntries: [], preparations: [] };
+    const records = (this[reference.collection] as WritableSignal<(DiaryEntry | Preparation)[]>)().filter(r => hasReference(r, reference, id));
+    return reference.collection === 'diaryEntries'
+      ? { diaryEntries: records as DiaryEntry[], preparations: [] }
+      : { diaryEntries: [], preparations: records as Preparation[] };
+  }
+
   /**
    * Löscht eine Entität und kümmert sich um die Bereinigung von Verknüpfungen.
+   * Die Entität wandert in den Papierkorb und merkt sich dabei die aufgehobenen Verknüpfungen.
    * @param entityType Der Typ der zu löschenden Entität.
    * @param id Die ID der zu löschenden Entität.
+   * @param replacementId Eine Entität desselben Typs, auf die die Verweise vor dem Löschen
+   *   übertragen werden, statt sie aufzuheben.
    */
-  deleteItem(entityType: CrudEntity, id: string) {
-    switch (entityType) {
-      case 'Mood':
-        this.moods.update(items => items.filter(i => i.id !== id));
-        break;
-      case 'Effect':
-        this.effects.update(items => items.filter(i => i.id !== id));
-        break;
-      case 'Symptom':
-        this.symptoms.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Tagebucheinträgen aufheben
-         this.diaryEntries.update(entries => entries.map(entry => {
-            if (entry.symptomIds?.includes(id)) {
-              const newSymptomIds = entry.symptomIds.filter((sid: string) => sid !== id);
-              // Wenn keine Symptome mehr übrig sind, das Array ganz entfernen
-              return { ...entry, symptomIds: newSymptomIds.length > 0 ? newSymptomIds : undefined };
-            }
-            return entry;
-          }));
-        break;
-       case 'Activity':
-        this.activities.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Tagebucheinträgen aufheben
-         this.diaryEntries.update(entries => entries.map(entry => {
-            if (entry.activityIds?.includes(id)) {
-              const newActivityIds = entry.activityIds.filter((aid: string) => aid !== id);
-              return { ...entry, activityIds: newActivityIds.length > 0 ? newActivityIds : undefined };
-            }
-            return entry;
-          }));
-        break;
-      case 'Manufacturer':
-        this.manufacturers.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Präparaten aufheben
-        this.preparations.update(p => p.map(prep => prep.manufacturerId === id ? { ...prep, manufacturerId: undefined } : prep));
-        break;
-      case 'Dosage':
-        this.dosages.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Präparaten aufheben
-        this.preparations.update(p => p.map(prep => prep.dosageId === id ? { ...prep, dosageId: undefined } : prep));
-        break;
-      case 'ActiveIngredient':
-        this.activeIngredients.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Präparaten aufheben
-        this.preparations.update(p => p.map(prep => prep.activeIngredientId === id ? { ...prep, activeIngredientId: undefined } : prep));
-        break;
-      case 'Preparation':
-        this.preparations.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Tagebucheinträgen aufheben
-        this.diaryEntries.update(entries => entries.map(entry => entry.preparationId === id ? { ...entry, preparationId: undefined } : entry));
-        break;
-      case 'Ingredient':
-        this.ingredients.update(items => items.filter(i => i.id !== id));
-        // Verknüpfung in Präparaten aufheben
-        this.preparations.update(preps => preps.map(prep => {
-            if (prep.ingredientIds?.includes(id)) {
-              const newIngredientIds = prep.ingredientIds.filter(ingId => ingId !== id);
-              return { ...prep, ingredientIds: newIngredientIds.length > 0 ? newIngredientIds : undefined };
-            }
-            return prep;
-          }));
-        break;
-      case 'CustomEmoji':
+  deleteItem(entityType: CrudEntity, id: string, replacementId?: string) {
+    this.recordUndo('deleteItem', () => {
+      if (entityType === 'CustomEmoji') {
+        if (!this.customEmojis().includes(id)) return;
         this.customEmojis.update(items => items.filter(i => i !== id));
-        break;
+        this.moveToTrash(entityType, id);
+        return;
+      }
+
+      const items = this[CATALOG_COLLECTIONS[entityType]] as WritableSignal<{ id: string }[]>;
+      const item = items().find(i => i.id === id);
+      if (!item) return;
+      if (replacementId && replacementId !== id) {
+        this.applyChanges({ settings: {}, upserts: this.remapReferences(entityType, new Set([id]), replacementId), deletions: {} });
+      }
+      items.update(list => list.filter(i => i.id !== id));
+
+      // Verknüpfungen in Tagebucheinträgen bzw. Präparaten aufheben
+      const reference = CATALOG_REFERENCES[entityType];
+      let unlinkedIds: string[] = [];
+      if (reference) {
+        const referencing = this[reference.collection] as WritableSignal<(DiaryEntry | Preparation)[]>;
+        unlinkedIds = referencing().filter(r => hasReference(r, reference, id)).map(r => r.id);
+        referencing.update(records => records.map(r => hasReference(r, reference, id) ? removeReference(r, reference, id) : r));
+      }
+      this.moveToTrash(entityType, item, unlinkedIds);
+    });
+  }
+
+  /**
+   * Führt doppelte Stammdaten zusammen: Alle Verweise und Kopien in Tagebucheinträgen und
+   * Präparaten aller Profile werden auf den verbleibenden Datensatz umgestellt, danach werden
+   * die Duplikate entfernt. Sie wandern nicht in den Papierkorb, da nichts mehr auf sie verweist.
+   * @param survivorId Der Datensatz, der erhalten bleibt.
+   * @param duplicateIds Die Duplikate, die in ihm aufgehen.
+   */
+  mergeItems(entityType: CatalogEntity, survivorId: string, duplicateIds: string[]) {
+    const duplicates = new Set(duplicateIds.filter(id => id !== survivorId));
+    if (duplicates.size === 0) return;
+
+    this.recordUndo('mergeItems', () => {
+      this.applyChanges({
+        settings: {},
+        upserts: this.remapReferences(entityType, duplicates, survivorId),
+        deletions: { [CATALOG_COLLECTIONS[entityType]]: [...duplicates] },
+      });
+    });
+  }
+
+  /**
+   * Die geänderten Tagebucheinträge und Präparate aller Profile, wenn die Verweise auf `ids`
+   * auf `targetId` umgestellt werden.
+   */
+  private remapReferences(entityType: CatalogEntity, ids: ReadonlySet<string>, targetId: string): StateChanges['upserts'] {
+    const records = this.allRecords();
+    const changed = <T>(items: T[], remap: (item: T) => T) =>
+      items.flatMap(item => {
+        const remapped = remap(item);
+        return remapped === item ? [] : [remapped];
+      });
+    return {
+      diaryEntries: changed(records.diaryEntries, entry => mergeEntryReferences(entry, entityType, ids, targetId)),
+      preparations: changed(records.preparations, prep => mergePreparationReferences(prep, entityType, ids, targetId)),
+    };
+  }
+
+  // --- Datenprüfung ---
+
+  /**
+   * Prüft die Datensätze aller Profile auf Inkonsistenzen, z.B. Verweise auf fehlende Stammdaten.
+   */
+  checkIntegrity(): IntegrityIssue[] {
+    return checkIntegrity(this.records());
+  }
+
+  /**
+   * Repariert die Probleme einer vorangegangenen Prüfung, soweit sie sich automatisch beheben lassen.
+   * @param issues Probleme aus `checkIntegrity()` für den aktuellen Stand.
+   */
+  repairIntegrity(issues: IntegrityIssue[]) {
+    this.recordUndo('repairIntegrity', () => {
+      const { profiles, ...records } = repairIntegrity(this.records(), issues, () => this.generateId(), new Date().toISOString());
+      this.applyProfiles(profiles, this.activeProfileId(), records);
+    });
+  }
+
+  // --- Papierkorb ---
+
+  private moveToTrash(entityType: TrashEntity, record: TrashItem['record'], unlinkedIds: string[] = []) {
+    const item: TrashItem = {
+      id: this.generateId(),
+      profileId: this.activeProfileId(),
+      entityType,
+      deletedAt: new Date().toISOString(),
+      record,
+    };
+    if (unlinkedIds.length > 0) item.unlinkedIds = unlinkedIds;
+    this.trash.update(items => [...items, item]);
+  }
+
+  /**
+   * Stellt einen Datensatz aus dem Papierkorb wieder her. Die Einträge bzw. Präparate, deren
+   * Verweis beim Löschen aufgehoben wurde, werden wieder verknüpft, sofern es sie noch gibt;
+   * ein wiederhergestelltes Präparat wird so wieder seinen Tagebucheinträgen zugeordnet.
+   */
+  restoreFromTrash(id: string) {
+    const item = this.trash().find(i => i.id === id);
+    if (!item) return;
+
+    this.recordUndo('restoreFromTrash', () => {
+      this.trash.update(items => items.filter(i => i.id !== id));
+      if (item.entityType === 'CustomEmoji') {
+        const emoji = item.record as string;
+        this.customEmojis.update(emojis => emojis.includes(emoji) ? emojis : [...emojis, emoji]);
+        return;
+      }
+
+      const record = item.record as { id: string };
+      const upserts: StateChanges['upserts'] = {};
+      if (item.entityType === 'DiaryEntry') {
+        upserts.diaryEntries = [record];
+      } else {
+        upserts[CATALOG_COLLECTIONS[item.entityType]] = [record];
+        const reference = CATALOG_REFERENCES[item.entityType];
+        const unlinked = new Set(item.unlinkedIds ?? []);
+        if (reference && unlinked.size > 0) {
+          upserts[reference.collection] = (this.allRecords()[reference.collection] as (DiaryEntry | Preparation)[])
+            .filter(r => unlinked.has(r.id))
+            .map(r => restoreReference(r, reference, record.id));
+        }
+      }
+      this.applyChanges({ settings: {}, upserts, deletions: {} });
+    });
+  }
+
+  /**
+   * Entfernt einen Datensatz endgültig aus dem Papierkorb.
+   */
+  deleteFromTrash(id: string) {
+    this.trash.update(items => items.filter(i => i.id !== id));
+  }
+
+  /**
+   * Leert den Papierkorb des aktiven Profils.
+   */
+  emptyTrash() {
+    this.trash.set([]);
+  }
+
+  /**
+   * Entfernt in allen Profilen die Datensätze, deren Aufbewahrungsfrist abgelaufen ist.
+   */
+  purgeTrash(now = Date.now()) {
+    if (!this.isLoaded()) return;
+    const cutoff = now - this.trashSettings().retentionDays * DAY;
+    const expired = this.allRecords().trash.filter(item => Date.parse(item.deletedAt) < cutoff).map(item => item.id);
+    if (expired.length > 0) {
+      this.applyChanges({ settings: {}, upserts: {}, deletions: { trash: expired } });
     }
   }
 
+  // --- Aufbewahrungsrichtlinie ---
+
+  /**
+   * Ermittelt, was die Aufbewahrungsrichtlinie in allen Profilen entfernen würde.
+   * @param settings Die zu prüfende Richtlinie, z.B. eine noch nicht gespeicherte Änderung.
+   */
+  planRetention(settings = this.retentionSettings(), now = Date.now()): RetentionPlan {
+    const records = this.allRecords();
+    return planRetention(records.diaryEntries, records.trash, settings, now);
+  }
+
+  /**
+   * Entfernt die Einträge bzw. Notizen des Plans endgültig und protokolliert das. Die Undo-Historie
+   * wird geleert, da frühere Schritte die entfernten Daten wiederherstellen könnten.
+   * @param backupId Die vorher erstellte Sicherung, falls vorhanden.
+   * @returns Den Protokolleintrag oder `null`, wenn nichts zu entfernen war.
+   */
+  applyRetention(plan: RetentionPlan, backupId: string | null = null): RetentionLogEntry | null {
+    if (!this.isLoaded() || isRetentionPlanEmpty(plan)) return null;
+    this.applyChanges({
+      settings: {},
+      upserts: { diaryEntries: plan.strippedEntries, trash: plan.strippedTrash },
+      deletions: { diaryEntries: plan.deletedEntries.map(entry => entry.id), trash: plan.deletedTrashIds },
+    });
+    const logEntry: RetentionLogEntry = {
+      purgedAt: new Date().toISOString(),
+      deletedEntries: plan.deletedEntries.length + plan.deletedTrashIds.length,
+      strippedNotes: plan.strippedEntries.length + plan.strippedTrash.length,
+      backupId,
+    };
+    this.retentionLog.update(log => [logEntry, ...log].slice(0, RETENTION_LOG_SIZE));
+    this.clearUndoHistory();
+    return logEntry;
+  }
+
+  // --- Profile ---
+
+  /**
+   * Legt ein neues Profil an. Ein Profil mit eigenen Stammdaten beginnt mit den
+   * Standard-Stimmungen, -Effekten, -Symptomen und -Aktivitäten.
+   */
+  addProfile(profile: Omit<Profile, 'id'>): Profile {
+    const newProfile: Profile = { ...profile, id: this.generateId() };
+    this.profiles.update(profiles => [...profiles, newProfile]);
+    if (newProfile.separateCatalogs) {
+      const own = <T>(items: T[]) => items.map(item => ({ ...item, id: this.generateId(), profileId: newProfile.id }));
+      this.inactiveRecords.update(records => ({
+        ...records,
+        moods: [...records.moods, ...own(this.translationService.defaultMoods())],
+        effects: [...records.effects, ...own(this.translationService.defaultEffects())],
+        symptoms: [...records.symptoms, ...own(this.translationService.defaultSymptoms())],
+        activities: [...records.activities, ...own(this.translationService.defaultActivities())],
+      }));
+    }
+    return newProfile;
+  }
+
+  /**
+   * Ändert Name und Emoji eines Profils. Ob es eigene Stammdaten verwendet, bleibt unverändert.
+   */
+  updateProfile(updatedProfile: Profile) {
+    this.profiles.update(profiles => profiles.map(p =>
+      p.id === updatedProfile.id ? { ...updatedProfile, separateCatalogs: p.separateCatalogs } : p
+    ));
+  }
+
+  /**
+   * Löscht ein Profil samt Tagebucheinträgen, Erinnerungen und eigenen Stammdaten.
+   * Das aktive Profil kann nicht gelöscht werden.
+   */
+  deleteProfile(id: string) {
+    if (id === this.activeProfileId()) return;
+    this.profiles.update(profiles => profiles.filter(p => p.id !== id));
+    this.inactiveRecords.update(records => Object.fromEntries(PROFILE_COLLECTIONS.map(name => {
+      const isPersonal = PERSONAL_COLLECTIONS.includes(name);
+      const items = records[name] as CatalogItem[];
+      return [name, items.filter(item => (item.profileId ?? (isPersonal ? DEFAULT_PROFILE_ID : undefined)) !== id)];
+    })) as unknown as ProfileRecords);
+    // Frühere Schritte könnten Datensätze des gelöschten Profils wiederherstellen.
+    this.clearUndoHistory();
+  }
+
+  /**
+   * Wechselt das aktive Profil.
+   */
+  switchProfile(id: string) {
+    if (id === this.activeProfileId() || !this.profiles().some(p => p.id === id)) return;
+    const records = this.allRecords();
+    this.activeProfileId.set(id);
+    this.setRecords(records);
+  }
+
   toggleTheme() {
     this.theme.update(current => (current === 'light' ? 'dark' : 'light'));
   }
@@ -350,86 +1290,200 @@ export class DataService {
 
   /**
    * Erstellt einen JSON-String mit allen Anwendungsdaten für den Export.
+   * Als vollständige Sicherung enthält er die Daten aller Profile.
    * Die PIN wird aus Sicherheitsgründen ausgeschlossen.
    */
   exportData(): string {
     const { pin, ...safeLockSettings } = this.lockSettings(); // PIN vom Export ausschließen
     return JSON.stringify({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       theme: this.theme(),
       language: this.translationService.language(),
       lockSettings: safeLockSettings,
       moduleSettings: this.moduleSettings(),
-      moods: this.moods(),
-      effects: this.effects(),
-      symptoms: this.symptoms(),
-      activities: this.activities(),
-      manufacturers: this.manufacturers(),
-      dosages: this.dosages(),
-      activeIngredients: this.activeIngredients(),
-      preparations: this.preparations(),
-      ingredients: this.ingredients(),
-      diaryEntries: this.diaryEntries(),
-      reminders: this.reminders(),
+      backupSettings: this.backupSettings(),
+      trashSettings: this.trashSettings(),
+      retentionSettings: this.retentionSettings(),
+      activeProfileId: this.activeProfileId(),
+      profiles: this.profiles(),
+      ...this.allRecords(),
       customEmojis: this.customEmojis(),
     }, null, 2);
   }
   
   /**
-   * Importiert Daten aus einem JSON-String und überschreibt den aktuellen Zustand.
-   * Behandelt Sicherheitseinstellungen sorgfältig, um den Benutzer nicht auszusperren.
-   * @param json Der JSON-String mit den zu importierenden Daten.
-   * @returns `true` bei Erfolg, `false` bei einem Fehler.
+   * Exportiert alle Daten wie `exportData()`, verschlüsselt sie jedoch mit einem aus der
+   * Passphrase abgeleiteten Schlüssel.
+   * @param passphrase Die vom Benutzer gewählte Passphrase.
+   * @returns Der verschlüsselte Backup-Container als JSON-String.
+   */
+  async exportEncryptedData(passphrase: string): Promise<string> {
+    const salt = this.cryptoService.generateSalt();
+    const iterations = CryptoService.PBKDF2_ITERATIONS;
+    const key = await this.cryptoService.deriveKey(passphrase, salt, iterations);
+    const backup: EncryptedBackup = {
+      format: ENCRYPTED_BACKUP_FORMAT,
+      version: 1,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      ...await this.cryptoService.encrypt(key, this.exportData(), ENCRYPTED_BACKUP_FORMAT),
+    };
+    return JSON.stringify(backup, null, 2);
+  }
+
+  /**
+   * Exportiert die Einnahmen, Präparate und Beobachtungen des aktiven Profils als HL7 FHIR R4 Bundle.
+   * @returns Das Bundle als JSON-String.
+   */
+  exportFhirBundle(): string {
+    return JSON.stringify(toFhirBundle({ ...this.snapshot(), ...this.activeRecords() }), null, 2);
+  }
+
+  /**
+   * Liest eine Backup-Datei ein, ohne den aktuellen Zustand zu verändern.
+   * Verschlüsselte Backups werden erkannt und erfordern die Passphrase.
+   * Ältere Backups werden über die Migrationsschritte auf die aktuelle Schema-Version angehoben,
+   * Backups aus einer neueren App-Version werden abgelehnt. Anschließend wird der Inhalt
+   * strikt geprüft; ungültige Datensätze werden gemeldet und nicht übernommen.
+   * FHIR Bundles werden erkannt und vor der Prüfung in das Format der App umgewandelt;
+   * ihr Inhalt wird dem aktiven Profil zugeordnet.
+   * @param json Der Inhalt der Backup-Datei.
+   * @param passphrase Die Passphrase für ein verschlüsseltes Backup.
+   * @returns Die gültigen, migrierten Daten samt Prüfbericht oder die Fehlerursache.
    */
-  importData(json: string): boolean {
+  async readImportFile(json: string, passphrase?: string): Promise<ParsedImport> {
     try {
-      const data = JSON.parse(json);
-      this.theme.set(data.theme || 'light');
-      if (data.language && (data.language === 'en' || data.language === 'de')) {
-        this.translationService.setLanguage(data.language);
+      let parsed = JSON.parse(json);
+      if (isEncryptedBackup(parsed)) {
+        if (!passphrase) {
+          return { success: false, error: 'passphraseRequired' };
+        }
+        const decrypted = await this.decryptBackup(parsed, passphrase);
+        if (decrypted === null) {
+          return { success: false, error: 'wrongPassphrase' };
+        }
+        parsed = JSON.parse(decrypted);
       }
-      
-      // Sicheres Importieren der Sperreinstellungen. Die Sperre wird nur aktiviert, wenn sie
-      // im Backup aktiviert war UND bereits eine PIN auf dem aktuellen Gerät existiert.
-      // Dies verhindert, dass Benutzer ausgesperrt werden.
-      const importedSettings = data.lockSettings || {};
-      const currentPin = this.lockSettings().pin;
-
-      const shouldBeEnabled = importedSettings.isEnabled === true && !!currentPin;
-
-      this.lockSettings.set({
-        isEnabled: shouldBeEnabled,
-        pin: shouldBeEnabled ? currentPin : null,
-        timeout: importedSettings.timeout ?? 0,
-      });
-
-      const defaultModuleSettings: ModuleSettings = {
-        showMood: true,
-        showDosage: true,
-        showSymptoms: true,
-        showActivities: true,
-        showEffects: true,
-        showNote: true,
-        showDateGaps: true,
-        showIngredients: true,
-      };
-      this.moduleSettings.set({ ...defaultModuleSettings, ...(data.moduleSettings || {}) });
-      
-      this.moods.set(data.moods || []);
-      this.effects.set(data.effects || []);
-      this.symptoms.set(data.symptoms || []);
-      this.activities.set(data.activities || []);
-      this.manufacturers.set(data.manufacturers || []);
-      this.dosages.set(data.dosages || []);
-      this.activeIngredients.set(data.activeIngredients || []);
-      this.preparations.set(data.preparations || []);
-      this.ingredients.set(data.ingredients || []);
-      this.diaryEntries.set(data.diaryEntries || []);
-      this.reminders.set(data.reminders || []);
-      this.customEmojis.set(data.customEmojis || []);
-      return true;
+      const fhir = isFhirBundle(parsed);
+      const validation = validateImport(migrateToCurrent(fhir ? this.assignToActiveProfile(fromFhirBundle(parsed)) : parsed));
+      if (validation.issues.some(issue => issue.code === 'invalidRoot')) {
+        return { success: false, error: 'invalidFile' };
+      }
+      return { success: true, data: validation.validData, validation, isFhirBundle: fhir };
     } catch (e) {
-      console.error('Error importing data', e);
-      return false;
+      console.error('Error reading import file', e);
+      if (e instanceof UnsupportedSchemaVersionError) {
+        return { success: false, error: 'unsupportedSchemaVersion', schemaVersion: e.version };
+      }
+      return { success: false, error: 'invalidFile' };
+    }
+  }
+
+  /**
+   * Übernimmt eingelesene Importdaten und überschreibt den aktuellen Zustand.
+   * Behandelt Sicherheitseinstellungen sorgfältig, um den Benutzer nicht auszusperren.
+   * @param data Die mit `readImportFile()` eingelesenen Daten.
+   */
+  importData(payload: SchemaPayload): void {
+    // Die Daten wurden beim Einlesen mit `validateImport()` geprüft; ungültige Einstellungen fehlen.
+    const data = payload as Partial<PersistedState> & { language?: Language };
+    this.theme.set(data.theme || 'light');
+    if (data.language && (data.language === 'en' || data.language === 'de')) {
+      this.translationService.setLanguage(data.language);
+    }
+    
+    // Sicheres Importieren der Sperreinstellungen. Die Sperre wird nur aktiviert, wenn sie
+    // im Backup aktiviert war UND bereits eine PIN auf dem aktuellen Gerät existiert.
+    // Dies verhindert, dass Benutzer ausgesperrt werden.
+    const importedSettings: Partial<LockSettings> = data.lockSettings || {};
+    const currentPin = this.lockSettings().pin;
+
+    // Bei verschlüsselten Daten bleibt die Sperre aktiv, da der Schlüssel an die PIN gebunden ist.
+    const shouldBeEnabled = (importedSettings.isEnabled === true || this.isEncrypted()) && !!currentPin;
+
+    this.lockSettings.set({
+      isEnabled: shouldBeEnabled,
+      pin: shouldBeEnabled ? currentPin : null,
+      timeout: importedSettings.timeout ?? 0,
+    });
+
+    const defaultModuleSettings: ModuleSettings = {
+      showMood: true,
+      showDosage: true,
+      showSymptoms: true,
+      showActivities: true,
+      showEffects: true,
+      showNote: true,
+      showDateGaps: true,
+      showIngredients: true,
+    };
+    this.moduleSettings.set({ ...defaultModuleSettings, ...(data.moduleSettings || {}) });
+    this.backupSettings.set({ ...DEFAULT_BACKUP_SETTINGS, ...(data.backupSettings || {}) });
+    this.trashSettings.set({ ...DEFAULT_TRASH_SETTINGS, ...(data.trashSettings || {}) });
+    this.retentionSettings.set({ ...DEFAULT_RETENTION_SETTINGS, ...(data.retentionSettings || {}) });
+    
+    this.applyProfiles(data.profiles, data.activeProfileId, {
+      moods: data.moods || [],
+      effects: data.effects || [],
+      symptoms: data.symptoms || [],
+      activities: data.activities || [],
+      manufacturers: data.manufacturers || [],
+      dosages: data.dosages || [],
+      activeIngredients: data.activeIngredients || [],
+      preparations: data.preparations || [],
+      ingredients: data.ingredients || [],
+      diaryEntries: data.diaryEntries || [],
+      reminders: data.reminders || [],
+      trash: data.trash || [],
+    });
+    this.customEmojis.set(data.customEmojis || []);
+    this.clearUndoHistory();
+  }
+
+  /**
+   * Berechnet, wie die Importdaten mit dem aktuellen Zustand zusammengeführt würden.
+   * Der Zustand wird dabei nicht verändert, sodass die Zusammenfassung vorab angezeigt werden kann.
+   * @param data Die mit `readImportFile()` eingelesenen Daten.
+   */
+  previewMergeImport(data: SchemaPayload): MergeResult {
+    return mergeImport(this.snapshot(), data);
+  }
+
+  /**
+   * Übernimmt ein mit `previewMergeImport()` berechnetes Ergebnis. Einstellungen und Papierkorb
+   * bleiben unverändert.
+   */
+  applyMergeImport({ state }: MergeResult): void {
+    const { profiles, customEmojis, ...records } = state;
+    this.applyProfiles(profiles, this.activeProfileId(), { ...records, trash: this.allRecords().trash });
+    this.customEmojis.set(customEmojis);
+    this.clearUndoHistory();
+  }
+
+  /**
+   * Ordnet Daten ohne Profil (z.B. aus einem FHIR Bundle) dem aktiven Profil zu.
+   * Stammdaten werden nur bei einem Profil mit eigenen Stammdaten gekennzeichnet.
+   */
+  private assignToActiveProfile(data: SchemaPayload): SchemaPayload {
+    const result = { ...data };
+    for (const name of PROFILE_COLLECTIONS) {
+      const items = data[name];
+      if (!Array.isArray(items)) continue;
+      const owner = PERSONAL_COLLECTIONS.includes(name) ? { profileId: this.activeProfileId() } : this.catalogOwner();
+      result[name] = items.map((item: SchemaPayload) => ({ ...item, ...owner }));
+    }
+    return result;
+  }
+
+  /**
+   * Entschlüsselt einen Backup-Container.
+   * @returns Der enthaltene JSON-Export oder `null`, wenn die Passphrase falsch ist.
+   */
+  private async decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<string | null> {
+    const key = await this.cryptoService.deriveKey(passphrase, backup.kdf.salt, backup.kdf.iterations);
+    try {
+      return await this.cryptoService.decrypt<string>(key, backup, ENCRYPTED_BACKUP_FORMAT);
+    } catch {
+      return null;
     }
   }
 
@@ -449,17 +1503,82 @@ export class DataService {
         showDateGaps: true,
         showIngredients: true,
     });
-    this.moods.set(this.translationService.defaultMoods());
-    this.effects.set(this.translationService.defaultEffects());
-    this.symptoms.set(this.translationService.defaultSymptoms());
-    this.activities.set(this.translationService.defaultActivities());
-    this.manufacturers.set([]);
-    this.dosages.set([]);
-    this.activeIngredients.set([]);
-    this.preparations.set([]);
-    this.ingredients.set([]);
-    this.diaryEntries.set([]);
-    this.reminders.set([]);
+    this.backupSettings.set(DEFAULT_BACKUP_SETTINGS);
+    this.syncSettings.set(DEFAULT_SYNC_SETTINGS);
+    this.trashSettings.set(DEFAULT_TRASH_SETTINGS);
+    this.retentionSettings.set(DEFAULT_RETENTION_SETTINGS);
+    this.retentionLog.set([]);
+    this.applyProfiles([], undefined, this.defaultRecords());
     this.customEmojis.set([]);
+    this.clearUndoHistory();
+  }
+}
+
+/**
+ * Leere Listen für alle Sammlungen, die einem Profil gehören können.
+ */
+function emptyRecords(): ProfileRecords {
+  return Object.fromEntries(PROFILE_COLLECTIONS.map(name => [name, []])) as unknown as ProfileRecords;
+}
+
+/**
+ * Prüft, ob ein Datensatz im angegebenen Profil sichtbar ist: Tagebucheinträge und Erinnerungen
+ * des Profils sowie je nach Profil dessen eigene oder die gemeinsamen Stammdaten.
+ */
+function belongsToProfile(name: ProfileCollection, item: CatalogItem, profile: Profile | undefined): boolean {
+  const profileId = profile?.id ?? DEFAULT_PROFILE_ID;
+  if (PERSONAL_COLLECTIONS.includes(name)) {
+    return (item.profileId ?? DEFAULT_PROFILE_ID) === profileId;
+  }
+  return profile?.separateCatalogs ? item.profileId === profileId : !item.profileId;
+}
+
+/**
+ * Entfernt aus den Änderungen eines anderen Tabs alle Einstellungen und Datensätze, die
+ * gerade selbst geschrieben werden.
+ */
+function withoutPendingChanges(changes: StateChanges, pending: StateChanges): StateChanges {
+  const result: StateChanges = {
+    settings: Object.fromEntries(Object.entries(changes.settings).filter(([name]) => !(name in pending.settings))),
+    upserts: {},
+    deletions: {},
+  };
+  for (const name of COLLECTION_NAMES) {
+    const pendingIds = new Set([
+      ...(pending.upserts[name] ?? []).map(item => item.id),
+      ...(pending.deletions[name] ?? []),
+    ]);
+    const upserts = changes.upserts[name]?.filter(item => !pendingIds.has(item.id));
+    const deletions = changes.deletions[name]?.filter(id => !pendingIds.has(id));
+    if (upserts?.length) result.upserts[name] = upserts;
+    if (deletions?.length) result.deletions[name] = deletions;
   }
-}
\ No newline at end of file
+  return result;
+}
+
+/**
+ * Wendet die geschriebenen Datensätze und Löschungen einer Sammlung auf deren Datensätze an.
+ * Unveränderte Datensätze behalten ihre Referenz.
+ */
+function applyRecordChanges<T extends { id: string }>(items: T[], changes: StateChanges, name: CollectionName): T[] {
+  const upserts = (changes.upserts[name] ?? []) as T[];
+  const deletions = new Set(changes.deletions[name] ?? []);
+  if (upserts.length === 0 && deletions.size === 0) return items;
+
+  const upsertsById = new Map(upserts.map(item => [item.id, item]));
+  const result = items
+    .filter(item => !deletions.has(item.id))
+    .map(item => {
+      const updated = upsertsById.get(item.id);
+      upsertsById.delete(item.id);
+      return updated ?? item;
+    });
+  return [...result, ...upsertsById.values()];
+}
+
+/**
+ * Prüft, ob ein eingelesenes Objekt ein verschlüsselter Backup-Container ist.
+ */
+function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return typeof data === 'object' && data !== null && (data as EncryptedBackup).format === ENCRYPTED_BACKUP_FORMAT;
+}
@@ -0,0 +1,56 @@
+import { Injectable, inject } from '@angular/core';
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { TranslationService, TranslationKey } from './translation.service';
+import { ToastService } from './toast.service';
+
+/**
+ * FileService speichert exportierte Dateien, z.B. Backups, CSV-Exporte und Berichte.
+ */
+@Injectable({ providedIn: 'root' })
+export class FileService {
+  private translationService = inject(TranslationService);
+  private toastService = inject(ToastService);
+
+  /**
+   * Speichert eine Datei im Dokumente-Ordner (nativ) bzw. als Download (Web).
+   * Binärdaten (z.B. PDF) werden nativ Base64-kodiert an das Dateisystem-Plugin übergeben.
+   */
+  async saveFile(data: string | Uint8Array, fileName: string, mimeType = 'application/json', successKey: TranslationKey = 'backupSavedSuccess') {
+
+    if (Capacitor.isNativePlatform()) {
+      // Native (Android/iOS): Dateisystem-Plugin verwenden
+      try {
+        await Filesystem.writeFile({
+          path: fileName,
+          directory: Directory.Documents,
+          ...(typeof data === 'string' ? { data, encoding: Encoding.UTF8 } : { data: toBase64(data) }),
+        });
+        this.toastService.showSuccess(this.translationService.t(successKey).replace('{{fileName}}', fileName), 10000);
+      } catch (e) {
+        console.error('Unable to write file', e);
+        this.toastService.showError(this.translationService.t('backupSavedError'));
+      }
+    } else {
+      // Web-Fallback: Download über einen Blob-Link
+      const blob = new Blob([data as BlobPart], { type: mimeType });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  // In Blöcken umwandeln, um die maximale Argumentanzahl von `String.fromCharCode` nicht zu überschreiten.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -6,6 +6,12 @@ import { NativeBiometric } from 'capacitor-native-biometric';
 import { ToastService } from './toast.service';
 import { TranslationService } from './translation.service';
 
+/**
+ * Kennung, unter der die PIN für das biometrische Entsperren verschlüsselter Daten
+ * im sicheren Speicher des Geräts abgelegt wird.
+ */
+const CREDENTIALS_SERVER = 'medikamententagebuch';
+
 /**
  * LockService verwaltet die App-Sperre (PIN und Biometrie).
  * Er reagiert auf den App-Lebenszyklus, um die App bei Bedarf zu sperren,
@@ -36,7 +42,8 @@ export class LockService {
 
   constructor() {
     // Initialisiert den Sperrzustand basierend auf den Einstellungen beim App-Start.
-    this.isLocked.set(this.dataService.lockSettings().isEnabled);
+    // Verschlüsselte Daten können nur über den Sperrbildschirm entsperrt werden.
+    this.isLocked.set(this.dataService.lockSettings().isEnabled || this.dataService.isAwaitingDecryption());
     
     effect(() => {
         // Wenn die App-Sperre in den Einstellungen deaktiviert wird,
@@ -97,10 +104,18 @@ export class LockService {
   
   /**
    * Überprüft die eingegebene PIN gegen die gespeicherte PIN.
+   * Sind die Daten noch verschlüsselt, werden sie mit der PIN entschlüsselt.
    * @param pin Die zu überprüfende PIN.
    * @returns `true`, wenn die PIN korrekt ist, andernfalls `false`.
    */
-  checkPin(pin: string): boolean {
+  async checkPin(pin: string): Promise<boolean> {
+    if (this.dataService.isAwaitingDecryption()) {
+      const success = await this.dataService.unlockEncryptedData(pin);
+      if (success) {
+        this.unlock();
+      }
+      return success;
+    }
     const settings = this.dataService.lockSettings();
     if (settings.isEnabled && settings.pin === pin) {
       this.unlock();
@@ -124,6 +139,13 @@ export class LockService {
             reason: this.translationService.t('biometricReason'),
             title: this.translationService.t('appName'),
         });
+        if (this.dataService.isAwaitingDecryption()) {
+            // Für verschlüsselte Daten wird die im sicheren Speicher abgelegte PIN benötigt.
+            const credentials = await NativeBiometric.getCredentials({ server: CREDENTIALS_SERVER });
+            if (!(await this.dataService.unlockEncryptedData(credentials.password))) {
+                throw new Error('Stored PIN does not decrypt the data');
+            }
+        }
         this.unlock();
         return true;
     } catch (error) {
@@ -138,4 +160,33 @@ export class LockService {
         this.isVerifyingBiometrics = false;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Aktiviert die Verschlüsselung der gespeicherten Daten mit der angegebenen PIN
+   * bzw. verschlüsselt sie nach einer PIN-Änderung neu.
+   */
+  async enableEncryption(pin: string): Promise<void> {
+    await this.dataService.setEncryption(pin);
+    if (Capacitor.isNativePlatform() && this.isBiometricsAvailable()) {
+      try {
+        await NativeBiometric.setCredentials({ username: 'pin', password: pin, server: CREDENTIALS_SERVER });
+      } catch (error) {
+        console.error('Storing credentials for biometric unlock failed', error);
+      }
+    }
+  }
+
+  /**
+   * Deaktiviert die Verschlüsselung und entfernt die für Biometrie hinterlegte PIN.
+   */
+  async disableEncryption(): Promise<void> {
+    await this.dataService.setEncryption(null);
+    if (Capacitor.isNativePlatform()) {
+      try {
+        await NativeBiometric.deleteCredentials({ server: CREDENTIALS_SERVER });
+      } catch (error) {
+        console.error('Deleting credentials for biometric unlock failed', error);
+      }
+    }
+  }
+}
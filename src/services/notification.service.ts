@@ -5,10 +5,13 @@ import { LocalNotifications } from '@capacitor/local-notifications';
 import { TranslationService } from './translation.service';
 import { ToastService } from './toast.service';
 import { UiService } from './ui.service';
+import { Reminder } from '../models';
 
 /**
  * NotificationService verwaltet die Planung und Synchronisierung von
  * lokalen Benachrichtigungen basierend auf den Erinnerungen des Benutzers.
+ * Geplant werden die Erinnerungen aller Profile; bei mehreren Profilen nennt die
+ * Benachrichtigung das Profil und wechselt beim Antippen zu ihm.
  */
 @Injectable({ providedIn: 'root' })
 export class NotificationService {
@@ -25,7 +28,12 @@ export class NotificationService {
         // Dieser `effect` wird immer dann ausgeführt, wenn sich die Erinnerungen im DataService ändern.
         // Er sorgt dafür, dass die geplanten System-Benachrichtigungen immer auf dem neuesten Stand sind.
         effect(() => {
-            const reminders = this.dataService.reminders();
+            // Solange die verschlüsselten Daten nicht entsperrt sind, sind die Erinnerungen
+            // noch nicht geladen. Die geplanten Benachrichtigungen dürfen nicht gelöscht werden.
+            if (this.dataService.isAwaitingDecryption()) return;
+            const reminders = this.dataService.allReminders();
+            // Die Profilnamen stehen im Text der Benachrichtigungen.
+            this.dataService.profiles();
             console.log('Reminders changed, syncing notifications...', reminders);
             this.syncNotifications();
         });
@@ -66,13 +74,25 @@ export class NotificationService {
         }
     }
     
+    /**
+     * Der Text der Benachrichtigung. Bei mehreren Profilen wird das Profil der Erinnerung genannt.
+     */
+    private notificationBody(reminder: Reminder): string {
+        const t = this.translationService.translations();
+        const profiles = this.dataService.profiles();
+        const profile = profiles.find(p => p.id === reminder.profileId);
+        return profiles.length > 1 && profile
+            ? t.notificationBodyProfile.replace('{{profile}}', profile.name)
+            : t.notificationBody;
+    }
+
     /**
      * Zeigt eine Web-Benachrichtigung an und fügt einen Klick-Handler hinzu.
      */
-    private showWebNotification(): void {
+    private showWebNotification(reminder: Reminder): void {
         const t = this.translationService.translations();
         const notification = new Notification(t.notificationTitle, {
-            body: t.notificationBody,
+            body: this.notificationBody(reminder),
             icon: 'icon.svg'
         });
 
@@ -83,6 +103,7 @@ export class NotificationService {
                 window.focus(); 
                 console.log('Web notification tapped, opening diary entry form.');
                 // Löst die Navigation und das Öffnen des Formulars über den UiService aus
+                this.dataService.switchProfile(reminder.profileId);
                 this.uiService.navigateToPage.set('diary');
                 this.uiService.requestDiaryFormOpen.set(true);
             });
@@ -97,7 +118,7 @@ export class NotificationService {
     async syncNotifications(): Promise<void> {
         if (Capacitor.isNativePlatform()) {
             // --- Native Implementierung ---
-            const reminders = this.dataService.reminders();
+            const reminders = this.dataService.allReminders();
             const t = this.translationService.translations();
             const status = await LocalNotifications.checkPermissions();
 
@@ -122,13 +143,14 @@ export class NotificationService {
                         notificationsToSchedule.push({
                             id: notificationId,
                             title: t.notificationTitle,
-                            body: t.notificationBody,
+                            body: this.notificationBody(reminder),
                             schedule: { on: { weekday: day, hour, minute }, repeats: true },
                             largeIcon: 'ic_launcher', // Das Haupt-App-Icon (farbig)
                             smallIcon: 'ic_stat_pill', // Das monochrome Statusleisten-Icon
                             sound: 'default',
                             extra: {
-                                action: 'open_entry_form'
+                                action: 'open_entry_form',
+                                profileId: reminder.profileId
                             }
                         });
                     }
@@ -149,7 +171,7 @@ export class NotificationService {
                 return;
             }
 
-            const reminders = this.dataService.reminders();
+            const reminders = this.dataService.allReminders();
             const now = new Date();
 
             for (const reminder of reminders) {
@@ -171,7 +193,7 @@ export class NotificationService {
                     
                     if (delay > 0) {
                         const timeoutId = setTimeout(() => {
-                            this.showWebNotification();
+                            this.showWebNotification(reminder);
                             // Nach kurzer Verzögerung neu synchronisieren, um die nächste Benachrichtigung zu planen.
                             setTimeout(() => this.syncNotifications(), 1000);
                         }, delay);
@@ -0,0 +1,248 @@
+import { Injectable, inject } from '@angular/core';
+import { DataService } from './data.service';
+import { TranslationService } from './translation.service';
+import { StatisticsService, PreparationStat } from './statistics.service';
+import { toDateKey } from './csv.service';
+import { PdfDocument } from '../pdf-document';
+import { DiaryEntry, EffectPerception } from '../models';
+
+/**
+ * Optionen für den Arztbericht. Die Grenzen sind lokale Kalendertage im Format `YYYY-MM-DD`
+ * und schließen den jeweiligen Tag mit ein.
+ */
+export interface DoctorReportOptions {
+  from?: string;
+  to?: string;
+  includeNotes: boolean;
+}
+
+/**
+ * Anzahl der Einträge in den Ranglisten für Effekte und Symptome.
+ */
+const TOP_LIST_LIMIT = 10;
+
+/**
+ * ReportService erstellt einen druckbaren Arztbericht als PDF-Datei. Der Bericht entsteht
+ * vollständig auf dem Gerät und verwendet dieselben Auswertungen wie die Statistik-Ansicht.
+ * Abschnitte für in den Einstellungen deaktivierte Module werden ausgelassen.
+ */
+@Injectable({ providedIn: 'root' })
+export class ReportService {
+  private dataService = inject(DataService);
+  private statisticsService = inject(StatisticsService);
+  private translationService = inject(TranslationService);
+
+  /**
+   * Erstellt den Arztbericht für den angegebenen Zeitraum.
+   * @returns Der Inhalt der PDF-Datei.
+   */
+  createDoctorReport(options: DoctorReportOptions): Uint8Array {
+    const t = this.translationService.translations();
+    const lang = this.translationService.language();
+    const modules = this.dataService.moduleSettings();
+    const formatDate = (date: Date) => date.toLocaleDateString(lang, { year: 'numeric', month: '2-digit', day: '2-digit' });
+    const formatDay = (day: string | undefined, fallback: string) =>
+      day ? formatDate(new Date(`${day}T00:00:00`)) : fallback;
+    const percent = (count: number, total: number) =>
+      `${(count / total * 100).toLocaleString(lang, { maximumFractionDigits: 0 })} %`;
+    const prepNames = (stats: PreparationStat[]) =>
+      stats.slice(0, 3).map(stat => `${stat.prep.name} (${stat.count})`).join(', ');
+
+    const entries = this.dataService.sortedDiaryEntries()
+      .filter(entry => {
+        const day = toDateKey(new Date(entry.datetime));
+        return (!options.from || day >= options.from) && (!options.to || day <= options.to);
+      })
+      .reverse();
+
+    const doc = new PdfDocument(t.reportTitle);
+    doc.heading(t.reportTitle, 1);
+    const firstDay = entries.length > 0 ? toDateKey(new Date(entries[0].datetime)) : undefined;
+    const lastDay = entries.length > 0 ? toDateKey(new Date(entries[entries.length - 1].datetime)) : undefined;
+    const profile = this.dataService.activeProfile();
+    doc.paragraph([
+      ...(profile && this.dataService.profiles().length > 1 ? [t.reportProfile.replace('{{name}}', profile.name)] : []),
+      t.reportPeriod
+        .replace('{{from}}', formatDay(options.from ?? firstDay, '–'))
+        .replace('{{to}}', formatDay(options.to ?? lastDay, '–')),
+      t.reportCreatedAt.replace('{{date}}', formatDate(new Date())),
+      t.reportEntryCount.replace('{{count}}', String(entries.length)),
+    ].join('\n'));
+
+    if (entries.length === 0) {
+      doc.paragraph(t.reportNoEntries);
+      return doc.toBytes((page, pageCount) => this.footer(page, pageCount));
+    }
+
+    // --- Einnahmen je Präparat ---
+    const intakes = this.statisticsService.topPreparations(entries, Infinity);
+    doc.heading(t.reportIntakeTitle);
+    if (intakes.length === 0) {
+      doc.paragraph(t.reportNoData);
+    } else {
+      const columns = [
+        { header: t.csvPreparation, width: 3 },
+        { header: t.csvManufacturer, width: 2.5 },
+        { header: t.csvActiveIngredient, width: 2 },
+        { header: t.reportIntakes, width: 1.5, align: 'right' as const },
+        { header: t.reportIntakeDays, width: 1.5, align: 'right' as const },
+      ];
+      if (modules.showDosage) {
+        columns.push({ header: t.reportDosageTotal, width: 2.5, align: 'right' as const });
+      }
+      doc.table(columns, intakes.map(stat => {
+        const prepEntries = entries.filter(entry => entry.preparationId === stat.prep.id);
+        const days = new Set(prepEntries.map(entry => toDateKey(new Date(entry.datetime))));
+        const row = [
+          stat.prep.name,
+          stat.man?.name ?? '',
+          stat.ai ? `${stat.ai.amount} ${stat.ai.unit}` : '',
+          String(stat.count),
+          String(days.size),
+        ];
+        if (modules.showDosage) {
+          row.push(this.dosageTotals(prepEntries, lang));
+        }
+        return row;
+      }));
+    }
+
+    // --- Stimmungsverteilung ---
+    if (modules.showMood) {
+      const moodCounts = this.countBy(entries.flatMap(entry => entry.mood ? [entry.mood] : []), mood => mood.id, mood => mood.description);
+      const moodTotal = moodCounts.reduce((sum, mood) => sum + mood.count, 0);
+      const moodPreps = new Map(this.statisticsService.moodStats(entries).map(stat => [stat.moodName, stat.topPreps]));
+      doc.heading(t.reportMoodTitle);
+      if (moodCounts.length === 0) {
+        doc.paragraph(t.reportNoData);
+      } else {
+        doc.table(
+          [
+            { header: t.csvMood, width: 3 },
+            { header: t.reportCount, width: 1.5, align: 'right' },
+            { header: t.reportShare, width: 1.5, align: 'right' },
+            { header: t.reportTopPreparations, width: 6 },
+          ],
+          moodCounts.map(mood => [mood.label, String(mood.count), percent(mood.count, moodTotal), prepNames(moodPreps.get(mood.label) ?? [])])
+        );
+      }
+    }
+
+    // --- Häufigste Effekte ---
+    if (modules.showEffects) {
+      const effectStats = this.statisticsService.categorizedEffectStats(entries);
+      const effectPreps = new Map([...effectStats.positive, ...effectStats.negative].map(stat => [stat.effectName, stat.topPreps]));
+      const perceptions = new Map(entries.flatMap(entry => entry.effects).map(effect => [effect.id, effect.perception]));
+      const perceptionLabels: Record<EffectPerception, string> = {
+        positive: t.formPerceptionPositive,
+        negative: t.formPerceptionNegative,
+        neutral: t.formPerceptionNeutral,
+      };
+      const effectCounts = this.countBy(entries.flatMap(entry => entry.effects), effect => effect.id, effect => effect.description);
+      doc.heading(t.reportEffectsTitle);
+      if (effectCounts.length === 0) {
+        doc.paragraph(t.reportNoData);
+      } else {
+        doc.table(
+          [
+            { header: t.csvEffects, width: 3 },
+            { header: t.reportPerception, width: 1.8 },
+            { header: t.reportCount, width: 1.5, align: 'right' },
+            { header: t.reportTopPreparations, width: 5.7 },
+          ],
+          effectCounts.slice(0, TOP_LIST_LIMIT).map(effect => [
+            effect.label,
+            perceptionLabels[perceptions.get(effect.key) ?? 'neutral'],
+            String(effect.count),
+            prepNames(effectPreps.get(effect.label) ?? []),
+          ])
+        );
+      }
+    }
+
+    // --- Häufigste Symptome ---
+    if (modules.showSymptoms) {
+      const symptoms = new Map(this.dataService.symptoms().map(s => [s.id, s]));
+      const symptomCounts = this.countBy(
+        entries.flatMap(entry => entry.symptomIds ?? []).filter(id => symptoms.has(id)),
+        id => id,
+        id => symptoms.get(id)!.description
+      );
+      doc.heading(t.reportSymptomsTitle);
+      if (symptomCounts.length === 0) {
+        doc.paragraph(t.reportNoData);
+      } else {
+        doc.table(
+          [
+            { header: t.csvSymptoms, width: 4 },
+            { header: t.reportCount, width: 1.5, align: 'right' },
+            { header: t.reportShare, width: 1.5, align: 'right' },
+          ],
+          symptomCounts.slice(0, TOP_LIST_LIMIT).map(symptom => [symptom.label, String(symptom.count), percent(symptom.count, entries.length)])
+        );
+      }
+    }
+
+    // --- Notizen ---
+    if (options.includeNotes && modules.showNote) {
+      const preparations = new Map(this.dataService.preparations().map(p => [p.id, p]));
+      const notes = entries.filter(entry => entry.note?.trim());
+      doc.heading(t.reportNotesTitle);
+      if (notes.length === 0) {
+        doc.paragraph(t.reportNoData);
+      } else {
+        doc.table(
+          [
+            { header: t.csvDate, width: 2.2 },
+            { header: t.csvPreparation, width: 2.8 },
+            { header: t.csvNote, width: 7 },
+          ],
+          notes.map(entry => [
+            `${formatDate(new Date(entry.datetime))} ${new Date(entry.datetime).toLocaleTimeString(lang, { hour: '2-digit', minute: '2-digit' })}`,
+            preparations.get(entry.preparationId ?? '')?.name ?? '',
+            entry.note!.trim(),
+          ])
+        );
+      }
+    }
+
+    return doc.toBytes((page, pageCount) => this.footer(page, pageCount));
+  }
+
+  private footer(page: number, pageCount: number): string {
+    const t = this.translationService.translations();
+    return `${t.reportTitle} – ${t.reportPage.replace('{{page}}', String(page)).replace('{{count}}', String(pageCount))}`;
+  }
+
+  /**
+   * Summiert die Dosierungen der Einträge je Einheit, z.B. "1.200 mg, 3 Tabletten".
+   */
+  private dosageTotals(entries: DiaryEntry[], lang: string): string {
+    const totals = new Map<string, number>();
+    for (const entry of entries) {
+      if (!entry.dosage) continue;
+      const unit = entry.dosage.unit.trim();
+      totals.set(unit, (totals.get(unit) ?? 0) + entry.dosage.amount);
+    }
+    return Array.from(totals.entries())
+      .map(([unit, amount]) => `${amount.toLocaleString(lang, { maximumFractionDigits: 2 })} ${unit}`)
+      .join(', ');
+  }
+
+  /**
+   * Zählt gleichartige Elemente und sortiert sie absteigend nach Häufigkeit.
+   */
+  private countBy<T>(items: T[], key: (item: T) => string, label: (item: T) => string): { key: string; label: string; count: number }[] {
+    const counts = new Map<string, { key: string; label: string; count: number }>();
+    for (const item of items) {
+      const k = key(item);
+      const existing = counts.get(k);
+      if (existing) {
+        existing.count++;
+      } else {
+        counts.set(k, { key: k, label: label(item), count: 1 });
+      }
+    }
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+  }
+}
@@ -0,0 +1,96 @@
+import { Injectable, inject, effect, untracked, signal } from '@angular/core';
+import { DataService, RetentionLogEntry, RetentionSettings } from './data.service';
+import { BackupService } from './backup.service';
+import { ToastService } from './toast.service';
+import { TranslationService } from './translation.service';
+import { RetentionPlan, isRetentionPlanEmpty } from '../retention';
+
+/**
+ * Eine Vorschau der Aufbewahrung, die der Benutzer bestätigen muss.
+ */
+export interface RetentionPreview {
+  settings: RetentionSettings;
+  plan: RetentionPlan;
+}
+
+/**
+ * RetentionService prüft die Aufbewahrungsrichtlinie beim Start der App, bei verschlüsselten
+ * Daten nach dem Entsperren. Würde sie Daten entfernen, wird zuerst eine Vorschau angezeigt;
+ * entfernt wird erst nach der Bestätigung. Auf Wunsch wird vorher eine Sicherung erstellt;
+ * scheitert sie, wird nichts entfernt.
+ */
+@Injectable({ providedIn: 'root' })
+export class RetentionService {
+  private dataService = inject(DataService);
+  private backupService = inject(BackupService);
+  private toastService = inject(ToastService);
+  private translationService = inject(TranslationService);
+
+  /**
+   * Die angezeigte Vorschau oder `null`, wenn keine Bestätigung aussteht.
+   */
+  preview = signal<RetentionPreview | null>(null);
+
+  private hasRunOnStartup = false;
+
+  constructor() {
+    effect(() => {
+      if (this.dataService.isAwaitingDecryption()) return;
+      untracked(() => {
+        if (this.hasRunOnStartup) return;
+        this.hasRunOnStartup = true;
+        this.requestConfirmation(this.dataService.retentionSettings());
+      });
+    });
+  }
+
+  /**
+   * Zeigt die Vorschau für die angegebene Richtlinie an.
+   * @returns `false`, wenn die Richtlinie nichts entfernen würde.
+   */
+  requestConfirmation(settings: RetentionSettings): boolean {
+    const plan = this.dataService.planRetention(settings);
+    if (isRetentionPlanEmpty(plan)) return false;
+    this.preview.set({ settings, plan });
+    return true;
+  }
+
+  /**
+   * Verwirft die Vorschau. Beim nächsten Start wird erneut gefragt.
+   */
+  cancel() {
+    this.preview.set(null);
+  }
+
+  /**
+   * Übernimmt die Richtlinie der Vorschau und wendet sie an.
+   */
+  async confirm(): Promise<void> {
+    const preview = this.preview();
+    if (!preview) return;
+    this.preview.set(null);
+    this.dataService.retentionSettings.set(preview.settings);
+    const t = this.translationService.translations();
+    try {
+      const logEntry = await this.run(preview.settings);
+      this.toastService.showSuccess(t.retentionPurged
+        .replace('{{deleted}}', String(logEntry?.deletedEntries ?? 0))
+        .replace('{{notes}}', String(logEntry?.strippedNotes ?? 0)));
+    } catch (e) {
+      console.error('Retention backup failed', e);
+      this.toastService.showError(t.retentionBackupFailed);
+    }
+  }
+
+  /**
+   * Wendet die Richtlinie an.
+   * @returns Den Protokolleintrag oder `null`, wenn nichts zu entfernen war.
+   * @throws Wenn die vorherige Sicherung fehlschlägt.
+   */
+  private async run(settings: RetentionSettings): Promise<RetentionLogEntry | null> {
+    if (isRetentionPlanEmpty(this.dataService.planRetention(settings))) return null;
+    const backupId = settings.backupFirst ? (await this.backupService.createBackup()).id : null;
+    // Während der Sicherung können sich die Daten geändert haben.
+    return this.dataService.applyRetention(this.dataService.planRetention(settings), backupId);
+  }
+}
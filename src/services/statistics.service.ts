@@ -0,0 +1,152 @@
+import { Injectable, inject } from '@angular/core';
+import { DataService } from './data.service';
+import { ActiveIngredient, DiaryEntry, EffectPerception, Manufacturer, Preparation } from '../models';
+
+/**
+ * Interface zur Strukturierung von Präparat-Statistiken, inklusive zugehöriger Details.
+ */
+export interface PreparationStat {
+  prep: Preparation;
+  man: Manufacturer | undefined;
+  ai: ActiveIngredient | undefined;
+  count: number;
+}
+
+/**
+ * Die am häufigsten bei einer Stimmung eingenommenen Präparate.
+ */
+export interface MoodStat {
+  moodName: string;
+  emoji: string;
+  topPreps: PreparationStat[];
+}
+
+/**
+ * Die am häufigsten mit einem Effekt assoziierten Präparate.
+ */
+export interface EffectStat {
+  effectName: string;
+  emoji: string;
+  topPreps: PreparationStat[];
+}
+
+/**
+ * StatisticsService bündelt die Auswertungen der Tagebucheinträge, die sowohl in der
+ * Statistik-Ansicht als auch im Arztbericht verwendet werden. Alle Methoden arbeiten auf
+ * einer beliebigen (z.B. gefilterten) Liste von Einträgen.
+ */
+@Injectable({ providedIn: 'root' })
+export class StatisticsService {
+  private dataService = inject(DataService);
+
+  /**
+   * Berechnet die am häufigsten verwendeten Präparate.
+   * @param limit Die maximale Anzahl der Präparate, standardmäßig die Top 5.
+   */
+  topPreparations(entries: DiaryEntry[], limit = 5): PreparationStat[] {
+    const counts = new Map<string, number>();
+    for (const entry of entries) {
+      if (entry.preparationId) {
+        counts.set(entry.preparationId, (counts.get(entry.preparationId) || 0) + 1);
+      }
+    }
+    return this.sortedPrepStats(counts).slice(0, limit);
+  }
+
+  /**
+   * Berechnet, welche Präparate am häufigsten bei bestimmten Stimmungen eingenommen wurden.
+   */
+  moodStats(entries: DiaryEntry[]): MoodStat[] {
+    const stats = new Map<string, { moodName: string, emoji: string, counts: Map<string, number> }>();
+    for (const entry of entries) {
+      if (!entry.preparationId || !entry.mood) continue;
+
+      if (!stats.has(entry.mood.id)) {
+        stats.set(entry.mood.id, { moodName: entry.mood.description, emoji: entry.mood.emoji, counts: new Map() });
+      }
+
+      const moodStat = stats.get(entry.mood.id)!;
+      moodStat.counts.set(entry.preparationId, (moodStat.counts.get(entry.preparationId) || 0) + 1);
+    }
+
+    const result: MoodStat[] = [];
+    stats.forEach((value) => {
+      result.push({
+        moodName: value.moodName,
+        emoji: value.emoji,
+        topPreps: this.sortedPrepStats(value.counts).slice(0, 5),
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Berechnet, welche Präparate am häufigsten mit bestimmten Effekten assoziiert sind,
+   * getrennt nach positiv und negativ wahrgenommenen Effekten.
+   */
+  categorizedEffectStats(entries: DiaryEntry[]): { positive: EffectStat[], negative: EffectStat[] } {
+    const stats = new Map<string, {
+      effectName: string,
+      emoji: string,
+      perception: EffectPerception,
+      counts: Map<string, number>
+    }>();
+
+    for (const entry of entries) {
+      if (!entry.preparationId) continue;
+
+      for (const effect of entry.effects) {
+        if (!stats.has(effect.id)) {
+          stats.set(effect.id, {
+            effectName: effect.description,
+            emoji: effect.emoji,
+            perception: effect.perception,
+            counts: new Map()
+          });
+        }
+        const effectStat = stats.get(effect.id)!;
+        effectStat.counts.set(entry.preparationId, (effectStat.counts.get(entry.preparationId) || 0) + 1);
+      }
+    }
+
+    const result: { positive: EffectStat[], negative: EffectStat[] } = { positive: [], negative: [] };
+
+    stats.forEach((value) => {
+      const statObject = {
+        effectName: value.effectName,
+        emoji: value.emoji,
+        topPreps: this.sortedPrepStats(value.counts).slice(0, 5)
+      };
+
+      if (statObject.topPreps.length > 0) {
+          switch(value.perception) {
+            case 'positive':
+              result.positive.push(statObject);
+              break;
+            case 'negative':
+              result.negative.push(statObject);
+              break;
+          }
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Löst gezählte Präparat-IDs in Präparate samt Hersteller und Wirkstoff auf und sortiert
+   * sie absteigend nach Häufigkeit. Gelöschte Präparate werden ausgelassen.
+   */
+  sortedPrepStats(counts: Map<string, number>): PreparationStat[] {
+    return Array.from(counts.entries())
+      .map(([prepId, count]) => {
+        const prep = this.dataService.preparations().find(p => p.id === prepId);
+        if (!prep) return null;
+        const man = this.dataService.manufacturers().find(m => m.id === prep.manufacturerId);
+        const ai = this.dataService.activeIngredients().find(a => a.id === prep.activeIngredientId);
+        return { prep, man, ai, count };
+      })
+      .filter((item): item is PreparationStat => item !== null)
+      .sort((a, b) => b.count - a.count);
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable, inject, signal, computed, effect, untracked } from '@angular/core';
+import { DataService } from './data.service';
+import { StorageService, StorageEstimate } from './storage.service';
+import { ToastService } from './toast.service';
+import { TranslationService } from './translation.service';
+import { UiService } from './ui.service';
+import { StorageLevel, storageLevel } from '../storage-usage';
+
+/**
+ * Abstand, in dem der Speicherplatz nach Änderungen höchstens neu ermittelt wird.
+ */
+const REFRESH_INTERVAL = 60 * 1000;
+
+const LEVEL_ORDER: StorageLevel[] = ['ok', 'warning', 'critical'];
+
+/**
+ * StorageMonitorService behält den belegten Speicherplatz im Blick. Wird es knapp, warnt er,
+ * bevor Schreibvorgänge scheitern; scheitern sie doch, meldet er das und bietet an, erneut zu
+ * speichern. Solange Änderungen nicht gespeichert sind, fragt der Browser vor dem Schließen nach.
+ */
+@Injectable({ providedIn: 'root' })
+export class StorageMonitorService {
+  private dataService = inject(DataService);
+  private storageService = inject(StorageService);
+  private toastService = inject(ToastService);
+  private translationService = inject(TranslationService);
+  private uiService = inject(UiService);
+
+  /**
+   * Der zuletzt ermittelte Speicherplatz oder `null`, wenn der Browser ihn nicht meldet.
+   */
+  estimate = signal<StorageEstimate | null>(null);
+  level = computed<StorageLevel>(() => {
+    const estimate = this.estimate();
+    return estimate ? storageLevel(estimate) : 'ok';
+  });
+
+  /**
+   * Die zuletzt ermittelte Stufe. Gewarnt wird nur, wenn eine höhere erreicht wird.
+   */
+  private warnedLevel: StorageLevel = 'ok';
+  private lastRefreshAt = 0;
+
+  constructor() {
+    effect(() => {
+      this.dataService.records();
+      untracked(() => {
+        if (Date.now() - this.lastRefreshAt >= REFRESH_INTERVAL) void this.refresh();
+      });
+    });
+
+    effect(() => {
+      const error = this.dataService.storageWriteError();
+      if (!error) return;
+      untracked(() => {
+        this.toastService.show(this.translationService.t(error === 'quota' ? 'storageWriteFailedQuota' : 'storageWriteFailed'), 'error', 0, {
+          label: this.translationService.t('storageRetry'),
+          run: () => this.dataService.retryPersist(),
+        });
+        void this.refresh();
+      });
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', event => {
+        if (this.dataService.storageWriteError()) event.preventDefault();
+      });
+    }
+  }
+
+  /**
+   * Ermittelt den Speicherplatz neu und warnt, wenn er eine höhere Stufe erreicht hat.
+   */
+  async refresh(): Promise<void> {
+    this.lastRefreshAt = Date.now();
+    try {
+      this.estimate.set(await this.storageService.estimate());
+    } catch (e) {
+      console.error('Error estimating storage usage', e);
+      return;
+    }
+    const level = this.level();
+    if (LEVEL_ORDER.indexOf(level) > LEVEL_ORDER.indexOf(this.warnedLevel)) {
+      const message = this.translationService.t(level === 'critical' ? 'storageCriticalWarning' : 'storageWarning');
+      this.toastService.show(message, level === 'critical' ? 'error' : 'info', 10000, {
+        label: this.translationService.t('storageDetails'),
+        run: () => this.uiService.navigateToPage.set('settings'),
+      });
+    }
+    this.warnedLevel = level;
+  }
+}
@@ -0,0 +1,751 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  Mood,
+  Effect,
+  Manufacturer,
+  Dosage,
+  ActiveIngredient,
+  Preparation,
+  DiaryEntry,
+  Reminder,
+  Symptom,
+  Activity,
+  Ingredient,
+  Profile,
+  TrashItem,
+} from '../models';
+import { BackupSettings, LockSettings, ModuleSettings, RetentionLogEntry, RetentionSettings, SyncSettings, TrashSettings } from './data.service';
+import { CryptoService, EncryptedPayload } from './crypto.service';
+
+/**
+ * Schlüssel, unter dem der Zustand früher als ein einzelner JSON-Blob im Local Storage lag.
+ */
+export const LEGACY_STORAGE_KEY = 'medikamententagebuch';
+
+/**
+ * Namen aller Entitäts-Sammlungen, die datensatzweise gespeichert werden.
+ */
+export const COLLECTION_NAMES = [
+  'profiles',
+  'moods',
+  'effects',
+  'symptoms',
+  'activities',
+  'manufacturers',
+  'dosages',
+  'activeIngredients',
+  'preparations',
+  'ingredients',
+  'diaryEntries',
+  'reminders',
+  'trash',
+] as const;
+
+export type CollectionName = typeof COLLECTION_NAMES[number];
+
+/**
+ * Namen der einfachen Einstellungswerte, die als Ganzes gespeichert werden.
+ */
+export const SETTING_NAMES = ['schemaVersion', 'theme', 'lockSettings', 'moduleSettings', 'backupSettings', 'syncSettings', 'trashSettings', 'retentionSettings', 'retentionLog', 'activeProfileId', 'customEmojis'] as const;
+
+export type SettingName = typeof SETTING_NAMES[number];
+
+/**
+ * Einstellungen mit Zugangsdaten (Passwort und Passphrase der Synchronisation). Bei aktiver
+ * Verschlüsselung werden sie wie die Datensätze verschlüsselt, da sie erst nach dem Entsperren
+ * benötigt werden.
+ */
+const ENCRYPTED_SETTING_NAMES: readonly SettingName[] = ['syncSettings'];
+
+/**
+ * Der vollständige, persistierte Anwendungszustand.
+ */
+export interface PersistedState {
+  schemaVersion: number;
+  theme: 'light' | 'dark';
+  lockSettings: LockSettings;
+  moduleSettings: ModuleSettings;
+  backupSettings: BackupSettings;
+  syncSettings: SyncSettings;
+  trashSettings: TrashSettings;
+  retentionSettings: RetentionSettings;
+  retentionLog: RetentionLogEntry[];
+  activeProfileId: string;
+  profiles: Profile[];
+  moods: Mood[];
+  effects: Effect[];
+  symptoms: Symptom[];
+  activities: Activity[];
+  manufacturers: Manufacturer[];
+  dosages: Dosage[];
+  activeIngredients: ActiveIngredient[];
+  preparations: Preparation[];
+  ingredients: Ingredient[];
+  diaryEntries: DiaryEntry[];
+  reminders: Reminder[];
+  trash: TrashItem[];
+  customEmojis: string[];
+}
+
+/**
+ * Metadaten der Verschlüsselung im Ruhezustand. Das Salt dient der Schlüsselableitung aus der PIN,
+ * mit `keyCheck` lässt sich prüfen, ob eine eingegebene PIN den richtigen Schlüssel ergibt.
+ */
+export interface EncryptionMetadata {
+  salt: string;
+  iterations: number;
+  keyCheck: EncryptedPayload;
+}
+
+/**
+ * Die vom Backend gespeicherten Einstellungswerte, inklusive der internen Verschlüsselungs-Metadaten.
+ */
+export type StoredSettings = Pick<PersistedState, SettingName> & { encryption: EncryptionMetadata | null };
+
+/**
+ * Der Zustand, wie ihn ein Backend liefert. Datensätze können verschlüsselt sein.
+ */
+export type StoredState = Partial<PersistedState> & { encryption?: EncryptionMetadata | null };
+
+/**
+ * Ein verschlüsselter Datensatz. Nur die ID bleibt lesbar, da sie als Schlüssel im Speicher dient.
+ */
+interface EncryptedRecord extends EncryptedPayload {
+  id: string;
+}
+
+/**
+ * Beschreibt die Änderungen seit dem letzten Speichern.
+ * Nur diese Datensätze werden vom Backend geschrieben bzw. gelöscht.
+ */
+export interface StateChanges {
+  settings: Partial<StoredSettings>;
+  upserts: Partial<Record<CollectionName, { id: string }[]>>;
+  deletions: Partial<Record<CollectionName, string[]>>;
+}
+
+/**
+ * Nachricht an die übrigen geöffneten Tabs der App. Nach dem Speichern werden die geschriebenen
+ * Änderungen verschickt; ändert sich die Verschlüsselung, laden die anderen Tabs neu.
+ */
+type TabMessage = { type: 'changes'; changes: StateChanges } | { type: 'reload' };
+
+/**
+ * Name des `BroadcastChannel`, über den sich die Tabs abstimmen.
+ */
+const TAB_CHANNEL_NAME = 'medikamententagebuch';
+
+/**
+ * Belegter und verfügbarer Speicherplatz in Bytes.
+ */
+export interface StorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+/**
+ * Obergrenze des Local Storage. Browser erlauben meist 5 Mio. Zeichen je Origin, gespeichert als
+ * UTF-16, also zwei Bytes je Zeichen; `navigator.storage.estimate` berücksichtigt das nicht.
+ */
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024 * 2;
+
+/**
+ * Schnittstelle für austauschbare Speicher-Backends.
+ */
+export interface StorageBackend {
+  readonly name: string;
+  /**
+   * Lädt den gespeicherten Zustand. Gibt `null` zurück, wenn noch nichts gespeichert wurde.
+   */
+  load(): Promise<StoredState | null>;
+  /**
+   * Schreibt die übergebenen Änderungen.
+   */
+  write(changes: StateChanges): Promise<void>;
+  /**
+   * Ermittelt den belegten und verfügbaren Speicherplatz oder `null`, wenn der Browser ihn nicht meldet.
+   */
+  estimate(): Promise<StorageEstimate | null>;
+}
+
+/**
+ * Prüft, ob ein Änderungsobjekt überhaupt etwas zu schreiben enthält.
+ */
+export function hasChanges(changes: StateChanges): boolean {
+  return Object.keys(changes.settings).length > 0
+    || Object.values(changes.upserts).some(items => items.length > 0)
+    || Object.values(changes.deletions).some(ids => ids.length > 0);
+}
+
+/**
+ * Fasst zwei Änderungsobjekte zusammen, die Änderungen in `next` haben Vorrang.
+ */
+export function mergeChanges(previous: StateChanges, next: StateChanges): StateChanges {
+  const merged: StateChanges = { settings: { ...previous.settings, ...next.settings }, upserts: {}, deletions: {} };
+  for (const name of COLLECTION_NAMES) {
+    const nextUpserts = next.upserts[name] ?? [];
+    const nextDeletions = next.deletions[name] ?? [];
+    const nextIds = new Set([...nextUpserts.map(item => item.id), ...nextDeletions]);
+    const upserts = [...(previous.upserts[name] ?? []).filter(item => !nextIds.has(item.id)), ...nextUpserts];
+    const deletions = [...(previous.deletions[name] ?? []).filter(id => !nextIds.has(id)), ...nextDeletions];
+    if (upserts.length > 0) merged.upserts[name] = upserts;
+    if (deletions.length > 0) merged.deletions[name] = deletions;
+  }
+  return merged;
+}
+
+/**
+ * Bringt Änderungen, deren Schreiben fehlgeschlagen ist, auf den aktuellen Stand: Jeder betroffene
+ * Datensatz wird mit seinem aktuellen Inhalt geschrieben bzw. gelöscht, wenn es ihn nicht mehr gibt.
+ * So überschreibt ein späterer Versuch keine inzwischen gespeicherten neueren Änderungen.
+ */
+export function refreshChanges(changes: StateChanges, current: PersistedState): StateChanges {
+  const refreshed: StateChanges = { settings: {}, upserts: {}, deletions: {} };
+  for (const name of SETTING_NAMES) {
+    if (name in changes.settings) (refreshed.settings as Record<string, unknown>)[name] = current[name];
+  }
+  for (const name of COLLECTION_NAMES) {
+    const ids = [...(changes.upserts[name] ?? []).map(item => item.id), ...(changes.deletions[name] ?? [])];
+    if (ids.length === 0) continue;
+    const currentById = new Map((current[name] as { id: string }[]).map(item => [item.id, item]));
+    const upserts = ids.flatMap(id => currentById.get(id) ?? []);
+    const deletions = ids.filter(id => !currentById.has(id));
+    if (upserts.length > 0) refreshed.upserts[name] = upserts;
+    if (deletions.length > 0) refreshed.deletions[name] = deletions;
+  }
+  return refreshed;
+}
+
+/**
+ * Prüft, ob ein Schreibvorgang am erschöpften Speicherplatz gescheitert ist. Firefox verwendet
+ * für den Local Storage einen eigenen Namen.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+/**
+ * Ermittelt die Änderungen zwischen zwei Zuständen. Da die Signals immer neue Objekte
+ * für geänderte Datensätze erzeugen, genügt ein Vergleich der Referenzen.
+ * @param previous Der zuletzt gespeicherte Zustand (oder `null`, wenn alles neu ist).
+ * @param current Der aktuelle Zustand.
+ */
+export function diffStates(previous: Partial<PersistedState> | null, current: PersistedState): StateChanges {
+  const changes: StateChanges = { settings: {}, upserts: {}, deletions: {} };
+
+  for (const name of SETTING_NAMES) {
+    if (previous?.[name] !== current[name]) {
+      (changes.settings as Record<string, unknown>)[name] = current[name];
+    }
+  }
+
+  for (const name of COLLECTION_NAMES) {
+    const currentItems = current[name] as { id: string }[];
+    const previousItems = (previous?.[name] ?? []) as { id: string }[];
+    if (previousItems === currentItems) continue;
+
+    const previousById = new Map(previousItems.map(item => [item.id, item]));
+    const upserts = currentItems.filter(item => previousById.get(item.id) !== item);
+    const currentIds = new Set(currentItems.map(item => item.id));
+    const deletions = previousItems.filter(item => !currentIds.has(item.id)).map(item => item.id);
+
+    if (upserts.length > 0) changes.upserts[name] = upserts;
+    if (deletions.length > 0) changes.deletions[name] = deletions;
+  }
+
+  return changes;
+}
+
+/**
+ * Speichert den gesamten Zustand wie bisher als einzelnen JSON-Blob im Local Storage.
+ * Dient als Fallback, wenn IndexedDB nicht verfügbar ist. Die Änderungen werden auf den
+ * aktuell gespeicherten Blob angewendet, der anschließend vollständig geschrieben wird. Er wird
+ * dafür jedes Mal neu gelesen, damit Änderungen aus anderen Tabs nicht überschrieben werden.
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly name = 'localStorage';
+  private stored: StoredState = {};
+
+  async load(): Promise<StoredState | null> {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+    this.stored = data ? JSON.parse(data) : {};
+    return data ? this.stored : null;
+  }
+
+  async write(changes: StateChanges): Promise<void> {
+    const data = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const stored: StoredState = data ? JSON.parse(data) : this.stored;
+    const next: Record<string, unknown> = { ...stored, ...changes.settings };
+    for (const name of COLLECTION_NAMES) {
+      const upserts = changes.upserts[name] ?? [];
+      const deletions = new Set(changes.deletions[name] ?? []);
+      if (upserts.length === 0 && deletions.size === 0) continue;
+
+      const upsertsById = new Map(upserts.map(item => [item.id, item]));
+      const current = next[name];
+      const items = (Array.isArray(current) ? current as { id: string }[] : [])
+        .filter(item => !deletions.has(item.id))
+        .map(item => {
+          const updated = upsertsById.get(item.id);
+          upsertsById.delete(item.id);
+          return updated ?? item;
+        });
+      next[name] = [...items, ...upsertsById.values()];
+    }
+    localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(next));
+    this.stored = next as StoredState;
+  }
+
+  /**
+   * Zählt die Zeichen aller Schlüssel und Werte im Local Storage, auch die anderer Teile der App.
+   */
+  async estimate(): Promise<StorageEstimate | null> {
+    let length = 0;
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)!;
+      length += key.length + (localStorage.getItem(key)?.length ?? 0);
+    }
+    return { usage: length * 2, quota: LOCAL_STORAGE_QUOTA };
+  }
+}
+
+/**
+ * Speichert Tagebucheinträge und Stammdaten in getrennten IndexedDB-Object-Stores.
+ * Geschrieben werden nur die geänderten Datensätze, nicht der gesamte Zustand.
+ */
+export class IndexedDbBackend implements StorageBackend {
+  readonly name = 'indexedDB';
+  private static readonly DB_NAME = 'medikamententagebuch';
+  private static readonly DB_VERSION = 3;
+  private static readonly SETTINGS_STORE = 'settings';
+
+  private constructor(private db: IDBDatabase) {}
+
+  /**
+   * Öffnet die Datenbank und legt bei Bedarf die Object-Stores an.
+   */
+  static async open(): Promise<IndexedDbBackend> {
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(IndexedDbBackend.DB_NAME, IndexedDbBackend.DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        for (const name of COLLECTION_NAMES) {
+          if (!database.objectStoreNames.contains(name)) {
+            database.createObjectStore(name, { keyPath: 'id' });
+          }
+        }
+        if (!database.objectStoreNames.contains(IndexedDbBackend.SETTINGS_STORE)) {
+          database.createObjectStore(IndexedDbBackend.SETTINGS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB upgrade blocked'));
+    });
+    return new IndexedDbBackend(db);
+  }
+
+  async load(): Promise<StoredState | null> {
+    const storeNames = [IndexedDbBackend.SETTINGS_STORE, ...COLLECTION_NAMES];
+    const tx = this.db.transaction(storeNames, 'readonly');
+
+    // Alle Anfragen werden vor dem ersten `await` gestellt, damit die Transaktion aktiv bleibt.
+    const settingsStore = tx.objectStore(IndexedDbBackend.SETTINGS_STORE);
+    const settingKeysRequest = requestToPromise(settingsStore.getAllKeys());
+    const settingValuesRequest = requestToPromise(settingsStore.getAll());
+    const collectionRequests = COLLECTION_NAMES.map(name => requestToPromise(tx.objectStore(name).getAll()));
+
+    const [settingKeys, settingValues, ...collections] = await Promise.all([
+      settingKeysRequest,
+      settingValuesRequest,
+      ...collectionRequests,
+    ]);
+
+    const isEmpty = settingKeys.length === 0 && collections.every(items => items.length === 0);
+    if (isEmpty) return null;
+
+    const state: Record<string, unknown> = {};
+    settingKeys.forEach((key, index) => state[String(key)] = settingValues[index]);
+    COLLECTION_NAMES.forEach((name, index) => state[name] = collections[index]);
+    return state as StoredState;
+  }
+
+  async write(changes: StateChanges): Promise<void> {
+    const touchedCollections = COLLECTION_NAMES.filter(name => changes.upserts[name] || changes.deletions[name]);
+    const storeNames: string[] = [...touchedCollections];
+    if (Object.keys(changes.settings).length > 0) {
+      storeNames.push(IndexedDbBackend.SETTINGS_STORE);
+    }
+    if (storeNames.length === 0) return;
+
+    const tx = this.db.transaction(storeNames, 'readwrite');
+    for (const [key, value] of Object.entries(changes.settings)) {
+      tx.objectStore(IndexedDbBackend.SETTINGS_STORE).put(value, key);
+    }
+    for (const name of touchedCollections) {
+      const store = tx.objectStore(name);
+      changes.upserts[name]?.forEach(item => store.put(item));
+      changes.deletions[name]?.forEach(id => store.delete(id));
+    }
+    await transactionToPromise(tx);
+  }
+
+  /**
+   * Der Browser meldet den Speicherplatz der gesamten Origin, also einschließlich der Sicherungen.
+   */
+  async estimate(): Promise<StorageEstimate | null> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+  }
+}
+
+/**
+ * Fester Wert, der mit dem Schlüssel verschlüsselt wird, um eine PIN überprüfen zu können.
+ */
+const KEY_CHECK_VALUE = 'medikamententagebuch';
+
+/**
+ * Der StorageService wählt das passende Speicher-Backend aus und übernimmt
+ * beim ersten Start die Migration des alten Local-Storage-Blobs nach IndexedDB.
+ *
+ * Optional verschlüsselt er alle Datensätze mit einem aus der PIN abgeleiteten Schlüssel.
+ * Die Einstellungen bleiben lesbar, damit der Sperrbildschirm vor dem Entschlüsseln angezeigt
+ * werden kann; die PIN selbst wird bei aktiver Verschlüsselung nicht gespeichert.
+ *
+ * Ist die App in mehreren Tabs geöffnet, teilt er jedem anderen Tab die geschriebenen Änderungen
+ * über einen `BroadcastChannel` mit, damit dieser seinen Zustand nachführen kann.
+ */
+@Injectable({ providedIn: 'root' })
+export class StorageService {
+  private cryptoService = inject(CryptoService);
+  private backend: StorageBackend | null = null;
+  /**
+   * Kette der ausstehenden Schreibvorgänge, damit diese in der richtigen Reihenfolge ausgeführt werden.
+   */
+  private writeQueue: Promise<void> = Promise.resolve();
+  private encryption: EncryptionMetadata | null = null;
+  private key: CryptoKey | null = null;
+  /**
+   * Der geladene, noch verschlüsselte Zustand, bis er mit der PIN entsperrt wird.
+   */
+  private lockedState: StoredState | null = null;
+  private channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(TAB_CHANNEL_NAME) : null;
+  private remoteChangesHandler: ((changes: StateChanges) => void) | null = null;
+  /**
+   * Kette der Änderungen anderer Tabs, damit sie trotz Entschlüsselung in der richtigen Reihenfolge übernommen werden.
+   */
+  private remoteQueue: Promise<void> = Promise.resolve();
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleTabMessage(event.data);
+    }
+  }
+
+  /**
+   * Gibt an, ob die Daten verschlüsselt gespeichert werden.
+   */
+  isEncrypted(): boolean {
+    return this.encryption !== null;
+  }
+
+  /**
+   * Gibt an, ob verschlüsselte Daten geladen wurden, die noch mit der PIN entsperrt werden müssen.
+   */
+  isAwaitingUnlock(): boolean {
+    return this.lockedState !== null;
+  }
+
+  /**
+   * Initialisiert das Backend und lädt den gespeicherten Zustand.
+   * Bei verschlüsselten Daten werden nur die unverschlüsselten Einstellungen zurückgegeben; die
+   * Datensätze und Zugangsdaten stehen erst nach `unlock()` zur Verfügung.
+   * @returns Der gespeicherte Zustand oder `null`, wenn die App zum ersten Mal gestartet wird.
+   */
+  async load(): Promise<Partial<PersistedState> | null> {
+    this.backend = await this.createBackend();
+    let stored = await this.backend.load();
+    if (!stored && !(this.backend instanceof LocalStorageBackend)) {
+      stored = await this.migrateLegacyData(this.backend);
+    }
+    if (!stored) return null;
+
+    const { encryption, ...state } = stored;
+    this.encryption = encryption ?? null;
+    if (!this.encryption) {
+      return state;
+    }
+    this.lockedState = state;
+    return Object.fromEntries(SETTING_NAMES
+      .filter(name => name in state && !ENCRYPTED_SETTING_NAMES.includes(name))
+      .map(name => [name, state[name]]));
+  }
+
+  /**
+   * Entschlüsselt die geladenen Daten mit der PIN.
+   * @param pin Die vom Benutzer eingegebene PIN.
+   * @returns Der entschlüsselte Zustand oder `null`, wenn die PIN falsch ist.
+   */
+  async unlock(pin: string): Promise<Partial<PersistedState> | null> {
+    if (!this.encryption || !this.lockedState) return null;
+
+    const key = await this.cryptoService.deriveKey(pin, this.encryption.salt, this.encryption.iterations);
+    try {
+      await this.cryptoService.decrypt(key, this.encryption.keyCheck);
+    } catch {
+      return null;
+    }
+
+    // Seit dem Laden kann ein anderer Tab weitere Änderungen gespeichert haben.
+    const { encryption, ...stored } = await this.requireBackend().load() ?? this.lockedState;
+    const state = await this.decryptState(stored, key);
+    this.key = key;
+    this.lockedState = null;
+    return state;
+  }
+
+  /**
+   * Schreibt die übergebenen Änderungen in das aktive Backend.
+   */
+  write(changes: StateChanges): Promise<void> {
+    return this.enqueue(async () => {
+      const backend = this.requireBackend();
+      if (!this.encryption) {
+        await backend.write(changes);
+        this.broadcast({ type: 'changes', changes });
+        return;
+      }
+      if (!this.key) {
+        throw new Error('Encrypted storage is locked');
+      }
+      const encrypted = await this.encryptChanges(changes, this.key);
+      await backend.write(encrypted);
+      // Die anderen Tabs haben dieselbe PIN eingegeben, sie wird daher nicht mitgeschickt.
+      // Die Zugangsdaten gehen verschlüsselt hinaus und werden dort mit demselben Schlüssel entschlüsselt.
+      this.broadcast({ type: 'changes', changes: { ...changes, settings: encrypted.settings } });
+    });
+  }
+
+  /**
+   * Ermittelt den belegten und verfügbaren Speicherplatz des aktiven Backends.
+   */
+  async estimate(): Promise<StorageEstimate | null> {
+    return this.backend ? this.backend.estimate() : null;
+  }
+
+  /**
+   * Registriert die Funktion, die die von einem anderen Tab gespeicherten Änderungen übernimmt.
+   */
+  onRemoteChanges(handler: (changes: StateChanges) => void) {
+    this.remoteChangesHandler = handler;
+  }
+
+  /**
+   * Aktiviert die Verschlüsselung (oder verschlüsselt mit einer neuen PIN neu)
+   * und schreibt den gesamten Zustand verschlüsselt.
+   * @param pin Die PIN, aus der der Schlüssel abgeleitet wird.
+   * @param state Der vollständige aktuelle Zustand.
+   */
+  enableEncryption(pin: string, state: PersistedState): Promise<void> {
+    return this.enqueue(async () => {
+      const salt = this.cryptoService.generateSalt();
+      const iterations = CryptoService.PBKDF2_ITERATIONS;
+      const key = await this.cryptoService.deriveKey(pin, salt, iterations);
+      const encryption: EncryptionMetadata = {
+        salt,
+        iterations,
+        keyCheck: await this.cryptoService.encrypt(key, KEY_CHECK_VALUE),
+      };
+
+      const changes = await this.encryptChanges(diffStates(null, state), key);
+      changes.settings.encryption = encryption;
+      await this.requireBackend().write(changes);
+      this.encryption = encryption;
+      this.key = key;
+      this.broadcast({ type: 'reload' });
+    });
+  }
+
+  /**
+   * Deaktiviert die Verschlüsselung und schreibt den gesamten Zustand wieder unverschlüsselt.
+   * @param state Der vollständige aktuelle Zustand.
+   */
+  disableEncryption(state: PersistedState): Promise<void> {
+    return this.enqueue(async () => {
+      const changes = diffStates(null, state);
+      changes.settings.encryption = null;
+      await this.requireBackend().write(changes);
+      this.encryption = null;
+      this.key = null;
+      this.broadcast({ type: 'reload' });
+    });
+  }
+
+  private broadcast(message: TabMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch (e) {
+      console.error('Error notifying other tabs', e);
+    }
+  }
+
+  /**
+   * Verarbeitet eine Nachricht eines anderen Tabs. Nach einem Wechsel der Verschlüsselung passen
+   * Schlüssel und Sperrzustand nicht mehr zu den gespeicherten Daten, daher wird neu geladen.
+   */
+  private handleTabMessage(message: TabMessage) {
+    if (message.type === 'reload') {
+      location.reload();
+    } else {
+      this.remoteQueue = this.remoteQueue
+        .then(async () => {
+          const settings = await this.decryptSettings(message.changes.settings, this.key);
+          this.remoteChangesHandler?.({ ...message.changes, settings });
+        })
+        .catch(e => console.error('Error applying changes of another tab', e));
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  private requireBackend(): StorageBackend {
+    if (!this.backend) {
+      throw new Error('StorageService used before load()');
+    }
+    return this.backend;
+  }
+
+  /**
+   * Verschlüsselt alle Datensätze und Zugangsdaten eines Änderungsobjekts und entfernt die PIN
+   * aus den Sperreinstellungen.
+   */
+  private async encryptChanges(changes: StateChanges, key: CryptoKey): Promise<StateChanges> {
+    const upserts: StateChanges['upserts'] = {};
+    for (const name of COLLECTION_NAMES) {
+      const items = changes.upserts[name];
+      if (items) {
+        upserts[name] = await Promise.all(items.map(async item => ({
+          id: item.id,
+          ...await this.cryptoService.encrypt(key, item, `${name}:${item.id}`),
+        })));
+      }
+    }
+
+    // Statt der Zugangsdaten wird ihr verschlüsselter Wert gespeichert.
+    const settings: Record<string, unknown> = { ...changes.settings };
+    if (changes.settings.lockSettings) {
+      settings['lockSettings'] = { ...changes.settings.lockSettings, pin: null };
+    }
+    for (const name of ENCRYPTED_SETTING_NAMES) {
+      if (settings[name] !== undefined) {
+        settings[name] = await this.cryptoService.encrypt(key, settings[name], `settings:${name}`);
+      }
+    }
+    return { settings: settings as StateChanges['settings'], upserts, deletions: changes.deletions };
+  }
+
+  /**
+   * Entschlüsselt die Zugangsdaten in den Einstellungen. Ohne Schlüssel (gesperrter Tab) fallen sie weg.
+   */
+  private async decryptSettings<T extends object>(settings: T, key: CryptoKey | null): Promise<T> {
+    const decrypted = { ...settings } as Record<string, unknown>;
+    for (const name of ENCRYPTED_SETTING_NAMES) {
+      const value = decrypted[name];
+      if (!isEncryptedPayload(value)) continue;
+      if (key) {
+        decrypted[name] = await this.cryptoService.decrypt(key, value, `settings:${name}`);
+      } else {
+        delete decrypted[name];
+      }
+    }
+    return decrypted as T;
+  }
+
+  /**
+   * Entschlüsselt alle Datensätze und Zugangsdaten. Unverschlüsselte Werte (z.B. nach einem
+   * abgebrochenen Umschlüsseln) werden unverändert übernommen.
+   */
+  private async decryptState(state: StoredState, key: CryptoKey): Promise<Partial<PersistedState>> {
+    const decrypted: Record<string, unknown> = await this.decryptSettings(state, key);
+    for (const name of COLLECTION_NAMES) {
+      const items = state[name] as unknown[] | undefined;
+      if (!items) continue;
+      decrypted[name] = await Promise.all(items.map(item =>
+        isEncryptedRecord(item) ? this.cryptoService.decrypt(key, item, `${name}:${item.id}`) : item
+      ));
+    }
+    return decrypted as Partial<PersistedState>;
+  }
+
+  /**
+   * Bevorzugt IndexedDB und fällt auf den Local Storage zurück, wenn IndexedDB
+   * nicht verfügbar ist (z.B. in manchen privaten Browserfenstern).
+   */
+  private async createBackend(): Promise<StorageBackend> {
+    if (typeof indexedDB !== 'undefined') {
+      try {
+        return await IndexedDbBackend.open();
+      } catch (e) {
+        console.error('IndexedDB unavailable, falling back to localStorage', e);
+      }
+    }
+    return new LocalStorageBackend();
+  }
+
+  /**
+   * Übernimmt einen vorhandenen Local-Storage-Blob in das neue Backend und entfernt ihn danach.
+   */
+  private async migrateLegacyData(backend: StorageBackend): Promise<StoredState | null> {
+    const legacy = await new LocalStorageBackend().load();
+    if (!legacy) return null;
+
+    const state = legacy as PersistedState;
+    const changes = diffStates(null, {
+      ...state,
+      // Fehlende Sammlungen als leer behandeln, damit der Diff nicht fehlschlägt.
+      ...Object.fromEntries(COLLECTION_NAMES.map(name => [name, state[name] ?? []])),
+    });
+    // Nicht vorhandene Einstellungen nicht als `undefined` speichern.
+    for (const name of SETTING_NAMES) {
+      if (state[name] === undefined) delete changes.settings[name];
+    }
+    if (legacy.encryption !== undefined) {
+      changes.settings.encryption = legacy.encryption;
+    }
+    await backend.write(changes);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return legacy;
+  }
+}
+
+function isEncryptedRecord(item: unknown): item is EncryptedRecord {
+  if (typeof item !== 'object' || item === null) return false;
+  const keys = Object.keys(item);
+  return keys.length === 3 && 'id' in item && 'iv' in item && 'data' in item;
+}
+
+function isEncryptedPayload(value: unknown): value is EncryptedPayload {
+  if (typeof value !== 'object' || value === null) return false;
+  const keys = Object.keys(value);
+  return keys.length === 2 && 'iv' in value && 'data' in value;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionToPromise(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
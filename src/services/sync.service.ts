@@ -0,0 +1,474 @@
+import { Injectable, inject, signal, effect, untracked } from '@angular/core';
+import { DataService, SyncSettings } from './data.service';
+import { CryptoService, EncryptedPayload } from './crypto.service';
+import { COLLECTION_NAMES, CollectionName, PersistedState } from './storage.service';
+import { CURRENT_SCHEMA_VERSION } from '../migrations';
+import {
+  ModificationTimes,
+  SYNC_FORMAT,
+  SyncDocument,
+  mergeSyncRecords,
+  recordKey,
+  toModificationTimes,
+  toSyncRecords,
+} from '../sync-document';
+
+/**
+ * Zustand der Synchronisation, wie er in der Kopfzeile angezeigt wird.
+ * `pending`: Es gibt lokale Änderungen, die noch nicht auf dem Server sind.
+ */
+export type SyncStatus = 'disabled' | 'idle' | 'pending' | 'syncing' | 'offline' | 'error';
+
+/**
+ * Gründe, aus denen eine Synchronisation fehlschlagen kann.
+ */
+export type SyncErrorReason = 'auth' | 'passphrase' | 'newerVersion' | 'server';
+
+class SyncError extends Error {
+  constructor(public readonly reason: SyncErrorReason, message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+/**
+ * Die Sync-Datei hat sich während der Synchronisation geändert (auf dem Server oder lokal).
+ */
+class SyncRetryError extends Error {}
+
+/**
+ * Eine mit der Sync-Passphrase verschlüsselte Sync-Datei. Aufbau wie bei verschlüsselten Backups.
+ */
+interface EncryptedSyncDocument extends EncryptedPayload {
+  format: typeof SYNC_FORMAT;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    salt: string;
+    iterations: number;
+  };
+}
+
+/**
+ * Die Sync-Datei, wie sie vom Server geladen wurde.
+ */
+interface RemoteFile {
+  content: string;
+  etag: string | null;
+}
+
+/**
+ * Schnittstelle zum Ablageort der Sync-Datei.
+ */
+interface SyncTransport {
+  /**
+   * Lädt die Sync-Datei. Gibt `null` zurück, wenn es sie noch nicht gibt.
+   */
+  get(): Promise<RemoteFile | null>;
+  /**
+   * Schreibt die Sync-Datei, aber nur, wenn sie seit dem Laden mit dem angegebenen ETag
+   * nicht verändert wurde (`null`: nur, wenn es sie noch nicht gibt).
+   * @throws SyncRetryError Wenn die Datei inzwischen verändert wurde.
+   */
+  put(content: string, etag: string | null): Promise<void>;
+}
+
+/**
+ * Name der Sync-Datei im konfigurierten WebDAV-Ordner.
+ */
+const SYNC_FILE_NAME = 'medikamententagebuch-sync.json';
+
+/**
+ * Schlüssel im Local Storage für die Änderungszeitpunkte und den Stand der letzten Synchronisation.
+ */
+const JOURNAL_KEY = 'medikamententagebuch-sync';
+
+/**
+ * Wartezeit nach einer lokalen Änderung, damit mehrere Änderungen gemeinsam übertragen werden.
+ */
+const CHANGE_DELAY = 5 * 1000;
+
+/**
+ * Abstand, in dem Änderungen anderer Geräte abgeholt werden.
+ */
+const SYNC_INTERVAL = 5 * 60 * 1000;
+
+/**
+ * Wie oft eine Synchronisation wiederholt wird, wenn die Sync-Datei gleichzeitig geändert wurde.
+ */
+const MAX_ATTEMPTS = 3;
+
+/**
+ * Der lokale Stand der Synchronisation. Die Änderungszeitpunkte gehören nicht zu den Datensätzen
+ * selbst, sondern werden hier mitgeführt; so bleiben Datenmodell und Exporte unverändert.
+ */
+interface SyncJournal {
+  modified: ModificationTimes;
+  lastSyncAt: string | null;
+  /**
+   * Gibt an, ob lokale Änderungen noch nicht übertragen wurden, z.B. weil das Gerät offline war.
+   */
+  pending: boolean;
+}
+
+/**
+ * Überträgt die Sync-Datei per WebDAV (z.B. Nextcloud). Gleichzeitige Änderungen durch andere
+ * Geräte werden über ETags erkannt.
+ */
+class WebDavTransport implements SyncTransport {
+  private fileUrl: string;
+  private authorization: string | null;
+
+  constructor(settings: Pick<SyncSettings, 'url' | 'username' | 'password'>) {
+    this.fileUrl = `${settings.url.trim().replace(/\/+$/, '')}/${SYNC_FILE_NAME}`;
+    this.authorization = settings.username
+      ? `Basic ${encodeBase64(`${settings.username}:${settings.password}`)}`
+      : null;
+  }
+
+  async get(): Promise<RemoteFile | null> {
+    const response = await fetch(this.fileUrl, { method: 'GET', headers: this.headers(), cache: 'no-store' });
+    if (response.status === 404) return null;
+    this.check(response);
+    return { content: await response.text(), etag: response.headers.get('ETag') };
+  }
+
+  async put(content: string, etag: string | null): Promise<void> {
+    const headers = this.headers();
+    headers['Content-Type'] = 'application/json';
+    if (etag) {
+      headers['If-Match'] = etag;
+    } else {
+      headers['If-None-Match'] = '*';
+    }
+    const response = await fetch(this.fileUrl, { method: 'PUT', headers, body: content });
+    if (response.status === 412) {
+      throw new SyncRetryError('Sync file was changed by another device');
+    }
+    this.check(response);
+  }
+
+  private headers(): Record<string, string> {
+    return this.authorization ? { Authorization: this.authorization } : {};
+  }
+
+  private check(response: Response) {
+    if (response.status === 401 || response.status === 403) {
+      throw new SyncError('auth', `WebDAV authentication failed (${response.status})`);
+    }
+    if (!response.ok) {
+      throw new SyncError('server', `WebDAV request failed (${response.status})`);
+    }
+  }
+}
+
+/**
+ * SyncService gleicht die Daten über eine Sync-Datei auf einem selbst betriebenen WebDAV-Server
+ * zwischen mehreren Geräten ab.
+ *
+ * Jede lokale Änderung eines Datensatzes wird mit ihrem Zeitpunkt vermerkt. Beim Synchronisieren
+ * wird die Sync-Datei geladen, je Datensatz mit dem lokalen Stand zusammengeführt (die jüngere
+ * Änderung gewinnt), das Ergebnis zurückgeschrieben und lokal übernommen. Ohne Verbindung bleiben
+ * die Änderungen vermerkt und werden übertragen, sobald der Server wieder erreichbar ist.
+ * Synchronisiert werden alle Datensätze aller Profile, nicht aber die Einstellungen.
+ */
+@Injectable({ providedIn: 'root' })
+export class SyncService {
+  private dataService = inject(DataService);
+  private cryptoService = inject(CryptoService);
+
+  status = signal<SyncStatus>('disabled');
+  lastSyncAt = signal<string | null>(loadJournal().lastSyncAt);
+  lastError = signal<SyncErrorReason | null>(null);
+  /**
+   * Anzahl der Konflikte bei der letzten Synchronisation.
+   */
+  lastConflicts = signal(0);
+
+  /**
+   * Der zuletzt verarbeitete Stand der Datensätze, um Änderungen zu erkennen.
+   */
+  private lastSeen: Pick<PersistedState, CollectionName> | null = null;
+  private running: Promise<void> | null = null;
+  private isRerunRequested = false;
+  private changeTimer: ReturnType<typeof setTimeout> | null = null;
+  private cachedKey: { passphrase: string; salt: string; key: CryptoKey } | null = null;
+
+  constructor() {
+    // Vermerkt die Änderungszeitpunkte. Solange die verschlüsselten Daten nicht entsperrt sind,
+    // ist nichts geladen; der erste Durchlauf danach ist der Ausgangszustand.
+    effect(() => {
+      if (this.dataService.isAwaitingDecryption()) return;
+      const records = this.dataService.records();
+      untracked(() => this.trackChanges(records));
+    });
+
+    effect(() => {
+      const settings = this.dataService.syncSettings();
+      untracked(() => {
+        if (this.isConfigured(settings)) {
+          this.updateStatus();
+          void this.sync();
+        } else {
+          this.status.set('disabled');
+        }
+      });
+    });
+
+    setInterval(() => void this.sync(), SYNC_INTERVAL);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => void this.sync());
+    }
+  }
+
+  /**
+   * Synchronisiert sofort. Läuft bereits eine Synchronisation, folgt im Anschluss eine weitere;
+   * das Ergebnis wird erst nach dieser erfüllt.
+   */
+  sync(): Promise<void> {
+    if (this.running) {
+      this.isRerunRequested = true;
+      return this.running.then(() => this.running ?? undefined);
+    }
+    this.running = this.run().finally(() => {
+      this.running = null;
+      if (this.isRerunRequested) {
+        this.isRerunRequested = false;
+        void this.sync();
+      }
+    });
+    return this.running;
+  }
+
+  /**
+   * Vergisst den Stand der Synchronisation, z.B. nach dem Zurücksetzen der App. Lokal gelöschte
+   * Datensätze werden dadurch nicht auf dem Server gelöscht, sondern bei der nächsten
+   * Synchronisation wieder übernommen.
+   */
+  reset() {
+    localStorage.removeItem(JOURNAL_KEY);
+    this.lastSeen = this.dataService.records();
+    this.lastSyncAt.set(null);
+    this.lastConflicts.set(0);
+    this.lastError.set(null);
+  }
+
+  /**
+   * Prüft die Verbindung zum Server, z.B. beim Einrichten. Die Sync-Datei wird dabei nur gelesen.
+   * @returns `null` bei Erfolg, sonst der Grund des Fehlschlags bzw. `'offline'`.
+   */
+  async testConnection(settings: SyncSettings): Promise<SyncErrorReason | 'offline' | null> {
+    try {
+      const file = await new WebDavTransport(settings).get();
+      if (file) await this.readDocument(file.content, settings.passphrase);
+      return null;
+    } catch (e) {
+      return e instanceof SyncError ? e.reason : 'offline';
+    }
+  }
+
+  private async run(): Promise<void> {
+    const settings = this.dataService.syncSettings();
+    if (!this.isConfigured(settings) || this.dataService.isAwaitingDecryption()) return;
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = null;
+    }
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      this.status.set('offline');
+      return;
+    }
+
+    this.status.set('syncing');
+    try {
+      const transport = new WebDavTransport(settings);
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await this.syncOnce(transport, settings);
+          break;
+        } catch (e) {
+          if (!(e instanceof SyncRetryError) || attempt >= MAX_ATTEMPTS) throw e;
+        }
+      }
+      this.lastError.set(null);
+      this.updateStatus();
+    } catch (e) {
+      console.error('Sync failed', e);
+      if (e instanceof SyncError) {
+        this.lastError.set(e.reason);
+        this.status.set('error');
+      } else if (e instanceof SyncRetryError) {
+        // Zu viele gleichzeitige Änderungen; beim nächsten Durchlauf erneut versuchen.
+        this.updateStatus();
+      } else {
+        // fetch() schlägt ohne Verbindung mit einem TypeError fehl.
+        this.status.set('offline');
+      }
+    }
+  }
+
+  private async syncOnce(transport: SyncTransport, settings: SyncSettings): Promise<void> {
+    const file = await transport.get();
+    const remote = file ? await this.readDocument(file.content, settings.passphrase) : null;
+
+    // Noch nicht vermerkte Änderungen zuerst erfassen, damit sie ihren Zeitpunkt erhalten.
+    const records = this.dataService.records();
+    this.trackChanges(records);
+    const journal = loadJournal();
+    const result = mergeSyncRecords(toSyncRecords(records, journal.modified), remote?.document.records ?? {}, journal.lastSyncAt);
+
+    if (!remote || result.remoteChanged || remote.isEncrypted !== !!settings.passphrase) {
+      const document: SyncDocument = { format: SYNC_FORMAT, schemaVersion: CURRENT_SCHEMA_VERSION, records: result.records };
+      await transport.put(await this.writeDocument(document, settings.passphrase), file?.etag ?? null);
+    }
+
+    // Wurde während der Übertragung lokal etwas geändert, mit dem neuen Stand wiederholen.
+    if (this.dataService.records() !== records) {
+      throw new SyncRetryError('Local data changed during sync');
+    }
+    this.dataService.applySyncedChanges(result.localChanges);
+    this.lastSeen = this.dataService.records();
+
+    const now = new Date().toISOString();
+    saveJournal({ modified: toModificationTimes(result.records), lastSyncAt: now, pending: false });
+    this.lastSyncAt.set(now);
+    this.lastConflicts.set(result.conflicts);
+  }
+
+  /**
+   * Vermerkt für alle seit dem letzten Aufruf geänderten oder gelöschten Datensätze den
+   * aktuellen Zeitpunkt und plant die Übertragung.
+   */
+  private trackChanges(records: Pick<PersistedState, CollectionName>) {
+    const previous = this.lastSeen;
+    this.lastSeen = records;
+    if (!previous || previous === records) return;
+
+    const now = new Date().toISOString();
+    const journal = loadJournal();
+    let hasChanged = false;
+    for (const name of COLLECTION_NAMES) {
+      const currentItems = records[name] as { id: string }[];
+      const previousItems = previous[name] as { id: string }[];
+      if (currentItems === previousItems) continue;
+
+      const previousById = new Map(previousItems.map(item => [item.id, item]));
+      const currentIds = new Set(currentItems.map(item => item.id));
+      const changedIds = [
+        ...currentItems.filter(item => previousById.get(item.id) !== item).map(item => item.id),
+        ...previousItems.filter(item => !currentIds.has(item.id)).map(item => item.id),
+      ];
+      for (const id of changedIds) {
+        journal.modified[recordKey(name, id)] = now;
+        hasChanged = true;
+      }
+    }
+    if (!hasChanged) return;
+
+    journal.pending = true;
+    saveJournal(journal);
+    if (this.isConfigured(this.dataService.syncSettings())) {
+      this.updateStatus();
+      if (this.changeTimer) clearTimeout(this.changeTimer);
+      this.changeTimer = setTimeout(() => void this.sync(), CHANGE_DELAY);
+    }
+  }
+
+  private updateStatus() {
+    this.status.set(loadJournal().pending ? 'pending' : 'idle');
+  }
+
+  private isConfigured(settings: SyncSettings): boolean {
+    return settings.isEnabled && !!settings.url.trim();
+  }
+
+  /**
+   * Liest die Sync-Datei und entschlüsselt sie bei Bedarf.
+   */
+  private async readDocument(content: string, passphrase: string): Promise<{ document: SyncDocument; isEncrypted: boolean }> {
+    let data: SyncDocument | EncryptedSyncDocument;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new SyncError('server', 'Sync file is not valid JSON');
+    }
+    if (data?.format !== SYNC_FORMAT) {
+      throw new SyncError('server', 'Sync file has an unknown format');
+    }
+
+    let document: SyncDocument;
+    const isEncrypted = 'kdf' in data;
+    if ('kdf' in data) {
+      if (!passphrase) {
+        throw new SyncError('passphrase', 'Sync file is encrypted');
+      }
+      const key = await this.deriveKey(passphrase, data.kdf.salt, data.kdf.iterations);
+      try {
+        document = await this.cryptoService.decrypt<SyncDocument>(key, data, SYNC_FORMAT);
+      } catch {
+        throw new SyncError('passphrase', 'Wrong sync passphrase');
+      }
+    } else {
+      document = data;
+    }
+
+    if (document.schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new SyncError('newerVersion', `Sync file was written with schema version ${document.schemaVersion}`);
+    }
+    return { document, isEncrypted };
+  }
+
+  /**
+   * Erstellt den Inhalt der Sync-Datei, mit Passphrase verschlüsselt.
+   */
+  private async writeDocument(document: SyncDocument, passphrase: string): Promise<string> {
+    if (!passphrase) {
+      return JSON.stringify(document);
+    }
+    const cached = this.cachedKey?.passphrase === passphrase ? this.cachedKey : null;
+    const salt = cached?.salt ?? this.cryptoService.generateSalt();
+    const iterations = CryptoService.PBKDF2_ITERATIONS;
+    const key = await this.deriveKey(passphrase, salt, iterations);
+    const encrypted: EncryptedSyncDocument = {
+      format: SYNC_FORMAT,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      ...await this.cryptoService.encrypt(key, document, SYNC_FORMAT),
+    };
+    return JSON.stringify(encrypted);
+  }
+
+  /**
+   * Leitet den Schlüssel ab. Das ist absichtlich aufwendig, daher wird der zuletzt
+   * verwendete Schlüssel zwischengespeichert.
+   */
+  private async deriveKey(passphrase: string, salt: string, iterations: number): Promise<CryptoKey> {
+    const cached = this.cachedKey;
+    if (cached && cached.passphrase === passphrase && cached.salt === salt) {
+      return cached.key;
+    }
+    const key = await this.cryptoService.deriveKey(passphrase, salt, iterations);
+    this.cachedKey = { passphrase, salt, key };
+    return key;
+  }
+}
+
+function loadJournal(): SyncJournal {
+  try {
+    const data = localStorage.getItem(JOURNAL_KEY);
+    if (data) return JSON.parse(data);
+  } catch (e) {
+    console.error('Error reading sync journal', e);
+  }
+  return { modified: {}, lastSyncAt: null, pending: false };
+}
+
+function saveJournal(journal: SyncJournal) {
+  localStorage.setItem(JOURNAL_KEY, JSON.stringify(journal));
+}
+
+/**
+ * Base64 für HTTP Basic Auth. `btoa()` allein versteht nur Latin-1.
+ */
+function encodeBase64(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
@@ -8,6 +8,15 @@ export interface Toast {
   message: string;
   type: 'success' | 'error' | 'info';
   duration: number; // Anzeigedauer in Millisekunden
+  action?: ToastAction;
+}
+
+/**
+ * Eine Schaltfläche im Toast, z.B. "Rückgängig". Der Toast schließt sich beim Antippen.
+ */
+export interface ToastAction {
+  label: string;
+  run: () => void;
 }
 
 /**
@@ -28,10 +37,12 @@ export class ToastService {
    * @param message Die anzuzeigende Nachricht.
    * @param type Der Typ des Toasts (beeinflusst die Farbe).
    * @param duration Wie lange der Toast sichtbar bleibt (in ms). 0 für unendlich.
+   * @param action Eine optionale Schaltfläche im Toast.
+   * @returns Die ID des Toasts.
    */
-  show(message: string, type: 'success' | 'error' | 'info' = 'info', duration: number = 5000) {
+  show(message: string, type: 'success' | 'error' | 'info' = 'info', duration: number = 5000, action?: ToastAction): number {
     const id = this.lastId++;
-    const newToast: Toast = { id, message, type, duration };
+    const newToast: Toast = { id, message, type, duration, action };
     
     // Fügt den neuen Toast zum Array hinzu
     this.toasts.update(currentToasts => [...currentToasts, newToast]);
@@ -40,6 +51,7 @@ export class ToastService {
     if (duration > 0) {
       setTimeout(() => this.remove(id), duration);
     }
+    return id;
   }
 
   /**
@@ -56,6 +68,14 @@ export class ToastService {
     this.show(message, 'error', duration);
   }
 
+  /**
+   * Führt die Aktion eines Toasts aus und schließt ihn.
+   */
+  runAction(toast: Toast) {
+    this.remove(toast.id);
+    toast.action?.run();
+  }
+
   /**
    * Entfernt einen Toast aus der Liste der sichtbaren Toasts.
    * @param id Die ID des zu entfernenden Toasts.
@@ -4,6 +4,9 @@ import { Mood, Effect, Manufacturer, Dosage, ActiveIngredient, Preparation, Crud
 import { TranslationService, TranslationKey } from './translation.service';
 import { ToastService } from './toast.service';
 import { EMOJI_DATA } from '../emoji-data';
+import { hasCompositionChanged } from '../preparation-revisions';
+import { toDateKey } from './csv.service';
+import { isArchived, selectableItems } from '../catalog-archive';
 
 /**
  * Definiert den Zustand eines einzelnen Formulars im Stack.
@@ -66,6 +69,12 @@ export class UiService {
     preparationForm = signal<Partial<Preparation>>({});
     ingredientForm = signal<Partial<Ingredient>>({});
     customEmojiForm = signal<{ emoji?: string }>({});
+
+    // --- Versionierung beim Bearbeiten eines Präparats ---
+    // Ändert sich die Zusammensetzung, gilt sie ab `preparationEffectiveFrom` (YYYY-MM-DD) als neue
+    // Version oder korrigiert mit `preparationCorrection` die geltende Version rückwirkend.
+    preparationEffectiveFrom = signal('');
+    preparationCorrection = signal(false);
     
     private allDefaultEmojis = computed(() => {
         return EMOJI_DATA.flatMap(category => category.emojis);
@@ -118,6 +127,8 @@ export class UiService {
      * @param item Das zu bearbeitende Objekt.
      */
     openEditForm(type: CrudEntity, item: any) {
+        this.preparationEffectiveFrom.set(toDateKey(new Date()));
+        this.preparationCorrection.set(false);
         this.formStack.set([{ type, item: { ...item }, formValues: { ...item } }]);
     }
     
@@ -553,7 +564,17 @@ export class UiService {
                     this.showErrorToast('duplicatePreparationError');
                     return false;
                 }
-                this.dataService.updatePreparation({ ...formValues, id, name } as Preparation);
+                const prep = { ...formValues, id, name } as Preparation;
+                let effectiveFrom: string | undefined;
+                if (!this.preparationCorrection() && this.isPreparationCompositionChanged()) {
+                    const day = this.preparationEffectiveFrom();
+                    if (!day || day < this.minPreparationEffectiveFrom()) {
+                        this.showErrorToast('formErrorEffectiveFromInvalid');
+                        return false;
+                    }
+                    effectiveFrom = new Date(`${day}T00:00`).toISOString();
+                }
+                this.dataService.updatePreparation(prep, effectiveFrom);
                 break;
             }
         }
@@ -578,6 +599,41 @@ export class UiService {
 
     // --- Helfer für Präparat-Formular ---
 
+    /**
+     * Prüft, ob die Bearbeitung die Zusammensetzung des Präparats ändert. Als Methode statt
+     * Computed Signal, da `ngModel` die Formularwerte direkt im Objekt ändert.
+     */
+    isPreparationCompositionChanged(): boolean {
+        const item = this.currentForm()?.item as Preparation | undefined;
+        return !!item && hasCompositionChanged(item, this.preparationForm());
+    }
+
+    /**
+     * Der früheste Stichtag für eine neue Version: der Tag nach Beginn der geltenden Version.
+     */
+    minPreparationEffectiveFrom(): string {
+        const revisions = (this.currentForm()?.item as Preparation | undefined)?.revisions ?? [];
+        const effectiveFrom = revisions[revisions.length - 1]?.effectiveFrom;
+        if (!effectiveFrom) return '';
+        const day = new Date(effectiveFrom);
+        day.setDate(day.getDate() + 1);
+        return toDateKey(day);
+    }
+
+    /**
+     * Die Auswahllisten des Präparat-Formulars ohne archivierte Stammdaten, außer den vom
+     * bearbeiteten Präparat verwendeten.
+     */
+    preparationFormOptions = computed(() => {
+        const form = this.currentForm();
+        const prep = form?.type === 'Preparation' ? form.item as Preparation | undefined : undefined;
+        return {
+            manufacturers: selectableItems(this.dataService.sortedManufacturers(), [prep?.manufacturerId]),
+            activeIngredients: selectableItems(this.dataService.sortedActiveIngredients(), [prep?.activeIngredientId]),
+            dosages: selectableItems(this.dataService.sortedDosages(), [prep?.dosageId]),
+        };
+    });
+
     // Helper computed signal to get full ingredient objects for the current preparation form
     selectedIngredientsForPrepForm = computed(() => {
         const ids = this.preparationForm().ingredientIds || [];
@@ -590,7 +646,7 @@ export class UiService {
         const selectedIds = this.preparationForm().ingredientIds || [];
         // Directly depend on the base signal and sort here to ensure reactivity.
         const allIngredients = this.dataService.ingredients();
-        const available = allIngredients.filter(ing => !selectedIds.includes(ing.id));
+        const available = allIngredients.filter(ing => !selectedIds.includes(ing.id) && !isArchived(ing));
         return available.slice().sort((a, b) => a.name.localeCompare(b.name, this.translationService.language(), { sensitivity: 'base' }));
     });
 
@@ -0,0 +1,84 @@
+import { Injectable, inject } from '@angular/core';
+import { DataService, UndoAction } from './data.service';
+import { ToastService } from './toast.service';
+import { TranslationService, TranslationKey } from './translation.service';
+
+/**
+ * Anzeigedauer der Toasts mit "Rückgängig" bzw. "Wiederholen" in Millisekunden.
+ */
+const UNDO_TOAST_DURATION = 8000;
+
+const ACTION_LABEL_KEYS: Record<UndoAction, TranslationKey> = {
+  addDiaryEntry: 'undoActionAddDiaryEntry',
+  updateDiaryEntry: 'undoActionUpdateDiaryEntry',
+  deleteDiaryEntry: 'undoActionDeleteDiaryEntry',
+  addItem: 'undoActionAddItem',
+  updateItem: 'undoActionUpdateItem',
+  deleteItem: 'undoActionDeleteItem',
+  importCsv: 'undoActionImportCsv',
+  restoreFromTrash: 'undoActionRestoreFromTrash',
+  mergeItems: 'undoActionMergeItems',
+  archiveItem: 'undoActionArchiveItem',
+  repairIntegrity: 'undoActionRepairIntegrity',
+  bulkEditDiaryEntries: 'undoActionBulkEditDiaryEntries',
+  deleteDiaryEntries: 'undoActionDeleteDiaryEntries',
+};
+
+/**
+ * UndoService verbindet die Undo-Historie des DataService mit der Oberfläche: Nach einer
+ * Aktion bietet ein Toast an, sie rückgängig zu machen, danach, sie zu wiederholen.
+ */
+@Injectable({ providedIn: 'root' })
+export class UndoService {
+  private dataService = inject(DataService);
+  private toastService = inject(ToastService);
+  private translationService = inject(TranslationService);
+
+  /**
+   * Zeigt nach einer Aktion einen Toast an, über den sie sich rückgängig machen lässt.
+   * @param message Die Meldung zur Aktion, z.B. "Eintrag gelöscht."
+   */
+  showUndoToast(message: string) {
+    const step = this.dataService.nextUndo();
+    if (!step) return;
+    this.toastService.show(message, 'info', UNDO_TOAST_DURATION, {
+      label: this.translationService.t('undo'),
+      run: () => this.showResult(this.dataService.undo(step), true),
+    });
+  }
+
+  /**
+   * Macht den letzten Schritt rückgängig, z.B. über Strg+Z.
+   */
+  undo() {
+    if (!this.dataService.nextUndo()) return;
+    this.showResult(this.dataService.undo(), true);
+  }
+
+  /**
+   * Wiederholt den zuletzt rückgängig gemachten Schritt, z.B. über Strg+Umschalt+Z.
+   */
+  redo() {
+    if (!this.dataService.nextRedo()) return;
+    this.showResult(this.dataService.redo(), false);
+  }
+
+  /**
+   * Meldet das Ergebnis und bietet an, es wiederum umzukehren.
+   * @param action Die rückgängig gemachte bzw. wiederholte Aktion oder `null`, wenn der Schritt
+   *   wegen späterer Änderungen nicht mehr an der Reihe war.
+   */
+  private showResult(action: UndoAction | null, isUndo: boolean) {
+    if (!action) {
+      this.toastService.show(this.translationService.t('undoUnavailable'));
+      return;
+    }
+    const step = (isUndo ? this.dataService.nextRedo() : this.dataService.nextUndo())!;
+    const label = this.translationService.t(ACTION_LABEL_KEYS[action]);
+    const message = this.translationService.t(isUndo ? 'undoDone' : 'redoDone').replace('{{action}}', label);
+    this.toastService.show(message, 'info', UNDO_TOAST_DURATION, {
+      label: this.translationService.t(isUndo ? 'redo' : 'undo'),
+      run: () => this.showResult(isUndo ? this.dataService.redo(step) : this.dataService.undo(step), !isUndo),
+    });
+  }
+}
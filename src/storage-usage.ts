@@ -0,0 +1,66 @@
+import { PersistedState, CollectionName, SETTING_NAMES, StorageEstimate } from './services/storage.service';
+
+/**
+ * Aufschlüsselung des belegten Speicherplatzes.
+ *
+ * Gemessen wird die Größe der Daten als JSON (UTF-8). Das tatsächlich belegte Volumen weicht davon
+ * ab, z.B. durch die Verschlüsselung oder die Verwaltung der Datenbank; der Rest der vom Browser
+ * gemeldeten Belegung erscheint daher als "Sonstiges", ebenso die automatischen Sicherungen.
+ */
+
+export type StorageCategory = 'diaryEntries' | 'catalog' | 'reminders' | 'trash' | 'settings';
+
+const CATEGORY_COLLECTIONS: Record<StorageCategory, readonly CollectionName[]> = {
+  diaryEntries: ['diaryEntries'],
+  catalog: ['moods', 'effects', 'symptoms', 'activities', 'manufacturers', 'dosages', 'activeIngredients', 'preparations', 'ingredients'],
+  reminders: ['reminders'],
+  trash: ['trash'],
+  settings: ['profiles'],
+};
+
+export const STORAGE_CATEGORIES = Object.keys(CATEGORY_COLLECTIONS) as StorageCategory[];
+
+/**
+ * Ab diesem Anteil des verfügbaren Speichers wird gewarnt bzw. dringend gewarnt.
+ */
+export const STORAGE_WARNING_RATIO = 0.8;
+export const STORAGE_CRITICAL_RATIO = 0.95;
+
+export type StorageLevel = 'ok' | 'warning' | 'critical';
+
+/**
+ * Misst die Größe der Daten je Kategorie in Bytes. Die Einstellungen zählen zu den Profilen.
+ */
+export function measureStorageUsage(state: PersistedState): Record<StorageCategory, number> {
+  const usage = {} as Record<StorageCategory, number>;
+  for (const category of STORAGE_CATEGORIES) {
+    usage[category] = CATEGORY_COLLECTIONS[category].reduce((sum, name) => sum + byteSize(state[name]), 0);
+  }
+  usage.settings += SETTING_NAMES.reduce((sum, name) => sum + byteSize(state[name]), 0);
+  return usage;
+}
+
+export function storageLevel(estimate: StorageEstimate): StorageLevel {
+  const ratio = estimate.quota > 0 ? estimate.usage / estimate.quota : 0;
+  return ratio >= STORAGE_CRITICAL_RATIO ? 'critical' : ratio >= STORAGE_WARNING_RATIO ? 'warning' : 'ok';
+}
+
+/**
+ * Formatiert eine Größe in Bytes mit passender Einheit, z.B. "1,4 MB".
+ * @param locale Die Sprache der App für das Zahlenformat.
+ */
+export function formatBytes(bytes: number, locale: string): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const formatted = new Intl.NumberFormat(locale, { maximumFractionDigits: unit === 0 ? 0 : 1 }).format(value);
+  return `${formatted} ${units[unit]}`;
+}
+
+function byteSize(value: unknown): number {
+  return value === undefined ? 0 : new TextEncoder().encode(JSON.stringify(value)).length;
+}
@@ -0,0 +1,159 @@
+import { COLLECTION_NAMES, CollectionName, PersistedState, StateChanges } from './services/storage.service';
+import { isDeepEqual } from './import-merge';
+
+/**
+ * Die Sync-Datei, die bei der Synchronisation auf dem Server liegt.
+ *
+ * Sie enthält alle Datensätze zusammen mit dem Zeitpunkt ihrer letzten Änderung. Gelöschte
+ * Datensätze bleiben als Grabstein ohne Inhalt erhalten, damit die Löschung auch auf den
+ * anderen Geräten ankommt. Beim Zusammenführen gewinnt je Datensatz die jüngere Änderung.
+ */
+
+export const SYNC_FORMAT = 'medikamententagebuch-sync';
+
+/**
+ * Ein Datensatz der Sync-Datei.
+ */
+export interface SyncRecord {
+  /**
+   * Zeitpunkt der letzten Änderung (ISO 8601). Leer bei Datensätzen, die schon vor dem
+   * Einrichten der Synchronisation vorhanden waren; sie verlieren gegen jede Änderung.
+   */
+  modifiedAt: string;
+  /**
+   * Der Datensatz selbst. Fehlt, wenn er gelöscht wurde.
+   */
+  data?: { id: string };
+}
+
+export type SyncRecords = Partial<Record<CollectionName, Record<string, SyncRecord>>>;
+
+export interface SyncDocument {
+  format: typeof SYNC_FORMAT;
+  schemaVersion: number;
+  records: SyncRecords;
+}
+
+/**
+ * Die Änderungszeitpunkte der lokalen Datensätze. Der Schlüssel ist `sammlung/id`, damit
+ * auch gelöschte Datensätze ihren Zeitpunkt behalten.
+ */
+export type ModificationTimes = Record<string, string>;
+
+export function recordKey(name: CollectionName, id: string): string {
+  return `${name}/${id}`;
+}
+
+/**
+ * Ergebnis des Zusammenführens von lokalem Stand und Server-Stand.
+ */
+export interface SyncMergeResult {
+  records: SyncRecords;
+  /**
+   * Die vom Server zu übernehmenden Änderungen.
+   */
+  localChanges: StateChanges;
+  /**
+   * Gibt an, ob lokal neuere Datensätze vorliegen und die Sync-Datei neu geschrieben werden muss.
+   */
+  remoteChanged: boolean;
+  /**
+   * Anzahl der Datensätze, die seit der letzten Synchronisation auf beiden Seiten unterschiedlich
+   * geändert wurden. Übernommen wurde jeweils die jüngere Änderung.
+   */
+  conflicts: number;
+}
+
+/**
+ * Erstellt die Datensätze der Sync-Datei aus dem lokalen Zustand. Für Datensätze, die einen
+ * Änderungszeitpunkt haben, aber nicht mehr vorhanden sind, entstehen Grabsteine.
+ * Die Datensätze werden dabei in ihre JSON-Form gebracht (ohne `undefined`-Felder), damit sie
+ * sich mit denen vom Server vergleichen lassen.
+ */
+export function toSyncRecords(state: Pick<PersistedState, CollectionName>, modified: ModificationTimes): SyncRecords {
+  const records: SyncRecords = {};
+  for (const name of COLLECTION_NAMES) {
+    records[name] = {};
+    for (const item of state[name] as { id: string }[]) {
+      records[name][item.id] = { modifiedAt: modified[recordKey(name, item.id)] ?? '', data: JSON.parse(JSON.stringify(item)) };
+    }
+  }
+  for (const [key, modifiedAt] of Object.entries(modified)) {
+    const [name, id] = splitKey(key);
+    const collection = records[name];
+    if (collection && !collection[id]) {
+      collection[id] = { modifiedAt };
+    }
+  }
+  return records;
+}
+
+/**
+ * Liefert die Änderungszeitpunkte aller Datensätze der Sync-Datei.
+ */
+export function toModificationTimes(records: SyncRecords): ModificationTimes {
+  const modified: ModificationTimes = {};
+  for (const name of COLLECTION_NAMES) {
+    for (const [id, record] of Object.entries(records[name] ?? {})) {
+      if (record.modifiedAt) modified[recordKey(name, id)] = record.modifiedAt;
+    }
+  }
+  return modified;
+}
+
+/**
+ * Führt den lokalen Stand mit dem Server-Stand zusammen. Je Datensatz gewinnt die jüngere
+ * Änderung, bei gleichem Zeitpunkt der Server-Stand.
+ * @param lastSyncAt Zeitpunkt der letzten erfolgreichen Synchronisation, um Konflikte zu erkennen.
+ */
+export function mergeSyncRecords(local: SyncRecords, remote: SyncRecords, lastSyncAt: string | null): SyncMergeResult {
+  const result: SyncMergeResult = {
+    records: {},
+    localChanges: { settings: {}, upserts: {}, deletions: {} },
+    remoteChanged: false,
+    conflicts: 0,
+  };
+
+  for (const name of COLLECTION_NAMES) {
+    const localRecords = local[name] ?? {};
+    const remoteRecords = remote[name] ?? {};
+    const merged: Record<string, SyncRecord> = {};
+    const upserts: { id: string }[] = [];
+    const deletions: string[] = [];
+
+    for (const id of new Set([...Object.keys(localRecords), ...Object.keys(remoteRecords)])) {
+      const mine = localRecords[id];
+      const theirs = remoteRecords[id];
+      const isLocalNewer = !!mine && (!theirs || mine.modifiedAt > theirs.modifiedAt);
+      const winner = isLocalNewer ? mine : theirs;
+      merged[id] = winner;
+
+      if (isLocalNewer) {
+        if (!theirs || !isDeepEqual(theirs, mine)) result.remoteChanged = true;
+      } else if (!isDeepEqual(mine?.data, theirs.data)) {
+        if (theirs.data) {
+          upserts.push(theirs.data);
+        } else if (mine?.data) {
+          deletions.push(id);
+        }
+      }
+
+      if (mine && theirs && lastSyncAt !== null
+        && mine.modifiedAt > lastSyncAt && theirs.modifiedAt > lastSyncAt
+        && !isDeepEqual(mine.data, theirs.data)) {
+        result.conflicts++;
+      }
+    }
+
+    result.records[name] = merged;
+    if (upserts.length > 0) result.localChanges.upserts[name] = upserts;
+    if (deletions.length > 0) result.localChanges.deletions[name] = deletions;
+  }
+
+  return result;
+}
+
+function splitKey(key: string): [CollectionName, string] {
+  const index = key.indexOf('/');
+  return [key.slice(0, index) as CollectionName, key.slice(index + 1)];
+}